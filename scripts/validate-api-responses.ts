@@ -1,28 +1,60 @@
 /**
  * API Response Validation Script
  * 
- * This script validates API responses by cross-checking:
- * - Total counts match across endpoints
+ * This script validates API responses by:
+ * - Parsing each response with its zod schema (the same contract as /openapi.json)
+ * - Cross-checking that total counts match across endpoints
  * - Percentages add up correctly
  * - Derived values are consistent
  * 
  * Run: npx tsx scripts/validate-api-responses.ts
  */
 
+import { z } from "zod";
+import {
+  PNodeSchema,
+  AnalyticsSummarySchema,
+  ExtendedSummarySchema,
+  NodeMetricsSchema,
+  StoragePressureSchema,
+} from "../src/types/schemas";
+
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
 
 interface ValidationResult {
   passed: boolean;
   message: string;
-  details?: any;
+  details?: string[];
 }
 
-async function fetchJSON<T>(endpoint: string): Promise<T> {
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Fetch an endpoint and check it against its schema
+ * Schema failures are recorded as results; the body is still returned so the cross-checks can run.
+ */
+async function fetchValidated<T extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: T,
+  results: ValidationResult[]
+): Promise<z.infer<T>> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`);
   if (!response.ok) {
     throw new Error(`Failed to fetch ${endpoint}: ${response.statusText}`);
   }
-  return response.json();
+  const body = await response.json();
+
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    results.push({ passed: true, message: `${endpoint} matches its schema` });
+    return parsed.data;
+  }
+
+  const issues = parsed.error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`);
+  results.push({ passed: false, message: `${endpoint} does not match its schema`, details: issues });
+  return body;
 }
 
 async function validateAPIResponses() {
@@ -34,17 +66,26 @@ async function validateAPIResponses() {
   try {
     // 1. Fetch all data
     const [pnodes, summary, extendedSummary, nodeMetrics, storagePressure] = await Promise.all([
-      fetchJSON<any[]>('/pnodes'),
-      fetchJSON<any>('/analytics/summary'),
-      fetchJSON<any>('/analytics/extended-summary'),
-      fetchJSON<any[]>('/analytics/node-metrics'),
-      fetchJSON<any>('/analytics/storage-pressure'),
+      fetchValidated('/pnodes', z.array(PNodeSchema), results),
+      fetchValidated('/analytics/summary', AnalyticsSummarySchema, results),
+      fetchValidated('/analytics/extended-summary', ExtendedSummarySchema, results),
+      fetchValidated('/analytics/node-metrics', z.array(NodeMetricsSchema), results),
+      fetchValidated('/analytics/storage-pressure', StoragePressureSchema, results),
     ]);
 
     console.log("=".repeat(80));
     console.log("VALIDATION RESULTS");
     console.log("=".repeat(80));
 
+    // Validation 0: Response schemas
+    console.log("\n✅ Validation 0: Response Schemas");
+    for (const result of results) {
+      console.log(`   ${result.passed ? "✓" : "✗"} ${result.message}`);
+      for (const issue of result.details ?? []) {
+        console.log(`      - ${issue}`);
+      }
+    }
+
     // Validation 1: Total node count consistency
     console.log("\n✅ Validation 1: Total Node Count Consistency");
     const totalNodesFromPNodes = pnodes.length;
@@ -206,6 +247,9 @@ async function validateAPIResponses() {
       console.log("\n❌ Failed Validations:");
       results.filter(r => !r.passed).forEach((r, i) => {
         console.log(`   ${i + 1}. ${r.message}`);
+        if (r.details) {
+          console.log(`      ${r.details.join("; ")}`);
+        }
       });
     }
     
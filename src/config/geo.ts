@@ -0,0 +1,59 @@
+/**
+ * Geo provider configuration
+ *
+ * Providers are tried in order until one resolves the IP:
+ * - overrides: static JSON file keyed by IP or CIDR (GEO_OVERRIDES_FILE)
+ * - mmdb: MaxMind-format database such as GeoLite2-City or DB-IP Lite (GEO_MMDB_FILE)
+ * - csv: IP-range CSV database (GEO_CSV_FILE)
+ * - ip-api: ip-api.com over HTTP, rate-limited
+ *
+ * GEO_PROVIDERS sets the order explicitly; omit ip-api to run fully offline.
+ * By default every provider with a configured file is used, followed by ip-api.
+ */
+
+export const GEO_PROVIDER_NAMES = ["overrides", "mmdb", "csv", "ip-api"] as const;
+export type GeoProviderName = typeof GEO_PROVIDER_NAMES[number];
+
+export interface GeoConfig {
+  providers: GeoProviderName[];
+  overridesFile?: string;
+  mmdbFile?: string;
+  csvFile?: string;
+}
+
+/**
+ * Throws on unknown provider names or a provider without its file so a bad deployment fails fast
+ */
+function loadGeoConfig(): GeoConfig {
+  const files: Partial<Record<GeoProviderName, string>> = {
+    overrides: process.env.GEO_OVERRIDES_FILE || undefined,
+    mmdb: process.env.GEO_MMDB_FILE || undefined,
+    csv: process.env.GEO_CSV_FILE || undefined,
+  };
+
+  let providers: GeoProviderName[];
+  if (process.env.GEO_PROVIDERS) {
+    const names = process.env.GEO_PROVIDERS.split(",").map((name) => name.trim()).filter(Boolean);
+    const unknown = names.find((name) => !GEO_PROVIDER_NAMES.includes(name as GeoProviderName));
+    if (unknown) {
+      throw new Error(`Invalid GEO_PROVIDERS: unknown provider "${unknown}" (expected ${GEO_PROVIDER_NAMES.join(", ")})`);
+    }
+    providers = Array.from(new Set(names as GeoProviderName[]));
+
+    const missingFile = providers.find((name) => name !== "ip-api" && !files[name]);
+    if (missingFile) {
+      throw new Error(`Invalid GEO_PROVIDERS: "${missingFile}" needs GEO_${missingFile.toUpperCase()}_FILE`);
+    }
+  } else {
+    providers = GEO_PROVIDER_NAMES.filter((name) => name === "ip-api" || files[name] !== undefined);
+  }
+
+  return {
+    providers,
+    overridesFile: files.overrides,
+    mmdbFile: files.mmdb,
+    csvFile: files.csv,
+  };
+}
+
+export const geoConfig: GeoConfig = loadGeoConfig();
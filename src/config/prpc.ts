@@ -1,9 +1,12 @@
+import { readFileSync } from "fs";
 import { PrpcClient } from "xandeum-prpc";
+import { formatHost } from "../utils/address";
 
 /**
- * Seed IPs for pRPC gossip discovery
+ * Default seed IPs for pRPC gossip discovery
+ * Used when neither PRPC_SEED_IPS nor PRPC_SEEDS_FILE is set
  */
-export const SEED_IPS = [
+export const DEFAULT_SEED_IPS = [
   "173.212.220.65",
   "161.97.97.41",
   "192.190.136.36",
@@ -14,15 +17,61 @@ export const SEED_IPS = [
   "173.212.203.145",
 ];
 
+/**
+ * Port the pRPC client connects to (xandeum-prpc always uses 6000)
+ */
+export const PRPC_PORT = 6000;
+
+/**
+ * Load configured seed IPs from the environment
+ * - PRPC_SEED_IPS: comma-separated list of IPs
+ * - PRPC_SEEDS_FILE: path to a JSON file containing an array of IPs or { "seeds": [...] }
+ */
+function loadConfiguredSeedIps(): string[] {
+  const fromEnv = process.env.PRPC_SEED_IPS;
+  if (fromEnv) {
+    const seeds = fromEnv.split(",").map((ip) => ip.trim()).filter(Boolean);
+    if (seeds.length > 0) return seeds;
+  }
+
+  const seedsFile = process.env.PRPC_SEEDS_FILE;
+  if (seedsFile) {
+    try {
+      const parsed = JSON.parse(readFileSync(seedsFile, "utf8")) as unknown;
+      const list = Array.isArray(parsed) ? parsed : (parsed as { seeds?: unknown })?.seeds;
+      if (Array.isArray(list)) {
+        const seeds = list.filter((ip): ip is string => typeof ip === "string" && ip.trim() !== "").map((ip) => ip.trim());
+        if (seeds.length > 0) return seeds;
+      }
+      console.warn(`⚠️ No seeds found in ${seedsFile}, using default seed IPs`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to read PRPC_SEEDS_FILE ${seedsFile}, using default seed IPs:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return DEFAULT_SEED_IPS;
+}
+
+/**
+ * Configured seed IPs for pRPC gossip discovery
+ * Promoted seeds discovered at runtime are managed by the seed registry service.
+ */
+export const SEED_IPS = loadConfiguredSeedIps();
+
+/**
+ * Timeout for gossip calls to a single seed
+ */
+export const SEED_TIMEOUT_MS = 10000;
+
 /**
  * Initialize and configure pRPC client
- * Uses the first seed IP as the primary connection point
+ * Defaults to the first seed IP as the primary connection point
  */
-export function createPrpcClient(): PrpcClient {
+export function createPrpcClient(ip: string = SEED_IPS[0], timeout: number = SEED_TIMEOUT_MS): PrpcClient {
   try {
-    // PrpcClient constructor takes a single IP address
-    const client = new PrpcClient(SEED_IPS[0], {
-      timeout: 10000, // 10 second timeout
+    // PrpcClient builds http://<ip>:6000/rpc, so IPv6 addresses need brackets
+    const client = new PrpcClient(formatHost(ip), {
+      timeout,
     });
 
     return client;
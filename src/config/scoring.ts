@@ -0,0 +1,60 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+/**
+ * Health score model configuration
+ *
+ * Weights are relative: they are normalized over the factors that have data for a
+ * node, so the score always stays on a 0-100 scale. The defaults reproduce the
+ * original model (uptime 0.5, storage headroom 0.3, online 0.2).
+ */
+export const ScoringConfigSchema = z.object({
+  weights: z.object({
+    uptime: z.number().min(0).default(0.5),
+    storage: z.number().min(0).default(0.3),
+    online: z.number().min(0).default(0.2),
+    // Optional factors, disabled by default
+    versionCurrency: z.number().min(0).default(0),
+    ram: z.number().min(0).default(0),
+    cpu: z.number().min(0).default(0),
+  }).default({}),
+  tiers: z.object({
+    excellent: z.number().min(0).max(100).default(90),
+    good: z.number().min(0).max(100).default(75),
+  }).default({}).refine((tiers) => tiers.excellent >= tiers.good, {
+    message: "tiers.excellent must be greater than or equal to tiers.good",
+  }),
+}).refine((config) => Object.values(config.weights).some((weight) => weight > 0), {
+  message: "at least one weight must be greater than 0",
+});
+
+export type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+export type ScoringFactor = keyof ScoringConfig["weights"];
+
+/**
+ * Load scoring config from SCORING_CONFIG (inline JSON) or SCORING_CONFIG_FILE (path to JSON)
+ * Throws on invalid config so a bad deployment fails fast instead of silently using defaults.
+ */
+function loadScoringConfig(): ScoringConfig {
+  let raw: unknown = {};
+
+  try {
+    if (process.env.SCORING_CONFIG) {
+      raw = JSON.parse(process.env.SCORING_CONFIG);
+    } else if (process.env.SCORING_CONFIG_FILE) {
+      raw = JSON.parse(readFileSync(process.env.SCORING_CONFIG_FILE, "utf8"));
+    }
+  } catch (error) {
+    throw new Error(`Failed to read scoring config: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ScoringConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`);
+    throw new Error(`Invalid scoring config: ${issues.join("; ")}`);
+  }
+
+  return result.data;
+}
+
+export const scoringConfig: ScoringConfig = loadScoringConfig();
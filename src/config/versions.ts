@@ -0,0 +1,34 @@
+import { compareVersions, parseVersion } from "../utils/semver";
+
+/**
+ * Version policy for /analytics/versions/compliance
+ *
+ * - VERSION_LATEST: current release; defaults to the highest stable version seen on the network
+ * - VERSION_MIN_SUPPORTED: oldest supported release; unset means no minimum
+ */
+export interface VersionPolicyConfig {
+  latest?: string;
+  minimumSupported?: string;
+}
+
+/**
+ * Throws on unparseable versions or a minimum above latest so a bad deployment fails fast
+ */
+function loadVersionPolicy(): VersionPolicyConfig {
+  const latest = process.env.VERSION_LATEST?.trim() || undefined;
+  const minimumSupported = process.env.VERSION_MIN_SUPPORTED?.trim() || undefined;
+
+  if (latest && !parseVersion(latest)) {
+    throw new Error(`Invalid VERSION_LATEST: "${latest}" is not a version`);
+  }
+  if (minimumSupported && !parseVersion(minimumSupported)) {
+    throw new Error(`Invalid VERSION_MIN_SUPPORTED: "${minimumSupported}" is not a version`);
+  }
+  if (latest && minimumSupported && compareVersions(minimumSupported, latest) > 0) {
+    throw new Error(`Invalid version policy: VERSION_MIN_SUPPORTED ${minimumSupported} is above VERSION_LATEST ${latest}`);
+  }
+
+  return { latest, minimumSupported };
+}
+
+export const versionPolicyConfig: VersionPolicyConfig = loadVersionPolicy();
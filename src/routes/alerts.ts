@@ -0,0 +1,222 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  listAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getActiveAlerts,
+} from "../services/alert.service";
+import {
+  AlertRuleInputSchema,
+  AlertRuleInput,
+  PublicAlertRule,
+  PublicAlertRuleSchema,
+  toPublicAlertRule,
+} from "../utils/alert-rules";
+import { errorResponse } from "../utils/openapi";
+import { Alert, ErrorResponse } from "../types/pnode";
+import { AlertSchema, AlertRuleParamsSchema } from "../types/schemas";
+
+function parseRuleInput(body: unknown): { input: AlertRuleInput } | { error: string } {
+  const result = AlertRuleInputSchema.safeParse(body ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "rule"}: ${issue.message}`);
+    return { error: issues.join("; ") };
+  }
+  return { input: result.data };
+}
+
+export async function alertRoutes(fastify: FastifyInstance) {
+  // GET /alerts - Pending and firing alerts
+  fastify.get<{ Reply: Alert[] }>(
+    "/alerts",
+    {
+      config: {
+        contract: {
+          summary: "Pending and firing alerts",
+          tags: ["Alerts"],
+          responses: {
+            200: { description: "Active alerts", schema: z.array(AlertSchema) },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.code(200).send(getActiveAlerts());
+    }
+  );
+
+  // GET /alerts/rules - All alert rules
+  fastify.get<{ Reply: PublicAlertRule[] }>(
+    "/alerts/rules",
+    {
+      config: {
+        contract: {
+          summary: "List alert rules",
+          tags: ["Alerts"],
+          responses: {
+            200: { description: "Alert rules", schema: z.array(PublicAlertRuleSchema) },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.code(200).send(listAlertRules().map(toPublicAlertRule));
+    }
+  );
+
+  // POST /alerts/rules - Create an alert rule
+  fastify.post<{ Reply: PublicAlertRule | ErrorResponse }>(
+    "/alerts/rules",
+    {
+      config: {
+        contract: {
+          summary: "Create an alert rule",
+          tags: ["Alerts"],
+          body: AlertRuleInputSchema,
+          responses: {
+            201: { description: "The created rule", schema: PublicAlertRuleSchema },
+            400: errorResponse("Invalid rule"),
+            500: errorResponse("Failed to create alert rule"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const parsed = parseRuleInput(request.body);
+      if ("error" in parsed) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: parsed.error,
+        });
+      }
+
+      try {
+        const rule = await createAlertRule(parsed.input);
+        return reply.code(201).send(toPublicAlertRule(rule));
+      } catch (error) {
+        console.error("Error creating alert rule:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to create alert rule",
+        });
+      }
+    }
+  );
+
+  // GET /alerts/rules/:id - Single alert rule
+  fastify.get<{ Params: { id: string }; Reply: PublicAlertRule | ErrorResponse }>(
+    "/alerts/rules/:id",
+    {
+      config: {
+        contract: {
+          summary: "Get an alert rule",
+          tags: ["Alerts"],
+          params: AlertRuleParamsSchema,
+          responses: {
+            200: { description: "The rule", schema: PublicAlertRuleSchema },
+            404: errorResponse("Unknown rule"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const rule = getAlertRule(request.params.id);
+      if (!rule) {
+        return reply.code(404).send({
+          error: "Not found",
+          message: `Alert rule ${request.params.id} not found`,
+        });
+      }
+      return reply.code(200).send(toPublicAlertRule(rule));
+    }
+  );
+
+  // PUT /alerts/rules/:id - Replace an alert rule (omit webhook.secret to keep the current one)
+  fastify.put<{ Params: { id: string }; Reply: PublicAlertRule | ErrorResponse }>(
+    "/alerts/rules/:id",
+    {
+      config: {
+        contract: {
+          summary: "Replace an alert rule",
+          description: "Omit webhook.secret to keep the current secret.",
+          tags: ["Alerts"],
+          params: AlertRuleParamsSchema,
+          body: AlertRuleInputSchema,
+          responses: {
+            200: { description: "The updated rule", schema: PublicAlertRuleSchema },
+            400: errorResponse("Invalid rule"),
+            404: errorResponse("Unknown rule"),
+            500: errorResponse("Failed to update alert rule"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const parsed = parseRuleInput(request.body);
+      if ("error" in parsed) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: parsed.error,
+        });
+      }
+
+      try {
+        const rule = await updateAlertRule(request.params.id, parsed.input);
+        if (!rule) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `Alert rule ${request.params.id} not found`,
+          });
+        }
+        return reply.code(200).send(toPublicAlertRule(rule));
+      } catch (error) {
+        console.error("Error updating alert rule:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to update alert rule",
+        });
+      }
+    }
+  );
+
+  // DELETE /alerts/rules/:id - Delete an alert rule and its alerts
+  fastify.delete<{ Params: { id: string }; Reply: ErrorResponse | undefined }>(
+    "/alerts/rules/:id",
+    {
+      config: {
+        contract: {
+          summary: "Delete an alert rule",
+          description: "Firing alerts of the rule are resolved and their webhooks notified.",
+          tags: ["Alerts"],
+          params: AlertRuleParamsSchema,
+          responses: {
+            204: { description: "Deleted" },
+            404: errorResponse("Unknown rule"),
+            500: errorResponse("Failed to delete alert rule"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await deleteAlertRule(request.params.id);
+        if (!deleted) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `Alert rule ${request.params.id} not found`,
+          });
+        }
+        return reply.code(204).send();
+      } catch (error) {
+        console.error("Error deleting alert rule:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to delete alert rule",
+        });
+      }
+    }
+  );
+}
@@ -1,29 +1,128 @@
 import { FastifyInstance } from "fastify";
+import { z } from "zod";
 import {
   getAnalyticsSummary,
   getStorageAnalytics,
   getVersionDistribution,
+  getVersionCompliance,
   getExtendedSummary,
   getNodeMetrics,
   getTopNodes,
   getStoragePressure,
+  explainNodeScore,
 } from "../services/analytics.service";
-import { getGeoSummary } from "../services/map.service";
+import { getGeoSummary, getGeoHealthReport } from "../services/map.service";
+import { getChurnReport } from "../services/churn.service";
+import { getVersionTimeline, MAX_HISTORY_BUCKETS } from "../services/history.service";
+import {
+  getStorageForecast,
+  getNodeStorageForecast,
+  defaultForecastFrom,
+  storageForecastThresholds,
+  DEFAULT_FORECAST_HORIZON_MS,
+} from "../services/storage-forecast.service";
+import { parseDuration, parseTimestamp } from "../utils/timeseries";
+import { parsePercentList } from "../utils/forecast";
+import { VERSION_TIMELINE_STEPS_MS } from "../utils/version-timeline";
+import {
+  negotiateExportFormat,
+  sendExport,
+  varyOnAccept,
+  NODE_METRICS_EXPORT_COLUMNS,
+  STORAGE_EXPORT_COLUMNS,
+} from "../utils/export-format";
+import { errorResponse } from "../utils/openapi";
 import {
   AnalyticsSummary,
   StorageAnalytics,
   VersionDistribution,
+  VersionCompliance,
+  ChurnReport,
+  VersionTimeline,
+  VersionTimelineInterval,
+  NetworkStorageForecast,
+  NodeStorageForecast,
   ExtendedSummary,
   NodeMetrics,
   TopNode,
   StoragePressure,
   GeoSummary,
+  GeoHealthReport,
+  NodeScoreExplanation,
+  ErrorResponse,
 } from "../types/pnode";
+import {
+  AnalyticsSummarySchema,
+  StorageAnalyticsSchema,
+  VersionDistributionSchema,
+  VersionComplianceSchema,
+  ChurnReportSchema,
+  VersionTimelineSchema,
+  VersionTimelineQuerySchema,
+  NetworkStorageForecastSchema,
+  NodeStorageForecastSchema,
+  StorageForecastQuerySchema,
+  ExtendedSummarySchema,
+  NodeMetricsSchema,
+  NodeScoreExplanationSchema,
+  TopNodeSchema,
+  StoragePressureSchema,
+  GeoSummarySchema,
+  GeoHealthReportSchema,
+  PubkeyParamsSchema,
+  ExportFormatQuerySchema,
+} from "../types/schemas";
+
+const MAX_FORECAST_HORIZON_MS = 730 * 24 * 60 * 60 * 1000;
+
+interface StorageForecastQuery {
+  from?: string;
+  to?: string;
+  horizon?: string;
+  thresholds?: string;
+}
+
+/**
+ * Validate forecast query parameters shared by the network and per-node forecasts
+ */
+function parseStorageForecastQuery(
+  query: StorageForecastQuery
+): { from: number; to: number; horizonMs: number; thresholds: number[] } | { error: string } {
+  const to = query.to !== undefined ? parseTimestamp(query.to) : Date.now();
+  const from = query.from !== undefined ? parseTimestamp(query.from) : defaultForecastFrom(to ?? Date.now());
+  if (to === null || from === null || from >= to) {
+    return { error: "from/to must be Unix timestamps or ISO dates with from < to" };
+  }
+
+  const horizonMs = query.horizon !== undefined ? parseDuration(query.horizon) : DEFAULT_FORECAST_HORIZON_MS;
+  if (horizonMs === null || horizonMs > MAX_FORECAST_HORIZON_MS) {
+    return { error: "horizon must be a duration such as 30d, up to 730d" };
+  }
+
+  const thresholds = query.thresholds !== undefined ? parsePercentList(query.thresholds) : storageForecastThresholds;
+  if (!thresholds) {
+    return { error: "thresholds must be comma-separated percentages between 0 and 100" };
+  }
+
+  return { from, to, horizonMs, thresholds };
+}
 
 export async function analyticsRoutes(fastify: FastifyInstance) {
   // GET /analytics/summary - Get analytics summary
-  fastify.get<{ Reply: AnalyticsSummary }>(
+  fastify.get<{ Reply: AnalyticsSummary | ErrorResponse }>(
     "/analytics/summary",
+    {
+      config: {
+        contract: {
+          summary: "Network summary",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Analytics summary", schema: AnalyticsSummarySchema },
+            500: errorResponse("Failed to fetch analytics summary"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const summary = await getAnalyticsSummary();
@@ -33,31 +132,157 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch analytics summary",
-        } as any);
+        });
       }
     }
   );
 
-  // GET /analytics/storage - Get storage analytics
-  fastify.get<{ Reply: StorageAnalytics[] }>(
+  // GET /analytics/storage - Get storage analytics (JSON, CSV or NDJSON)
+  fastify.get<{ Querystring: { format?: string }; Reply: StorageAnalytics[] | ErrorResponse }>(
     "/analytics/storage",
-    async (_request, reply) => {
+    {
+      config: {
+        contract: {
+          summary: "Storage per pNode",
+          tags: ["Analytics"],
+          querystring: ExportFormatQuerySchema,
+          responses: {
+            200: {
+              description: "Storage analytics",
+              schema: z.array(StorageAnalyticsSchema),
+              textContent: ["text/csv", "application/x-ndjson"],
+            },
+            400: errorResponse("Invalid format"),
+            500: errorResponse("Failed to fetch storage analytics"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
       try {
+        const negotiated = negotiateExportFormat(request.query.format, request.headers.accept);
+        if ("error" in negotiated) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: negotiated.error,
+          });
+        }
+        varyOnAccept(reply);
+
         const storage = await getStorageAnalytics();
+        if (negotiated.format !== "json") {
+          return sendExport(reply, negotiated.format, "storage", storage, STORAGE_EXPORT_COLUMNS);
+        }
         return reply.code(200).send(storage);
       } catch (error) {
         console.error("Error fetching storage analytics:", error);
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch storage analytics",
-        } as any);
+        });
+      }
+    }
+  );
+
+  // GET /analytics/storage/forecast - Network storage growth forecast
+  fastify.get<{ Querystring: StorageForecastQuery; Reply: NetworkStorageForecast | ErrorResponse }>(
+    "/analytics/storage/forecast",
+    {
+      config: {
+        contract: {
+          summary: "Storage capacity forecast",
+          description: "Fits linear and exponential trends to the recorded storage history and predicts when network utilization crosses each threshold. Includes a compact outlook per node (storageUsed vs storageCommitted), most urgent first.",
+          tags: ["Analytics"],
+          querystring: StorageForecastQuerySchema,
+          responses: {
+            200: { description: "Storage forecast", schema: NetworkStorageForecastSchema },
+            400: errorResponse("Invalid from, to, horizon or thresholds"),
+            500: errorResponse("Failed to forecast storage"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const parsed = parseStorageForecastQuery(request.query);
+        if ("error" in parsed) {
+          return reply.code(400).send({ error: "Bad request", message: parsed.error });
+        }
+
+        const forecast = await getStorageForecast(parsed.from, parsed.to, parsed.horizonMs, parsed.thresholds);
+        return reply.code(200).send(forecast);
+      } catch (error) {
+        console.error("Error forecasting storage:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to forecast storage",
+        });
+      }
+    }
+  );
+
+  // GET /analytics/storage/forecast/:pubkey - Storage growth forecast for one node
+  fastify.get<{ Params: { pubkey: string }; Querystring: StorageForecastQuery; Reply: NodeStorageForecast | ErrorResponse }>(
+    "/analytics/storage/forecast/:pubkey",
+    {
+      config: {
+        contract: {
+          summary: "Storage forecast for a pNode",
+          description: "Same as the network forecast for one node, with storageCommitted as capacity.",
+          tags: ["Analytics"],
+          params: PubkeyParamsSchema,
+          querystring: StorageForecastQuerySchema,
+          responses: {
+            200: { description: "Node storage forecast", schema: NodeStorageForecastSchema },
+            400: errorResponse("Invalid from, to, horizon or thresholds"),
+            404: errorResponse("No storage history for the pubkey in the window"),
+            500: errorResponse("Failed to forecast node storage"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const parsed = parseStorageForecastQuery(request.query);
+        if ("error" in parsed) {
+          return reply.code(400).send({ error: "Bad request", message: parsed.error });
+        }
+
+        const { pubkey } = request.params;
+        const forecast = await getNodeStorageForecast(pubkey, parsed.from, parsed.to, parsed.horizonMs, parsed.thresholds);
+        if (!forecast) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `No storage history for pNode ${pubkey}`,
+          });
+        }
+
+        return reply.code(200).send(forecast);
+      } catch (error) {
+        console.error(`Error forecasting storage for pNode ${request.params.pubkey}:`, error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to forecast node storage",
+        });
       }
     }
   );
 
   // GET /analytics/versions - Get version distribution
-  fastify.get<{ Reply: VersionDistribution[] }>(
+  fastify.get<{ Reply: VersionDistribution[] | ErrorResponse }>(
     "/analytics/versions",
+    {
+      config: {
+        contract: {
+          summary: "Version distribution",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "pNodes per version", schema: z.array(VersionDistributionSchema) },
+            500: errorResponse("Failed to fetch version distribution"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const versions = await getVersionDistribution();
@@ -67,14 +292,143 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch version distribution",
-        } as any);
+        });
+      }
+    }
+  );
+
+  // GET /analytics/versions/compliance - Nodes behind latest / below minimum supported version
+  fastify.get<{ Reply: VersionCompliance | ErrorResponse }>(
+    "/analytics/versions/compliance",
+    {
+      config: {
+        contract: {
+          summary: "Version compliance",
+          description: "Compares every node's version with the latest and minimum supported versions (VERSION_LATEST / VERSION_MIN_SUPPORTED; latest defaults to the highest stable version seen) and reports adoption per major.minor series.",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Version compliance report", schema: VersionComplianceSchema },
+            500: errorResponse("Failed to fetch version compliance"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const compliance = await getVersionCompliance();
+        return reply.code(200).send(compliance);
+      } catch (error) {
+        console.error("Error fetching version compliance:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch version compliance",
+        });
+      }
+    }
+  );
+
+  // GET /analytics/churn - Join/leave rates and tenure over trailing windows
+  fastify.get<{ Reply: ChurnReport | ErrorResponse }>(
+    "/analytics/churn",
+    {
+      config: {
+        contract: {
+          summary: "Network churn",
+          description: "Join and leave rates over the last 1h, 24h and 7d, median tenure of current nodes and the share present for each whole window, from the pubkeys observed on every gossip refresh.",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Churn report", schema: ChurnReportSchema },
+            500: errorResponse("Failed to compute churn"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        return reply.code(200).send(getChurnReport());
+      } catch (error) {
+        console.error("Error computing churn:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to compute churn",
+        });
+      }
+    }
+  );
+
+  // GET /analytics/versions/timeline - Version distribution over time from gossip snapshots
+  fastify.get<{ Querystring: { from?: string; to?: string; interval?: string }; Reply: VersionTimeline | ErrorResponse }>(
+    "/analytics/versions/timeline",
+    {
+      config: {
+        contract: {
+          summary: "Version rollout timeline",
+          description: "Version distribution per hour or day from recorded gossip snapshots, with time-to-50% and time-to-90% adoption for each version seen in the range.",
+          tags: ["Analytics"],
+          querystring: VersionTimelineQuerySchema,
+          responses: {
+            200: { description: "Version timeline", schema: VersionTimelineSchema },
+            400: errorResponse("Invalid from, to or interval"),
+            500: errorResponse("Failed to fetch version timeline"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { from, to, interval = "hourly" } = request.query;
+
+        if (interval !== "hourly" && interval !== "daily") {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: "interval must be hourly or daily",
+          });
+        }
+
+        const toMs = to !== undefined ? parseTimestamp(to) : Date.now();
+        const fromMs = from !== undefined ? parseTimestamp(from) : (toMs ?? Date.now()) - 7 * 24 * 60 * 60 * 1000;
+
+        if (toMs === null || fromMs === null || fromMs >= toMs) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: "from/to must be Unix timestamps or ISO dates with from < to",
+          });
+        }
+
+        if ((toMs - fromMs) / VERSION_TIMELINE_STEPS_MS[interval] > MAX_HISTORY_BUCKETS) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: `Range is too long for ${interval} buckets (max ${MAX_HISTORY_BUCKETS} buckets)`,
+          });
+        }
+
+        const timeline = await getVersionTimeline(fromMs, toMs, interval as VersionTimelineInterval);
+        return reply.code(200).send(timeline);
+      } catch (error) {
+        console.error("Error fetching version timeline:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch version timeline",
+        });
       }
     }
   );
 
   // GET /analytics/extended-summary - Get extended analytics summary
-  fastify.get<{ Reply: ExtendedSummary }>(
+  fastify.get<{ Reply: ExtendedSummary | ErrorResponse }>(
     "/analytics/extended-summary",
+    {
+      config: {
+        contract: {
+          summary: "Extended network summary",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Extended summary", schema: ExtendedSummarySchema },
+            500: errorResponse("Failed to fetch extended summary"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const summary = await getExtendedSummary();
@@ -84,31 +438,113 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch extended summary",
-        } as any);
+        });
       }
     }
   );
 
-  // GET /analytics/node-metrics - Get per-node metrics
-  fastify.get<{ Reply: NodeMetrics[] }>(
+  // GET /analytics/node-metrics - Get per-node metrics (JSON, CSV or NDJSON)
+  fastify.get<{ Querystring: { format?: string }; Reply: NodeMetrics[] | ErrorResponse }>(
     "/analytics/node-metrics",
-    async (_request, reply) => {
+    {
+      config: {
+        contract: {
+          summary: "Health metrics per pNode",
+          tags: ["Analytics"],
+          querystring: ExportFormatQuerySchema,
+          responses: {
+            200: {
+              description: "Node metrics",
+              schema: z.array(NodeMetricsSchema),
+              textContent: ["text/csv", "application/x-ndjson"],
+            },
+            400: errorResponse("Invalid format"),
+            500: errorResponse("Failed to fetch node metrics"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
       try {
+        const negotiated = negotiateExportFormat(request.query.format, request.headers.accept);
+        if ("error" in negotiated) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: negotiated.error,
+          });
+        }
+        varyOnAccept(reply);
+
         const metrics = await getNodeMetrics();
+        if (negotiated.format !== "json") {
+          return sendExport(reply, negotiated.format, "node-metrics", metrics, NODE_METRICS_EXPORT_COLUMNS);
+        }
         return reply.code(200).send(metrics);
       } catch (error) {
         console.error("Error fetching node metrics:", error);
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch node metrics",
-        } as any);
+        });
+      }
+    }
+  );
+
+  // GET /analytics/node-metrics/:pubkey/explain - Break down a node's health score
+  fastify.get<{ Params: { pubkey: string }; Reply: NodeScoreExplanation | ErrorResponse }>(
+    "/analytics/node-metrics/:pubkey/explain",
+    {
+      config: {
+        contract: {
+          summary: "Explain a pNode's health score",
+          tags: ["Analytics"],
+          params: PubkeyParamsSchema,
+          responses: {
+            200: { description: "Score breakdown", schema: NodeScoreExplanationSchema },
+            404: errorResponse("Unknown pubkey"),
+            500: errorResponse("Failed to explain node score"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { pubkey } = request.params;
+        const explanation = await explainNodeScore(pubkey);
+
+        if (!explanation) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `pNode with pubkey ${pubkey} not found`,
+          });
+        }
+
+        return reply.code(200).send(explanation);
+      } catch (error) {
+        console.error(`Error explaining score for pNode ${request.params.pubkey}:`, error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to explain node score",
+        });
       }
     }
   );
 
   // GET /analytics/top-nodes - Get top performing nodes
-  fastify.get<{ Reply: TopNode[] }>(
+  fastify.get<{ Reply: TopNode[] | ErrorResponse }>(
     "/analytics/top-nodes",
+    {
+      config: {
+        contract: {
+          summary: "Top pNodes by health score",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Top nodes", schema: z.array(TopNodeSchema) },
+            500: errorResponse("Failed to fetch top nodes"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const topNodes = await getTopNodes();
@@ -118,14 +554,26 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch top nodes",
-        } as any);
+        });
       }
     }
   );
 
   // GET /analytics/storage-pressure - Get storage pressure metrics
-  fastify.get<{ Reply: StoragePressure }>(
+  fastify.get<{ Reply: StoragePressure | ErrorResponse }>(
     "/analytics/storage-pressure",
+    {
+      config: {
+        contract: {
+          summary: "Storage pressure",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Share of pNodes above 80% utilization", schema: StoragePressureSchema },
+            500: errorResponse("Failed to fetch storage pressure"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const pressure = await getStoragePressure();
@@ -135,14 +583,26 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch storage pressure",
-        } as any);
+        });
       }
     }
   );
 
   // GET /analytics/geo-summary - Get geographic distribution summary
-  fastify.get<{ Reply: GeoSummary }>(
+  fastify.get<{ Reply: GeoSummary | ErrorResponse }>(
     "/analytics/geo-summary",
+    {
+      config: {
+        contract: {
+          summary: "Geographic distribution",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "pNodes per country and region", schema: GeoSummarySchema },
+            500: errorResponse("Failed to fetch geo summary"),
+          },
+        },
+      },
+    },
     async (_request, reply) => {
       try {
         const summary = await getGeoSummary();
@@ -152,9 +612,39 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch geo summary",
-        } as any);
+        });
       }
     }
   );
-}
 
+  // GET /analytics/geo - Health, storage and version mix per country and region
+  fastify.get<{ Reply: GeoHealthReport | ErrorResponse }>(
+    "/analytics/geo",
+    {
+      config: {
+        contract: {
+          summary: "Health per country and region",
+          description:
+            "Online percentage, average health score and uptime24h, storage totals and version mix of the located nodes in each country and region.",
+          tags: ["Analytics"],
+          responses: {
+            200: { description: "Aggregates per country and region", schema: GeoHealthReportSchema },
+            500: errorResponse("Failed to fetch geo analytics"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const report = await getGeoHealthReport();
+        return reply.code(200).send(report);
+      } catch (error) {
+        console.error("Error fetching geo analytics:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch geo analytics",
+        });
+      }
+    }
+  );
+}
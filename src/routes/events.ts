@@ -0,0 +1,123 @@
+import { FastifyInstance } from "fastify";
+import { OutgoingHttpHeaders } from "http";
+import {
+  getEventsSince,
+  queryEvents,
+  subscribeToNodeEvents,
+} from "../services/node-events.service";
+import { parseEventLogQuery, RawEventLogQuery } from "../utils/event-log";
+import { errorResponse } from "../utils/openapi";
+import { ErrorResponse, NodeEvent, NodeEventPage } from "../types/pnode";
+import { EventLogQuerySchema, EventStreamQuerySchema, NodeEventPageSchema } from "../types/schemas";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const CLIENT_RETRY_MS = 5000;
+
+function formatSseEvent(event: NodeEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function eventRoutes(fastify: FastifyInstance) {
+  // GET /events - Persisted node lifecycle events, newest first by default
+  // Filters: pubkey, types (comma-separated), from/to; paginate with cursor.
+  fastify.get<{ Querystring: RawEventLogQuery; Reply: NodeEventPage | ErrorResponse }>(
+    "/events",
+    {
+      config: {
+        contract: {
+          summary: "Query the node event log",
+          description: "Lifecycle events detected between gossip refreshes and kept for the event log retention. Pass nextCursor as cursor to fetch the next page.",
+          tags: ["Events"],
+          querystring: EventLogQuerySchema,
+          responses: {
+            200: { description: "Page of events", schema: NodeEventPageSchema },
+            400: errorResponse("Invalid filter, time range or cursor"),
+            500: errorResponse("Failed to query events"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const parsed = parseEventLogQuery(request.query);
+        if ("error" in parsed) {
+          return reply.code(400).send({ error: "Bad request", message: parsed.error });
+        }
+
+        const page = await queryEvents(parsed.query);
+        return reply.code(200).send(page);
+      } catch (error) {
+        console.error("Error querying events:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to query events",
+        });
+      }
+    }
+  );
+
+  // GET /events/stream - Server-Sent Events stream of node lifecycle events
+  // Supports Last-Event-ID (header or lastEventId query) for replay, and
+  // optional comma-separated `types` and `pubkey` filters.
+  fastify.get<{ Querystring: { types?: string; pubkey?: string; lastEventId?: string } }>(
+    "/events/stream",
+    {
+      config: {
+        contract: {
+          summary: "Stream node lifecycle events",
+          description: "Server-Sent Events; each event's data is a NodeEvent. Send Last-Event-ID to replay buffered events.",
+          tags: ["Events"],
+          querystring: EventStreamQuerySchema,
+          responses: {
+            200: { description: "Event stream", textContent: ["text/event-stream"] },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { types, pubkey } = request.query;
+      const typeFilter = types ? new Set(types.split(",").map((t) => t.trim()).filter(Boolean)) : null;
+      const pubkeyFilter = pubkey ? new Set(pubkey.split(",").map((p) => p.trim()).filter(Boolean)) : null;
+      const matches = (event: NodeEvent) =>
+        (!typeFilter || typeFilter.has(event.type)) && (!pubkeyFilter || pubkeyFilter.has(event.pubkey));
+
+      const headerId = request.headers["last-event-id"];
+      const lastEventId = (Array.isArray(headerId) ? headerId[0] : headerId) || request.query.lastEventId;
+
+      // Take over the raw response; keep headers already set by plugins (e.g. CORS)
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      reply.raw.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+      // Only replay buffered events when the client is resuming
+      if (lastEventId) {
+        for (const event of getEventsSince(lastEventId)) {
+          if (matches(event)) {
+            reply.raw.write(formatSseEvent(event));
+          }
+        }
+      }
+
+      const unsubscribe = subscribeToNodeEvents((event) => {
+        if (matches(event)) {
+          reply.raw.write(formatSseEvent(event));
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        reply.raw.write(`: ping\n\n`);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      request.raw.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    }
+  );
+}
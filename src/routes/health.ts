@@ -1,8 +1,22 @@
 import { FastifyInstance } from "fastify";
+import { HealthResponseSchema } from "../types/schemas";
 
 export async function healthRoutes(fastify: FastifyInstance) {
-  fastify.get("/health", async () => {
-    return { status: "ok" };
-  });
+  fastify.get(
+    "/health",
+    {
+      config: {
+        contract: {
+          summary: "Liveness check",
+          tags: ["Monitoring"],
+          responses: {
+            200: { description: "The server is up", schema: HealthResponseSchema },
+          },
+        },
+      },
+    },
+    async () => {
+      return { status: "ok" };
+    }
+  );
 }
-
@@ -0,0 +1,89 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { listIncidents, getIncident } from "../services/incident.service";
+import { errorResponse } from "../utils/openapi";
+import { Incident, IncidentStatus, ErrorResponse } from "../types/pnode";
+import { IncidentSchema, IncidentListQuerySchema, IncidentParamsSchema } from "../types/schemas";
+
+type IncidentListQuery = { status?: string; limit?: string };
+
+function parseIncidentListQuery(raw: IncidentListQuery): { query: { status?: IncidentStatus; limit?: number } } | { error: string } {
+  const query: { status?: IncidentStatus; limit?: number } = {};
+
+  if (raw.status !== undefined && raw.status !== "") {
+    if (raw.status !== "open" && raw.status !== "resolved") {
+      return { error: "status must be open or resolved" };
+    }
+    query.status = raw.status;
+  }
+
+  if (raw.limit !== undefined && raw.limit !== "") {
+    const limit = Number(raw.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: "limit must be a positive integer" };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
+
+export async function incidentRoutes(fastify: FastifyInstance) {
+  // GET /incidents - Detected network incidents, newest first
+  fastify.get<{ Querystring: IncidentListQuery; Reply: Incident[] | ErrorResponse }>(
+    "/incidents",
+    {
+      config: {
+        contract: {
+          summary: "Network incidents",
+          description:
+            "Incidents are opened automatically when the online share drops sharply or many nodes sharing a country, version or seed go down together. Newest first.",
+          tags: ["Incidents"],
+          querystring: IncidentListQuerySchema,
+          responses: {
+            200: { description: "Incidents", schema: z.array(IncidentSchema) },
+            400: errorResponse("Invalid query parameters"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const parsed = parseIncidentListQuery(request.query);
+      if ("error" in parsed) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: parsed.error,
+        });
+      }
+      return reply.code(200).send(listIncidents(parsed.query.status, parsed.query.limit));
+    }
+  );
+
+  // GET /incidents/:id - Single incident
+  fastify.get<{ Params: { id: string }; Reply: Incident | ErrorResponse }>(
+    "/incidents/:id",
+    {
+      config: {
+        contract: {
+          summary: "Get an incident",
+          tags: ["Incidents"],
+          params: IncidentParamsSchema,
+          responses: {
+            200: { description: "The incident", schema: IncidentSchema },
+            404: errorResponse("Unknown incident"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const incident = getIncident(request.params.id);
+      if (!incident) {
+        return reply.code(404).send({
+          error: "Not found",
+          message: `Incident ${request.params.id} not found`,
+        });
+      }
+      return reply.code(200).send(incident);
+    }
+  );
+}
@@ -0,0 +1,36 @@
+import { FastifyInstance } from "fastify";
+import { renderPrometheusMetrics } from "../services/prometheus.service";
+import { PROMETHEUS_CONTENT_TYPE } from "../utils/prometheus";
+import { errorResponse } from "../utils/openapi";
+import { ErrorResponse } from "../types/pnode";
+
+export async function metricsRoutes(fastify: FastifyInstance) {
+  // GET /metrics - Prometheus text exposition format
+  fastify.get<{ Reply: string | ErrorResponse }>(
+    "/metrics",
+    {
+      config: {
+        contract: {
+          summary: "Prometheus metrics",
+          tags: ["Monitoring"],
+          responses: {
+            200: { description: "Text exposition format", textContent: ["text/plain"] },
+            500: errorResponse("Failed to render metrics"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const body = await renderPrometheusMetrics();
+        return reply.code(200).type(PROMETHEUS_CONTENT_TYPE).send(body);
+      } catch (error) {
+        console.error("Error rendering Prometheus metrics:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to render metrics",
+        });
+      }
+    }
+  );
+}
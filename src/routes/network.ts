@@ -0,0 +1,71 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getSeedCoverageReport } from "../services/pnode.service";
+import { getSeedHealth } from "../services/seed-health.service";
+import { getActiveSeeds, getSeedSource } from "../services/seed-registry.service";
+import { errorResponse } from "../utils/openapi";
+import { SeedCoverageReport, SeedHealth, ErrorResponse } from "../types/pnode";
+import { SeedCoverageReportSchema, SeedHealthSchema } from "../types/schemas";
+
+export async function networkRoutes(fastify: FastifyInstance) {
+  // GET /network/coverage - Which seed saw which pubkeys in the last gossip discovery
+  fastify.get<{ Reply: SeedCoverageReport | ErrorResponse }>(
+    "/network/coverage",
+    {
+      config: {
+        contract: {
+          summary: "Seed coverage of the last discovery",
+          tags: ["Network"],
+          responses: {
+            200: { description: "Pubkeys seen per seed", schema: SeedCoverageReportSchema },
+            500: errorResponse("Failed to fetch seed coverage"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const report = await getSeedCoverageReport();
+        return reply.code(200).send(report);
+      } catch (error) {
+        console.error("Error fetching seed coverage:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch seed coverage",
+        });
+      }
+    }
+  );
+
+  // GET /network/seeds - Health of every gossip seed, best first
+  fastify.get<{ Reply: SeedHealth[] | ErrorResponse }>(
+    "/network/seeds",
+    {
+      config: {
+        contract: {
+          summary: "Gossip seed health",
+          tags: ["Network"],
+          responses: {
+            200: { description: "Seeds, best first", schema: z.array(SeedHealthSchema) },
+            500: errorResponse("Failed to fetch seed health"),
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const seeds = getSeedHealth(getActiveSeeds()).map((health) => ({
+          ...health,
+          source: getSeedSource(health.seed),
+        }));
+        return reply.code(200).send(seeds);
+      } catch (error) {
+        console.error("Error fetching seed health:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch seed health",
+        });
+      }
+    }
+  );
+}
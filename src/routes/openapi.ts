@@ -0,0 +1,24 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getOpenApiDocument } from "../services/api-contract.service";
+
+export async function openApiRoutes(fastify: FastifyInstance) {
+  // GET /openapi.json - OpenAPI 3.1 document generated from the route contracts
+  fastify.get(
+    "/openapi.json",
+    {
+      config: {
+        contract: {
+          summary: "OpenAPI document",
+          tags: ["Meta"],
+          responses: {
+            200: { description: "OpenAPI 3.1 document", schema: z.record(z.unknown()) },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.code(200).send(getOpenApiDocument());
+    }
+  );
+}
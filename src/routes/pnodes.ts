@@ -1,12 +1,109 @@
 import { FastifyInstance } from "fastify";
+import { z } from "zod";
 import { getAllPNodes, getPNodeByPubkey, getNodeStatsByPubkey } from "../services/pnode.service";
-import { getMapNodes } from "../services/map.service";
-import { PNode, NodeStats, MapNode } from "../types/pnode";
+import { getMapNodes, getMapClusters, expandMapCluster, getMapGeoJson } from "../services/map.service";
+import { getNodeHistory, defaultHistoryStep, MAX_HISTORY_BUCKETS } from "../services/history.service";
+import { getNodeSlaReport } from "../services/sla.service";
+import { queryPNodes } from "../services/pnode-query.service";
+import { parseDuration, parseTimestamp } from "../utils/timeseries";
+import { parsePNodeQuery, RawPNodeQuery, PNodeQueryResult } from "../utils/pnode-query";
+import {
+  negotiateExportFormat,
+  negotiateReportFormat,
+  sendExport,
+  varyOnAccept,
+  PNODE_EXPORT_COLUMNS,
+  REPORT_CONTENT_TYPES,
+} from "../utils/export-format";
+import { parseMonth, renderSlaHtml, renderSlaMarkdown } from "../utils/sla-report";
+import { errorResponse } from "../utils/openapi";
+import { MAX_MAP_ZOOM, parseBbox } from "../utils/map-cluster";
+import {
+  PNode,
+  NodeStats,
+  MapNode,
+  NodeHistory,
+  NodeSlaReport,
+  MapClusterResult,
+  MapClusterExpansion,
+  MapFeatureCollection,
+  ErrorResponse,
+} from "../types/pnode";
+import {
+  PNodeSchema,
+  PNodeQueryResultSchema,
+  NodeStatsSchema,
+  NodeHistorySchema,
+  NodeSlaReportSchema,
+  MapNodeSchema,
+  MapClusterResultSchema,
+  MapClusterExpansionSchema,
+  MapFeatureCollectionSchema,
+  PubkeyParamsSchema,
+  MapQuerySchema,
+  MapGeoJsonQuerySchema,
+  ClusterParamsSchema,
+  PNodeListQuerySchema,
+  NodeHistoryQuerySchema,
+  SlaReportQuerySchema,
+} from "../types/schemas";
 
 export async function pnodeRoutes(fastify: FastifyInstance) {
   // GET /pnodes - Get all pNodes
-  fastify.get<{ Reply: PNode[] }>("/pnodes", async (_request, reply) => {
+  // Without query parameters the full array is returned; any filter, sort,
+  // pagination or projection parameter switches to a paged response envelope.
+  // CSV/NDJSON exports (Accept or format=) contain the same rows without the envelope.
+  fastify.get<{ Querystring: RawPNodeQuery; Reply: PNode[] | PNodeQueryResult | ErrorResponse }>("/pnodes", {
+    config: {
+      contract: {
+        summary: "List pNodes",
+        description: "Returns every pNode as an array when called without query parameters; filters, sorting, pagination or projection return a paged envelope.",
+        tags: ["pNodes"],
+        querystring: PNodeListQuerySchema,
+        responses: {
+          200: {
+            description: "pNodes (array, or envelope when queried)",
+            schema: z.union([z.array(PNodeSchema), PNodeQueryResultSchema]),
+            textContent: ["text/csv", "application/x-ndjson"],
+          },
+          400: errorResponse("Invalid query parameter or format"),
+          500: errorResponse("Failed to fetch pNodes"),
+        },
+      },
+    },
+  }, async (request, reply) => {
     try {
+      const { format, ...query } = request.query;
+      const negotiated = negotiateExportFormat(format, request.headers.accept);
+      if ("error" in negotiated) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: negotiated.error,
+        });
+      }
+      varyOnAccept(reply);
+
+      if (Object.keys(query).length > 0) {
+        const parsed = parsePNodeQuery(query);
+        if ("error" in parsed) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: parsed.error,
+          });
+        }
+
+        const result = await queryPNodes(parsed.query);
+        reply.header("X-Total-Count", result.total);
+        reply.header("X-Filtered-Count", result.filtered);
+        if (negotiated.format !== "json") {
+          if (result.nextCursor) {
+            reply.header("X-Next-Cursor", result.nextCursor);
+          }
+          return sendExport(reply, negotiated.format, "pnodes", result.items, parsed.query.fields ?? PNODE_EXPORT_COLUMNS);
+        }
+        return reply.code(200).send(result);
+      }
+
       const nodes = await getAllPNodes();
       
       // Log RAM data statistics
@@ -17,19 +114,37 @@ export async function pnodeRoutes(fastify: FastifyInstance) {
       console.log(`📡 /pnodes API Response: ${nodes.length} total nodes`);
       console.log(`   ✅ ${withRam} nodes have RAM data (${onlineWithRam}/${onlineTotal} online nodes with RAM)`);
       
+      reply.header("X-Total-Count", nodes.length);
+      if (negotiated.format !== "json") {
+        return sendExport(reply, negotiated.format, "pnodes", nodes, PNODE_EXPORT_COLUMNS);
+      }
       return reply.code(200).send(nodes);
     } catch (error) {
       console.error("Error fetching pNodes:", error);
       return reply.code(500).send({
         error: "Internal server error",
         message: "Failed to fetch pNodes",
-      } as any);
+      });
     }
   });
 
   // GET /pnodes/:pubkey - Get single pNode by pubkey
-  fastify.get<{ Params: { pubkey: string }; Reply: PNode }>(
+  fastify.get<{ Params: { pubkey: string }; Reply: PNode | ErrorResponse }>(
     "/pnodes/:pubkey",
+    {
+      config: {
+        contract: {
+          summary: "Get a pNode",
+          tags: ["pNodes"],
+          params: PubkeyParamsSchema,
+          responses: {
+            200: { description: "The pNode", schema: PNodeSchema },
+            404: errorResponse("Unknown pubkey"),
+            500: errorResponse("Failed to fetch pNode"),
+          },
+        },
+      },
+    },
     async (request, reply) => {
       try {
         const { pubkey } = request.params;
@@ -39,7 +154,7 @@ export async function pnodeRoutes(fastify: FastifyInstance) {
           return reply.code(404).send({
             error: "Not found",
             message: `pNode with pubkey ${pubkey} not found`,
-          } as any);
+          });
         }
 
         return reply.code(200).send(node);
@@ -48,14 +163,28 @@ export async function pnodeRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch pNode",
-        } as any);
+        });
       }
     }
   );
 
   // GET /pnodes/:pubkey/stats - Get detailed NodeStats for a specific pNode
-  fastify.get<{ Params: { pubkey: string }; Reply: NodeStats }>(
+  fastify.get<{ Params: { pubkey: string }; Reply: NodeStats | ErrorResponse }>(
     "/pnodes/:pubkey/stats",
+    {
+      config: {
+        contract: {
+          summary: "Get live NodeStats for a pNode",
+          tags: ["pNodes"],
+          params: PubkeyParamsSchema,
+          responses: {
+            200: { description: "NodeStats from the pNode's pRPC endpoint", schema: NodeStatsSchema },
+            404: errorResponse("Unknown pubkey or stats unavailable"),
+            500: errorResponse("Failed to fetch node stats"),
+          },
+        },
+      },
+    },
     async (request, reply) => {
       try {
         const { pubkey } = request.params;
@@ -65,7 +194,7 @@ export async function pnodeRoutes(fastify: FastifyInstance) {
           return reply.code(404).send({
             error: "Not found",
             message: `Stats for pNode with pubkey ${pubkey} not found or unavailable`,
-          } as any);
+          });
         }
 
         return reply.code(200).send(stats);
@@ -74,24 +203,291 @@ export async function pnodeRoutes(fastify: FastifyInstance) {
         return reply.code(500).send({
           error: "Internal server error",
           message: "Failed to fetch node stats",
-        } as any);
+        });
+      }
+    }
+  );
+
+  // GET /pnodes/:pubkey/history - Get downsampled history for a specific pNode
+  fastify.get<{
+    Params: { pubkey: string };
+    Querystring: { from?: string; to?: string; step?: string };
+    Reply: NodeHistory | ErrorResponse;
+  }>(
+    "/pnodes/:pubkey/history",
+    {
+      config: {
+        contract: {
+          summary: "Get downsampled history for a pNode",
+          tags: ["pNodes"],
+          params: PubkeyParamsSchema,
+          querystring: NodeHistoryQuerySchema,
+          responses: {
+            200: { description: "History buckets", schema: NodeHistorySchema },
+            400: errorResponse("Invalid from, to or step"),
+            404: errorResponse("Unknown pubkey"),
+            500: errorResponse("Failed to fetch node history"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { pubkey } = request.params;
+        const { from, to, step } = request.query;
+
+        const toMs = to !== undefined ? parseTimestamp(to) : Date.now();
+        const fromMs = from !== undefined ? parseTimestamp(from) : (toMs ?? Date.now()) - 24 * 60 * 60 * 1000;
+
+        if (toMs === null || fromMs === null || fromMs >= toMs) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: "from/to must be Unix timestamps or ISO dates with from < to",
+          });
+        }
+
+        const stepMs = step !== undefined ? parseDuration(step) : defaultHistoryStep(fromMs, toMs);
+        if (stepMs === null) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: "step must be a duration such as 300, 5m, 1h or 1d",
+          });
+        }
+
+        if ((toMs - fromMs) / stepMs > MAX_HISTORY_BUCKETS) {
+          return reply.code(400).send({
+            error: "Bad request",
+            message: `step is too small for the requested range (max ${MAX_HISTORY_BUCKETS} buckets)`,
+          });
+        }
+
+        const history = await getNodeHistory(pubkey, fromMs, toMs, stepMs);
+
+        if (history.samples.length === 0 && !(await getPNodeByPubkey(pubkey))) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `pNode with pubkey ${pubkey} not found`,
+          });
+        }
+
+        return reply.code(200).send(history);
+      } catch (error) {
+        console.error(`Error fetching history for pNode ${request.params.pubkey}:`, error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to fetch node history",
+        });
+      }
+    }
+  );
+
+  // GET /pnodes/:pubkey/sla - Monthly availability report as JSON, Markdown or HTML
+  fastify.get<{
+    Params: { pubkey: string };
+    Querystring: { month?: string; format?: string };
+    Reply: NodeSlaReport | string | ErrorResponse;
+  }>(
+    "/pnodes/:pubkey/sla",
+    {
+      config: {
+        contract: {
+          summary: "Monthly availability report for a pNode",
+          description: "Percentage online (fresh last_seen_timestamp), outages, restarts and version changes for one UTC month, replayed from the node event log. Markdown or HTML via format= or the Accept header.",
+          tags: ["pNodes"],
+          params: PubkeyParamsSchema,
+          querystring: SlaReportQuerySchema,
+          responses: {
+            200: {
+              description: "Availability report",
+              schema: NodeSlaReportSchema,
+              textContent: ["text/markdown", "text/html"],
+            },
+            400: errorResponse("Invalid month or format"),
+            404: errorResponse("Unknown pubkey"),
+            500: errorResponse("Failed to build availability report"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { pubkey } = request.params;
+        const negotiated = negotiateReportFormat(request.query.format, request.headers.accept);
+        if ("error" in negotiated) {
+          return reply.code(400).send({ error: "Bad request", message: negotiated.error });
+        }
+        varyOnAccept(reply);
+
+        const month = parseMonth(request.query.month);
+        if ("error" in month) {
+          return reply.code(400).send({ error: "Bad request", message: month.error });
+        }
+
+        const report = await getNodeSlaReport(pubkey, month.month);
+        if (!report) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `pNode with pubkey ${pubkey} not found`,
+          });
+        }
+
+        if (negotiated.format === "json") {
+          return reply.code(200).send(report);
+        }
+        const document = negotiated.format === "markdown" ? renderSlaMarkdown(report) : renderSlaHtml(report);
+        return reply.code(200).type(REPORT_CONTENT_TYPES[negotiated.format]).send(document);
+      } catch (error) {
+        console.error(`Error building availability report for pNode ${request.params.pubkey}:`, error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to build availability report",
+        });
       }
     }
   );
 
   // GET /pnodes/map - Get all pNodes with geographic and health data for map
-  fastify.get<{ Reply: MapNode[] }>(
+  // With zoom (and optionally bbox) returns server-side clusters instead of every node.
+  fastify.get<{ Querystring: { zoom?: string; bbox?: string }; Reply: MapNode[] | MapClusterResult | ErrorResponse }>(
     "/pnodes/map",
-    async (_request, reply) => {
+    {
+      config: {
+        contract: {
+          summary: "Get pNodes with geolocation for the map",
+          description: "Without zoom, returns every map node (an empty array if geolocation fails). With zoom, returns clusters of nearby nodes for that zoom level, limited to bbox when given.",
+          tags: ["pNodes"],
+          querystring: MapQuerySchema,
+          responses: {
+            200: {
+              description: "Map nodes, or clusters when zoom is given",
+              schema: z.union([z.array(MapNodeSchema), MapClusterResultSchema]),
+            },
+            400: errorResponse("Invalid zoom or bbox"),
+            500: errorResponse("Failed to cluster map nodes"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { zoom, bbox } = request.query;
+
+      if (zoom === undefined && bbox === undefined) {
+        try {
+          const mapNodes = await getMapNodes();
+          return reply.code(200).send(mapNodes);
+        } catch (error) {
+          // Return empty array instead of error to prevent frontend breakage
+          // The frontend can handle empty arrays gracefully
+          return reply.code(200).send([]);
+        }
+      }
+
+      const zoomLevel = Number(zoom);
+      if (zoom === undefined || !Number.isInteger(zoomLevel) || zoomLevel < 0 || zoomLevel > MAX_MAP_ZOOM) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: `zoom must be an integer between 0 and ${MAX_MAP_ZOOM}`,
+        });
+      }
+
+      const box = bbox !== undefined ? parseBbox(bbox) : null;
+      if (bbox !== undefined && !box) {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: "bbox must be minLng,minLat,maxLng,maxLat in degrees",
+        });
+      }
+
       try {
-        const mapNodes = await getMapNodes();
-        return reply.code(200).send(mapNodes);
+        const result = await getMapClusters(zoomLevel, box);
+        return reply.code(200).send(result);
       } catch (error) {
-        // Return empty array instead of error to prevent frontend breakage
-        // The frontend can handle empty arrays gracefully
-        return reply.code(200).send([]);
+        console.error("Error clustering map nodes:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to cluster map nodes",
+        });
       }
     }
   );
-}
 
+  // GET /pnodes/map.geojson - Map nodes as a GeoJSON FeatureCollection for GIS tools
+  fastify.get<{ Querystring: { countries?: string }; Reply: MapFeatureCollection | ErrorResponse }>(
+    "/pnodes/map.geojson",
+    {
+      config: {
+        contract: {
+          summary: "Get map nodes as GeoJSON",
+          description: "Point features carry every MapNode field as properties. With countries=true, one polygon per country (the padded extent of its nodes) is appended with aggregate counts.",
+          tags: ["pNodes"],
+          querystring: MapGeoJsonQuerySchema,
+          responses: {
+            200: { description: "GeoJSON FeatureCollection", schema: MapFeatureCollectionSchema, mediaType: "application/geo+json" },
+            400: errorResponse("Invalid countries parameter"),
+            500: errorResponse("Failed to build GeoJSON"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { countries } = request.query;
+      if (countries !== undefined && countries !== "true" && countries !== "false") {
+        return reply.code(400).send({
+          error: "Bad request",
+          message: "countries must be true or false",
+        });
+      }
+
+      try {
+        const collection = await getMapGeoJson(countries === "true");
+        return reply.code(200).type("application/geo+json").send(collection);
+      } catch (error) {
+        console.error("Error building map GeoJSON:", error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to build GeoJSON",
+        });
+      }
+    }
+  );
+
+  // GET /pnodes/map/clusters/:id - Expand one cluster into its nodes
+  fastify.get<{ Params: { id: string }; Reply: MapClusterExpansion | ErrorResponse }>(
+    "/pnodes/map/clusters/:id",
+    {
+      config: {
+        contract: {
+          summary: "Expand a map cluster",
+          tags: ["pNodes"],
+          params: ClusterParamsSchema,
+          responses: {
+            200: { description: "The cluster and its nodes", schema: MapClusterExpansionSchema },
+            404: errorResponse("Unknown cluster (ids change when nodes move between cells)"),
+            500: errorResponse("Failed to expand cluster"),
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params;
+        const expansion = await expandMapCluster(id);
+
+        if (!expansion) {
+          return reply.code(404).send({
+            error: "Not found",
+            message: `Cluster ${id} not found`,
+          });
+        }
+
+        return reply.code(200).send(expansion);
+      } catch (error) {
+        console.error(`Error expanding cluster ${request.params.id}:`, error);
+        return reply.code(500).send({
+          error: "Internal server error",
+          message: "Failed to expand cluster",
+        });
+      }
+    }
+  );
+}
@@ -3,8 +3,24 @@ import cors from "@fastify/cors";
 import { healthRoutes } from "./routes/health";
 import { pnodeRoutes } from "./routes/pnodes";
 import { analyticsRoutes } from "./routes/analytics";
+import { networkRoutes } from "./routes/network";
+import { eventRoutes } from "./routes/events";
+import { alertRoutes } from "./routes/alerts";
+import { incidentRoutes } from "./routes/incidents";
+import { metricsRoutes } from "./routes/metrics";
+import { openApiRoutes } from "./routes/openapi";
+import { registerApiContracts } from "./services/api-contract.service";
+import { getGeoProviders } from "./services/geo-provider.service";
 import { initRedis, closeRedis } from "./services/redis.service";
 import { startStatsEnrichmentJob, stopStatsEnrichmentJob } from "./services/stats-enrichment.service";
+import { startSnapshotJob, stopSnapshotJob } from "./services/snapshot.service";
+import { startStorageHistoryJob, stopStorageHistoryJob } from "./services/storage-forecast.service";
+import { startAvailabilityTracking } from "./services/availability.service";
+import { startChurnTracking } from "./services/churn.service";
+import { loadPromotedSeeds } from "./services/seed-registry.service";
+import { startNodeEventTracking } from "./services/node-events.service";
+import { loadAlertRules, startAlerting } from "./services/alert.service";
+import { loadIncidents, startIncidentDetection } from "./services/incident.service";
 
 const PORT = Number(process.env.PORT) || 3000;
 const HOST = process.env.HOST || "0.0.0.0";
@@ -21,10 +37,19 @@ async function buildServer() {
     origin: true, // Allow all origins in development
   });
 
+  // Collect route contracts and validate responses (must precede the routes)
+  registerApiContracts(fastify);
+
   // Register routes
   await fastify.register(healthRoutes);
   await fastify.register(pnodeRoutes);
   await fastify.register(analyticsRoutes);
+  await fastify.register(networkRoutes);
+  await fastify.register(eventRoutes);
+  await fastify.register(alertRoutes);
+  await fastify.register(incidentRoutes);
+  await fastify.register(metricsRoutes);
+  await fastify.register(openApiRoutes);
 
   // Global error handler
   fastify.setErrorHandler((error, _request, reply) => {
@@ -43,14 +68,35 @@ async function start() {
     // Initialize Redis (will fallback to in-memory if unavailable)
     // Don't block server startup if Redis fails
     initRedis()
-      .then(() => {
+      .then(async () => {
+        // Restore gossip seeds promoted in previous runs
+        await loadPromotedSeeds();
+        // Track observed online/offline state for uptime24h (warms from stored snapshots)
+        startAvailabilityTracking();
+        // Track pubkeys per refresh for /analytics/churn (warms from stored snapshots)
+        startChurnTracking();
+        // Diff gossip refreshes into node events for the SSE stream
+        startNodeEventTracking();
+        // Restore alert rules, then evaluate them after every refresh
+        await loadAlertRules();
+        startAlerting();
+        // Restore incident records, then watch refreshes for mass outages
+        await loadIncidents();
+        startIncidentDetection();
         // Start background job to pre-fetch and cache stats in Redis
         startStatsEnrichmentJob();
+        // Start background job to record gossip snapshots for historical analytics
+        startSnapshotJob();
+        // Record storage totals with long retention for capacity forecasts
+        startStorageHistoryJob();
       })
       .catch((error) => {
         console.warn('⚠️ Redis initialization failed, continuing with in-memory cache:', error instanceof Error ? error.message : error);
       });
     
+    // Load local geo databases before the first map request needs them
+    await getGeoProviders();
+
     const server = await buildServer();
     
     await server.listen({ port: PORT, host: HOST });
@@ -69,6 +115,8 @@ async function start() {
 process.on("SIGTERM", async () => {
   console.log("SIGTERM received, shutting down gracefully");
   stopStatsEnrichmentJob();
+  stopSnapshotJob();
+  stopStorageHistoryJob();
   await closeRedis();
   process.exit(0);
 });
@@ -76,6 +124,8 @@ process.on("SIGTERM", async () => {
 process.on("SIGINT", async () => {
   console.log("SIGINT received, shutting down gracefully");
   stopStatsEnrichmentJob();
+  stopSnapshotJob();
+  stopStorageHistoryJob();
   await closeRedis();
   process.exit(0);
 });
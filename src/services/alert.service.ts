@@ -0,0 +1,302 @@
+/**
+ * Alert Service
+ *
+ * Stores alert rules (persisted in Redis), evaluates them after every pNode and
+ * node metrics refresh, and delivers firing/resolved notifications to webhooks.
+ * Deliveries are signed with HMAC-SHA256 when the rule has a secret and are
+ * retried with exponential backoff on network errors, 429 and 5xx responses.
+ */
+
+import { createHmac, randomUUID } from "crypto";
+import { getAllPNodes, onPNodesRefreshed } from "./pnode.service";
+import { getCachedNodeMetrics, onNodeMetricsRefreshed, findConsensusVersion } from "./analytics.service";
+import { getRedisClient } from "./redis.service";
+import {
+  AlertRule,
+  AlertRuleInput,
+  advanceAlert,
+  evaluateRule,
+} from "../utils/alert-rules";
+import { Alert, NodeMetrics, PNode } from "../types/pnode";
+
+const REDIS_RULES_KEY = "xandeum:alerts:rules";
+const REDIS_ACTIVE_ALERTS_KEY = "xandeum:alerts:active";
+const WEBHOOK_TIMEOUT_MS = Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS) || 5000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.ALERT_WEBHOOK_MAX_ATTEMPTS) || 4;
+const WEBHOOK_RETRY_BASE_MS = 1000;
+
+// Metrics that require computed node metrics (health score etc.)
+const METRICS_NEEDING_NODE_METRICS = ["storageUtilization", "healthScore", "uptime24h", "averageHealthScore"];
+
+const rules = new Map<string, AlertRule>();
+const activeAlerts = new Map<string, Alert>(); // Pending and firing alerts by alert id
+let evaluationQueue: Promise<void> = Promise.resolve();
+
+async function persistRule(rule: AlertRule): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    await client.hset(REDIS_RULES_KEY, rule.id, JSON.stringify(rule));
+  } catch (error) {
+    console.warn('⚠️ Failed to persist alert rule:', error instanceof Error ? error.message : error);
+  }
+}
+
+async function removePersistedRule(id: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    await client.hdel(REDIS_RULES_KEY, id);
+  } catch (error) {
+    console.warn('⚠️ Failed to delete alert rule from Redis:', error instanceof Error ? error.message : error);
+  }
+}
+
+async function persistActiveAlerts(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    await client.set(REDIS_ACTIVE_ALERTS_KEY, JSON.stringify(Array.from(activeAlerts.values())));
+  } catch (error) {
+    console.warn('⚠️ Failed to persist active alerts:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Restore alert rules and active alerts from Redis (call after Redis is initialized)
+ * Restoring active alerts keeps firing alerts from being re-sent after a restart.
+ */
+export async function loadAlertRules(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    const [storedRules, storedAlerts] = await Promise.all([
+      client.hgetall(REDIS_RULES_KEY),
+      client.get(REDIS_ACTIVE_ALERTS_KEY),
+    ]);
+
+    for (const value of Object.values(storedRules)) {
+      const rule = JSON.parse(value) as AlertRule;
+      rules.set(rule.id, rule);
+    }
+    if (storedAlerts) {
+      for (const alert of JSON.parse(storedAlerts) as Alert[]) {
+        if (rules.has(alert.ruleId)) {
+          activeAlerts.set(alert.id, alert);
+        }
+      }
+    }
+
+    if (rules.size > 0) {
+      console.log(`🔔 Restored ${rules.size} alert rules (${activeAlerts.size} active alerts)`);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to load alert rules:', error instanceof Error ? error.message : error);
+  }
+}
+
+export function listAlertRules(): AlertRule[] {
+  return Array.from(rules.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getAlertRule(id: string): AlertRule | null {
+  return rules.get(id) ?? null;
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const now = new Date().toISOString();
+  const rule: AlertRule = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+  rules.set(rule.id, rule);
+  await persistRule(rule);
+  return rule;
+}
+
+/**
+ * Drop a rule's alerts, resolving firing ones so receivers don't keep stale incidents open
+ */
+function clearAlertsForRule(rule: AlertRule): void {
+  const timestamp = new Date().toISOString();
+  for (const [id, alert] of activeAlerts) {
+    if (alert.ruleId !== rule.id) continue;
+    activeAlerts.delete(id);
+    if (alert.status === "firing") {
+      const resolved: Alert = { ...alert, status: "resolved", resolvedAt: timestamp };
+      deliverWebhook(rule, resolved, "resolved").catch((error) => {
+        console.error('❌ Error delivering alert webhook:', error);
+      });
+    }
+  }
+}
+
+/**
+ * Replace a rule; its alert state starts over since the condition may have changed
+ * The existing webhook secret is kept when the update omits it.
+ */
+export async function updateAlertRule(id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+  const existing = rules.get(id);
+  if (!existing) return null;
+
+  const rule: AlertRule = {
+    ...input,
+    webhook: { ...input.webhook, secret: input.webhook.secret ?? existing.webhook.secret },
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+  rules.set(id, rule);
+  clearAlertsForRule(existing);
+  await Promise.all([persistRule(rule), persistActiveAlerts()]);
+  return rule;
+}
+
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  const existing = rules.get(id);
+  if (!existing) return false;
+  rules.delete(id);
+  clearAlertsForRule(existing);
+  await Promise.all([removePersistedRule(id), persistActiveAlerts()]);
+  return true;
+}
+
+export function getActiveAlerts(): Alert[] {
+  return Array.from(activeAlerts.values());
+}
+
+function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * POST an alert notification to the rule's webhook, retrying transient failures
+ */
+async function deliverWebhook(rule: AlertRule, alert: Alert, status: "firing" | "resolved"): Promise<void> {
+  const body = JSON.stringify({
+    status,
+    alert,
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      scope: rule.scope,
+      metric: rule.metric,
+      operator: rule.operator,
+      value: rule.value,
+      forSeconds: rule.forSeconds,
+    },
+  });
+  // Stable across retries so receivers can deduplicate
+  const deliveryId = `${alert.id}:${status}:${status === "firing" ? alert.firedAt : alert.resolvedAt}`;
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Xandeum-Event": `alert.${status}`,
+      "X-Xandeum-Delivery": deliveryId,
+      "X-Xandeum-Timestamp": timestamp,
+    };
+    if (rule.webhook.secret) {
+      headers["X-Xandeum-Signature"] = `sha256=${signPayload(rule.webhook.secret, timestamp, body)}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    let retryable = true;
+
+    try {
+      const response = await fetch(rule.webhook.url, { method: "POST", headers, body, signal: controller.signal });
+      if (response.ok) {
+        console.log(`🔔 Delivered ${status} alert "${rule.name}" for ${alert.subject}`);
+        return;
+      }
+      retryable = response.status === 429 || response.status >= 500;
+      console.warn(`⚠️ Alert webhook for "${rule.name}" returned HTTP ${response.status} (attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS})`);
+    } catch (error) {
+      console.warn(`⚠️ Alert webhook for "${rule.name}" failed (attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS}):`, error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!retryable) break;
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      await sleep(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  console.error(`❌ Giving up on ${status} alert "${rule.name}" for ${alert.subject}`);
+}
+
+/**
+ * Evaluate every enabled rule and notify on firing/resolved transitions
+ */
+async function evaluateAlertRules(nodes?: PNode[], metrics?: NodeMetrics[]): Promise<void> {
+  const enabledRules = listAlertRules().filter((rule) => rule.enabled);
+  if (enabledRules.length === 0) return;
+
+  const needsMetrics = enabledRules.some((rule) => METRICS_NEEDING_NODE_METRICS.includes(rule.metric));
+  const [currentNodes, currentMetrics] = await Promise.all([
+    nodes ?? getAllPNodes(),
+    metrics ?? (needsMetrics ? getCachedNodeMetrics() : Promise.resolve([])),
+  ]);
+
+  const context = {
+    nodes: currentNodes,
+    metricsByPubkey: new Map(currentMetrics.map((m) => [m.pubkey, m])),
+    consensusVersion: findConsensusVersion(currentNodes),
+  };
+  const now = Date.now();
+  let changed = false;
+
+  for (const rule of enabledRules) {
+    // Skip rules updated or deleted while data was being fetched
+    if (rules.get(rule.id) !== rule) continue;
+
+    for (const observation of evaluateRule(rule, context)) {
+      const alertId = `${rule.id}:${observation.subject}`;
+      const previous = activeAlerts.get(alertId);
+      const { alert, notify } = advanceAlert(previous, observation, rule, now);
+
+      if (alert && alert.status !== "resolved") {
+        activeAlerts.set(alertId, alert);
+      } else {
+        activeAlerts.delete(alertId);
+      }
+      changed = changed || previous?.status !== alert?.status;
+
+      if (alert && notify) {
+        // Deliver in the background so slow webhooks don't delay evaluation
+        deliverWebhook(rule, alert, notify).catch((error) => {
+          console.error('❌ Error delivering alert webhook:', error);
+        });
+      }
+    }
+  }
+
+  if (changed) {
+    await persistActiveAlerts();
+  }
+}
+
+function scheduleEvaluation(nodes?: PNode[], metrics?: NodeMetrics[]): void {
+  // Serialize evaluations so alert state transitions never interleave
+  evaluationQueue = evaluationQueue
+    .then(() => evaluateAlertRules(nodes, metrics))
+    .catch((error) => {
+      console.error('❌ Error evaluating alert rules:', error);
+    });
+}
+
+/**
+ * Evaluate alert rules after every pNode and node metrics refresh
+ */
+export function startAlerting(): void {
+  onPNodesRefreshed((nodes) => scheduleEvaluation(nodes));
+  onNodeMetricsRefreshed((metrics) => scheduleEvaluation(undefined, metrics));
+}
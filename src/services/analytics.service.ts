@@ -1,11 +1,17 @@
 
 import { getAllPNodes, getRawPodsForAnalytics } from "./pnode.service";
 import { analyticsCacheService } from "./redis.service";
+import { getObservedUptime24h } from "./availability.service";
+import { getCachedNodeStats } from "./stats-enrichment.service";
+import { scoringConfig } from "../config/scoring";
+import { versionPolicyConfig } from "../config/versions";
+import { compareVersions } from "../utils/semver";
+import { buildVersionCompliance } from "../utils/version-compliance";
 import { 
   calculateUtilization, 
   calculateUptime24h, 
-  calculateHealthScore, 
-  getNodeTier 
+  explainHealthScore,
+  HealthScoreExtras,
 } from "../utils/format";
 import {
   AnalyticsSummary,
@@ -17,6 +23,9 @@ import {
   TopNode,
   StoragePressure,
   PNode,
+  NodeStats,
+  NodeScoreExplanation,
+  VersionCompliance,
 } from "../types/pnode";
 import { Pod } from "xandeum-prpc";
 
@@ -33,7 +42,91 @@ function calculateNetworkHealth(onlinePercentage: number): NetworkHealth {
 const NODE_METRICS_CACHE_KEY = "computed_node_metrics";
 const NODE_METRICS_CACHE_TTL_MS = 60 * 1000;
 
-function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[] {
+type NodeMetricsRefreshListener = (metrics: NodeMetrics[]) => void;
+
+const metricsRefreshListeners: NodeMetricsRefreshListener[] = [];
+
+/**
+ * Register a listener called after node metrics are recomputed (cache hits do not trigger listeners)
+ */
+export function onNodeMetricsRefreshed(listener: NodeMetricsRefreshListener): void {
+  metricsRefreshListeners.push(listener);
+}
+
+function notifyNodeMetricsRefreshed(metrics: NodeMetrics[]): void {
+  for (const listener of metricsRefreshListeners) {
+    try {
+      listener(metrics);
+    } catch (error) {
+      console.error('❌ Error in node metrics refresh listener:', error);
+    }
+  }
+}
+
+/**
+ * Most common version across nodes; ties go to the higher semver
+ */
+export function findConsensusVersion(nodes: PNode[]): string {
+  const versionMap = new Map<string, number>();
+  for (const node of nodes) {
+    const version = node.version || "unknown";
+    versionMap.set(version, (versionMap.get(version) || 0) + 1);
+  }
+
+  let consensusVersion = "unknown";
+  let maxCount = 0;
+  for (const [version, count] of versionMap.entries()) {
+    if (count > maxCount || (count === maxCount && compareVersions(version, consensusVersion) > 0)) {
+      maxCount = count;
+      consensusVersion = version;
+    }
+  }
+  return consensusVersion;
+}
+
+/**
+ * Raw inputs for a node's health score
+ */
+function buildScoreInputs(pod: Pod, node: PNode, consensusVersion: string, stats?: NodeStats) {
+  const uptimeSeconds = pod.uptime || 0;
+  // Prefer observed availability; fall back to the uptime counter while history is warming up
+  const observedUptime24h = pod.pubkey ? getObservedUptime24h(pod.pubkey) : null;
+  const uptime24h = observedUptime24h ?? calculateUptime24h(uptimeSeconds);
+
+  const storageCommitted = pod.storage_committed || 0;
+  const storageUsed = pod.storage_used || 0;
+  const storageUtilization = storageCommitted > 0
+    ? Math.round((storageUsed / storageCommitted) * 100 * 100) / 100
+    : 0;
+
+  const extras: HealthScoreExtras = {};
+  if (consensusVersion !== "unknown") {
+    extras.versionCurrent = node.version === consensusVersion;
+  }
+  if (stats && stats.ram_total > 0) {
+    extras.ramPercent = Math.round((stats.ram_used / stats.ram_total) * 100 * 100) / 100;
+  }
+  if (stats && typeof stats.cpu_percent === "number") {
+    extras.cpuPercent = stats.cpu_percent;
+  }
+
+  return {
+    uptimeSeconds,
+    uptime24h,
+    uptime24hSource: (observedUptime24h !== null ? "observed" : "heuristic") as "observed" | "heuristic",
+    storageUsed,
+    storageCommitted,
+    storageUtilization,
+    isOnline: node.status === "online",
+    extras,
+  };
+}
+
+function computeNodeMetricsFromData(
+  pods: Pod[],
+  nodes: PNode[],
+  statsByPubkey: Record<string, NodeStats> = {}
+): NodeMetrics[] {
   const metrics: NodeMetrics[] = [];
   
   // Debug mode: Enable via environment variable DEBUG_CALCULATIONS=true
@@ -48,6 +141,7 @@ function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[]
     };
     derived: {
       uptime24h: number;
+      uptime24hSource: "observed" | "heuristic";
       storageUtilization: number;
       healthScore: number;
       tier: string;
@@ -59,31 +153,36 @@ function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[]
     };
   }> = [];
 
+  const consensusVersion = findConsensusVersion(nodes);
+
   for (const pod of pods) {
     const node = nodes.find((n) => n.pubkey === pod.pubkey);
     if (!node || !pod.pubkey) continue;
 
-    const uptimeSeconds = pod.uptime || 0;
-    const uptime24h = calculateUptime24h(uptimeSeconds);
-
-    const storageCommitted = pod.storage_committed || 0;
-    const storageUsed = pod.storage_used || 0;
-    const storageUtilization = storageCommitted > 0
-      ? Math.round((storageUsed / storageCommitted) * 100 * 100) / 100
-      : 0;
-
-    const healthScore = calculateHealthScore(
+    const {
+      uptimeSeconds,
       uptime24h,
+      uptime24hSource,
+      storageUsed,
+      storageCommitted,
       storageUtilization,
-      node.status === "online"
-    );
+      isOnline,
+      extras,
+    } = buildScoreInputs(pod, node, consensusVersion, statsByPubkey[pod.pubkey]);
+
+    const explanation = explainHealthScore(uptime24h, storageUtilization, isOnline, extras);
+    const healthScore = explanation.score;
     
     if (DEBUG_MODE && debugLogs.length < 3) {
-      const uptime24hCalc = `min((${uptimeSeconds} / 86400) * 100, 100) = ${uptime24h.toFixed(2)}%`;
+      const uptime24hCalc = uptime24hSource === "observed"
+        ? `observed online time / observed time (24h window) = ${uptime24h.toFixed(2)}%`
+        : `min((${uptimeSeconds} / 86400) * 100, 100) = ${uptime24h.toFixed(2)}%`;
       const storageUtilCalc = storageCommitted > 0
         ? `(${storageUsed} / ${storageCommitted}) * 100 = ${storageUtilization.toFixed(2)}%`
         : 'N/A (no storage_committed)';
-      const healthScoreCalc = `(${uptime24h.toFixed(2)} * 0.5) + (${(100 - storageUtilization).toFixed(2)} * 0.3) + (${node.status === "online" ? 100 : 0} * 0.2) = ${healthScore.toFixed(2)}`;
+      const healthScoreCalc = explanation.components
+        .map((c) => `(${c.value.toFixed(2)} * ${c.weight}) [${c.factor}]`)
+        .join(' + ') + ` = ${healthScore.toFixed(2)}`;
       
       debugLogs.push({
         pubkey: pod.pubkey.substring(0, 16) + '...',
@@ -91,13 +190,14 @@ function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[]
           uptimeSeconds,
           storageUsed,
           storageCommitted,
-          isOnline: node.status === "online",
+          isOnline,
         },
         derived: {
           uptime24h,
+          uptime24hSource,
           storageUtilization,
           healthScore,
-          tier: getNodeTier(healthScore),
+          tier: explanation.tier,
         },
         calculations: {
           uptime24hFormula: uptime24hCalc,
@@ -107,7 +207,7 @@ function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[]
       });
     }
 
-    const tier = getNodeTier(healthScore);
+    const tier = explanation.tier;
 
     metrics.push({
       pubkey: pod.pubkey,
@@ -130,7 +230,7 @@ function computeNodeMetricsFromData(pods: Pod[], nodes: PNode[]): NodeMetrics[]
       console.log(`      storageCommitted: ${log.raw.storageCommitted} bytes (${(log.raw.storageCommitted / (1024 ** 3)).toFixed(2)} GB)`);
       console.log(`      isOnline: ${log.raw.isOnline}`);
       console.log('   DERIVED VALUES (computed by backend):');
-      console.log(`      uptime24h: ${log.derived.uptime24h.toFixed(2)}%`);
+      console.log(`      uptime24h: ${log.derived.uptime24h.toFixed(2)}% (${log.derived.uptime24hSource})`);
       console.log(`      storageUtilization: ${log.derived.storageUtilization.toFixed(2)}%`);
       console.log(`      healthScore: ${log.derived.healthScore.toFixed(2)}`);
       console.log(`      tier: ${log.derived.tier}`);
@@ -156,12 +256,55 @@ export async function getCachedNodeMetrics(): Promise<NodeMetrics[]> {
     getAllPNodes(),
   ]);
 
-  const metrics = computeNodeMetricsFromData(pods, nodes);
+  // NodeStats only matter when the RAM/CPU factors are enabled
+  const { weights } = scoringConfig;
+  const statsByPubkey = weights.ram > 0 || weights.cpu > 0
+    ? await getCachedNodeStats(nodes)
+    : {};
+
+  const metrics = computeNodeMetricsFromData(pods, nodes, statsByPubkey);
   await analyticsCacheService.set(NODE_METRICS_CACHE_KEY, metrics, NODE_METRICS_CACHE_TTL_MS);
+  notifyNodeMetricsRefreshed(metrics);
 
   return metrics;
 }
 
+/**
+ * Explain how a node's health score is composed
+ */
+export async function explainNodeScore(pubkey: string): Promise<NodeScoreExplanation | null> {
+  const [pods, nodes] = await Promise.all([
+    getRawPodsForAnalytics(),
+    getAllPNodes(),
+  ]);
+
+  const pod = pods.find((p) => p.pubkey === pubkey);
+  const node = nodes.find((n) => n.pubkey === pubkey);
+  if (!pod || !node) {
+    return null;
+  }
+
+  const consensusVersion = findConsensusVersion(nodes);
+  const stats = (await getCachedNodeStats([node]))[pubkey];
+  const inputs = buildScoreInputs(pod, node, consensusVersion, stats);
+  const explanation = explainHealthScore(inputs.uptime24h, inputs.storageUtilization, inputs.isOnline, inputs.extras);
+
+  return {
+    pubkey,
+    ...explanation,
+    inputs: {
+      uptime24h: inputs.uptime24h,
+      uptime24hSource: inputs.uptime24hSource,
+      storageUtilization: inputs.storageUtilization,
+      isOnline: inputs.isOnline,
+      version: node.version,
+      consensusVersion,
+      ramPercent: inputs.extras.ramPercent,
+      cpuPercent: inputs.extras.cpuPercent,
+    },
+  };
+}
+
 export async function getAnalyticsSummary(): Promise<AnalyticsSummary> {
   const nodes = await getAllPNodes();
   
@@ -209,21 +352,7 @@ export async function getAnalyticsSummary(): Promise<AnalyticsSummary> {
   const totalStorageUsedTB = totalStorageUsed / (1024 ** 4);
   const totalStorageCapacityTB = totalStorageCapacity / (1024 ** 4);
 
-  const versionMap = new Map<string, number>();
-  for (const node of nodes) {
-    const version = node.version || "unknown";
-    versionMap.set(version, (versionMap.get(version) || 0) + 1);
-  }
-  
-  // Find the version with the highest count
-  let consensusVersion = "unknown";
-  let maxCount = 0;
-  for (const [version, count] of versionMap.entries()) {
-    if (count > maxCount) {
-      maxCount = count;
-      consensusVersion = version;
-    }
-  }
+  const consensusVersion = findConsensusVersion(nodes);
 
   const networkHealth = calculateNetworkHealth(onlinePercentage);
 
@@ -265,7 +394,15 @@ export async function getVersionDistribution(): Promise<VersionDistribution[]> {
 
   return Array.from(versionMap.entries())
     .map(([version, count]) => ({ version, count }))
-    .sort((a, b) => b.count - a.count);
+    .sort((a, b) => b.count - a.count || compareVersions(b.version, a.version));
+}
+
+/**
+ * Nodes behind the latest release or below the minimum supported one (VERSION_LATEST / VERSION_MIN_SUPPORTED)
+ */
+export async function getVersionCompliance(): Promise<VersionCompliance> {
+  const nodes = await getAllPNodes();
+  return buildVersionCompliance(nodes, versionPolicyConfig);
 }
 
 export async function getExtendedSummary(): Promise<ExtendedSummary> {
@@ -0,0 +1,106 @@
+/**
+ * API Contract Service
+ *
+ * Collects the RouteContract declared in each route's `config`, serves them as
+ * an OpenAPI document and validates JSON responses against their schemas.
+ * Validation mode comes from RESPONSE_VALIDATION (strict | warn | off); it
+ * defaults to strict outside production and off in production.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { FastifyInstance } from "fastify";
+import { ContractedRoute, JsonSchema, buildOpenApiDocument } from "../utils/openapi";
+import { API_COMPONENT_SCHEMAS, ErrorResponseSchema } from "../types/schemas";
+
+type ResponseValidationMode = "strict" | "warn" | "off";
+
+const MAX_REPORTED_ISSUES = 5;
+
+function getResponseValidationMode(): ResponseValidationMode {
+  const mode = process.env.RESPONSE_VALIDATION;
+  if (mode === "strict" || mode === "warn" || mode === "off") {
+    return mode;
+  }
+  return process.env.NODE_ENV === "production" ? "off" : "strict";
+}
+
+function readApiVersion(): string {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(__dirname, "../../package.json"), "utf8"));
+    return packageJson.version || "0.0.0";
+  } catch (error) {
+    return "0.0.0";
+  }
+}
+
+const contractedRoutes: ContractedRoute[] = [];
+let openApiDocument: JsonSchema | null = null;
+
+/**
+ * Collect route contracts and install response validation
+ * Must be called before any route is registered.
+ */
+export function registerApiContracts(fastify: FastifyInstance): void {
+  fastify.addHook("onRoute", (route) => {
+    const contract = route.config?.contract;
+    if (!contract) return;
+
+    // Every JSON route can fail with the global error handler's 500 body
+    if (!contract.responses[500]) {
+      contract.responses[500] = { description: "Internal server error", schema: ErrorResponseSchema };
+    }
+
+    const methods = Array.isArray(route.method) ? route.method : [route.method];
+    for (const method of methods) {
+      // HEAD routes are generated automatically for every GET
+      if (method === "HEAD") continue;
+      contractedRoutes.push({ method, url: route.url, contract });
+    }
+    openApiDocument = null;
+  });
+
+  const mode = getResponseValidationMode();
+  if (mode === "off") return;
+
+  // Only JSON payloads reach preSerialization; streams and strings (CSV, SSE, /metrics) are skipped
+  fastify.addHook("preSerialization", async (request, reply, payload) => {
+    const schema = request.routeOptions.config.contract?.responses[reply.statusCode]?.schema;
+    if (!schema) return payload;
+
+    const result = schema.safeParse(payload);
+    if (result.success) return payload;
+
+    const issues = result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+      .join("; ");
+    const message = `${request.method} ${request.routeOptions.url} ${reply.statusCode} response does not match the API contract: ${issues}`;
+
+    if (mode === "strict") {
+      throw new Error(message);
+    }
+    console.warn(`⚠️ ${message}`);
+    return payload;
+  });
+
+  console.log(`📜 Response validation: ${mode}`);
+}
+
+/**
+ * OpenAPI document for all routes registered with a contract
+ */
+export function getOpenApiDocument(): JsonSchema {
+  if (!openApiDocument) {
+    openApiDocument = buildOpenApiDocument(
+      {
+        title: "Xandeum pNode Analytics API",
+        version: readApiVersion(),
+        description: "pNode discovery, analytics, history, alerts and monitoring for the Xandeum network",
+      },
+      contractedRoutes,
+      API_COMPONENT_SCHEMAS
+    );
+  }
+  return openApiDocument;
+}
@@ -0,0 +1,106 @@
+/**
+ * Availability Service
+ *
+ * Tracks observed online/offline state per node over a rolling 24h window.
+ * Observations are recorded on every gossip refresh and back-filled from
+ * stored snapshots on startup, so uptime24h reflects real availability
+ * instead of the node's uptime counter.
+ */
+
+import { onPNodesRefreshed } from "./pnode.service";
+import { iterateSnapshots } from "./snapshot.service";
+import {
+  AvailabilitySegment,
+  appendObservation,
+  pruneSegments,
+  summarizeAvailability,
+  availabilityPercent,
+} from "../utils/availability";
+import { PNode } from "../types/pnode";
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_OBSERVATION_GAP_MS = 10 * 60 * 1000; // Longer gaps count as "not observed"
+// Minimum observed time before the observed value replaces the uptime-counter heuristic
+const MIN_OBSERVED_MS = (Number(process.env.AVAILABILITY_MIN_OBSERVED_MINUTES) || 60) * 60 * 1000;
+
+const segmentsByPubkey = new Map<string, AvailabilitySegment[]>();
+
+/**
+ * Record one observation for every node in a gossip refresh
+ * Nodes previously seen but missing from this refresh are observed as offline.
+ */
+export function recordAvailabilityObservations(nodes: PNode[], timestamp: number = Date.now()): void {
+  const seen = new Set<string>();
+
+  for (const node of nodes) {
+    if (!node.pubkey) continue;
+    seen.add(node.pubkey);
+
+    let segments = segmentsByPubkey.get(node.pubkey);
+    if (!segments) {
+      segments = [];
+      segmentsByPubkey.set(node.pubkey, segments);
+    }
+    appendObservation(segments, timestamp, node.status === "online", MAX_OBSERVATION_GAP_MS);
+  }
+
+  const cutoff = timestamp - WINDOW_MS;
+  for (const [pubkey, segments] of segmentsByPubkey.entries()) {
+    if (!seen.has(pubkey)) {
+      appendObservation(segments, timestamp, false, MAX_OBSERVATION_GAP_MS);
+    }
+
+    pruneSegments(segments, cutoff);
+    if (segments.length === 0) {
+      segmentsByPubkey.delete(pubkey);
+    }
+  }
+}
+
+/**
+ * Observed 24h availability percentage for a node
+ * Returns null while fewer than MIN_OBSERVED_MS of observations exist (warm-up),
+ * so callers can fall back to the uptime-counter heuristic.
+ */
+export function getObservedUptime24h(pubkey: string, now: number = Date.now()): number | null {
+  const segments = segmentsByPubkey.get(pubkey);
+  if (!segments) return null;
+
+  const summary = summarizeAvailability(segments, now - WINDOW_MS, now);
+  if (summary.observedMs < MIN_OBSERVED_MS) {
+    return null;
+  }
+
+  return availabilityPercent(summary);
+}
+
+/**
+ * Back-fill observations from the last 24h of stored snapshots
+ */
+async function warmFromSnapshots(): Promise<void> {
+  const now = Date.now();
+  let count = 0;
+
+  for await (const snapshot of iterateSnapshots(now - WINDOW_MS, now)) {
+    recordAvailabilityObservations(snapshot.nodes, snapshot.timestamp);
+    count++;
+  }
+
+  if (count > 0) {
+    console.log(`✅ Availability history warmed from ${count} snapshots (${segmentsByPubkey.size} nodes)`);
+  }
+}
+
+/**
+ * Start recording availability on every gossip refresh
+ */
+export function startAvailabilityTracking(): void {
+  // Warm up first so live observations don't arrive before older snapshot ones
+  warmFromSnapshots()
+    .catch((error) => {
+      console.warn('⚠️ Failed to warm availability history from snapshots:', error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      onPNodesRefreshed((nodes) => recordAvailabilityObservations(nodes));
+    });
+}
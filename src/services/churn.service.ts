@@ -0,0 +1,70 @@
+/**
+ * Churn Service
+ *
+ * Records which pubkeys are present on every gossip refresh and reports join
+ * and leave rates, tenure and stability over trailing windows. History is
+ * back-filled from stored snapshots on startup.
+ */
+
+import { onPNodesRefreshed } from "./pnode.service";
+import { iterateSnapshots } from "./snapshot.service";
+import {
+  buildChurnReport,
+  CHURN_WINDOWS,
+  createPresenceHistory,
+  prunePresence,
+  recordPresence,
+} from "../utils/churn";
+import { ChurnReport, PNode } from "../types/pnode";
+
+const HISTORY_MS = Math.max(...CHURN_WINDOWS.map((w) => w.ms));
+// Nodes missing from gossip for longer than this have left
+const ABSENCE_GRACE_MS = (Number(process.env.CHURN_ABSENCE_GRACE_MINUTES) || 10) * 60 * 1000;
+
+const presenceHistory = createPresenceHistory();
+
+/**
+ * Record the pubkeys of one gossip refresh
+ */
+export function recordChurnObservation(nodes: PNode[], timestamp: number = Date.now()): void {
+  recordPresence(presenceHistory, nodes.map((node) => node.pubkey), timestamp, ABSENCE_GRACE_MS);
+  prunePresence(presenceHistory, timestamp - HISTORY_MS);
+}
+
+/**
+ * Join/leave rates, median tenure and stability for each window
+ */
+export function getChurnReport(): ChurnReport {
+  return buildChurnReport(presenceHistory, ABSENCE_GRACE_MS);
+}
+
+/**
+ * Back-fill presence from the stored snapshots of the longest window
+ */
+async function warmFromSnapshots(): Promise<void> {
+  const now = Date.now();
+  let count = 0;
+
+  for await (const snapshot of iterateSnapshots(now - HISTORY_MS, now)) {
+    recordChurnObservation(snapshot.nodes, snapshot.timestamp);
+    count++;
+  }
+
+  if (count > 0) {
+    console.log(`✅ Churn history warmed from ${count} snapshots (${presenceHistory.runs.size} nodes)`);
+  }
+}
+
+/**
+ * Start recording presence on every gossip refresh
+ */
+export function startChurnTracking(): void {
+  // Warm up first so live observations don't arrive before older snapshot ones
+  warmFromSnapshots()
+    .catch((error) => {
+      console.warn('⚠️ Failed to warm churn history from snapshots:', error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      onPNodesRefreshed((nodes) => recordChurnObservation(nodes));
+    });
+}
@@ -0,0 +1,259 @@
+/**
+ * Geo Provider Service
+ *
+ * Pluggable IP geolocation backends, chained by priority (see config/geo).
+ * Offline providers (static overrides, MaxMind-format .mmdb, IP-range CSV)
+ * are loaded into memory at startup; ip-api.com results are cached for 24h.
+ */
+
+import { readFile } from "fs/promises";
+import maxmind, { CityResponse, Reader } from "maxmind";
+import { z } from "zod";
+import { geoCacheService } from "./redis.service";
+import { geoConfig, GeoProviderName } from "../config/geo";
+import { IpRangeTable, ipToBigInt, parseCidr, parseIpRangeCsv } from "../utils/ip-ranges";
+import { normalizeIp } from "../utils/address";
+import { GeoLocationSchema } from "../types/schemas";
+import { GeoLocation } from "../types/pnode";
+
+export interface GeoProvider {
+  readonly name: GeoProviderName;
+  lookup(ip: string, timeoutMs: number): Promise<GeoLocation | null>;
+}
+
+const GEO_CACHE_KEY_PREFIX = "geo:";
+const GEO_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * ip-api.com (free, no key required, plain HTTP, ~45 requests/minute)
+ */
+export class IpApiGeoProvider implements GeoProvider {
+  readonly name = "ip-api";
+
+  async lookup(ip: string, timeoutMs: number): Promise<GeoLocation | null> {
+    // Check cache first (Redis-backed with in-memory fallback)
+    const cacheKey = `${GEO_CACHE_KEY_PREFIX}${ip}`;
+    const cached = await geoCacheService.get<GeoLocation>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`http://ip-api.com/json/${encodeURIComponent(ip)}?fields=status,message,country,regionName,city,lat,lon`, {
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json() as {
+        status?: string;
+        message?: string;
+        lat?: number | string;
+        lon?: number | string;
+        country?: string;
+        regionName?: string;
+        city?: string;
+      };
+
+      // Check if API returned an error
+      if (data.status === 'fail') {
+        return null;
+      }
+
+      // Validate required fields
+      if (!data.lat || !data.lon || !data.country) {
+        return null;
+      }
+
+      const geo: GeoLocation = {
+        lat: typeof data.lat === 'string' ? parseFloat(data.lat) : data.lat,
+        lng: typeof data.lon === 'string' ? parseFloat(data.lon) : data.lon,
+        country: data.country || 'Unknown',
+        region: data.regionName || 'Unknown',
+        city: data.city || undefined,
+      };
+
+      // Cache the result for 24 hours (Redis-backed with in-memory fallback)
+      await geoCacheService.set(cacheKey, geo, GEO_CACHE_TTL_MS);
+
+      return geo;
+    } catch (error) {
+      // Timeouts and network errors fall through to the next provider
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * MaxMind-format database (GeoLite2-City, GeoIP2-City, DB-IP Lite City, ...)
+ * Country-only databases have no coordinates and never resolve.
+ */
+export class MmdbGeoProvider implements GeoProvider {
+  readonly name = "mmdb";
+
+  constructor(private reader: Reader<CityResponse>) {}
+
+  static async open(file: string): Promise<MmdbGeoProvider> {
+    // Reload automatically when the database file is replaced
+    const reader = await maxmind.open<CityResponse>(file, {
+      watchForUpdates: true,
+      watchForUpdatesNonPersistent: true,
+    });
+    return new MmdbGeoProvider(reader);
+  }
+
+  async lookup(ip: string): Promise<GeoLocation | null> {
+    if (!maxmind.validate(ip)) return null;
+
+    const record = this.reader.get(ip);
+    const location = record?.location;
+    const country = record?.country?.names.en ?? record?.registered_country?.names.en;
+    if (!location || !country) return null;
+
+    return {
+      lat: location.latitude,
+      lng: location.longitude,
+      country,
+      region: record.subdivisions?.[0]?.names.en ?? "Unknown",
+      city: record.city?.names.en,
+    };
+  }
+}
+
+/**
+ * IP-range CSV database: `start_ip,end_ip,country,region,city,lat,lng`
+ * (or `cidr,country,region,city,lat,lng`), one range per row.
+ */
+export class CsvRangeGeoProvider implements GeoProvider {
+  readonly name = "csv";
+
+  constructor(private table: IpRangeTable<GeoLocation>) {}
+
+  static async open(file: string): Promise<CsvRangeGeoProvider> {
+    const content = await readFile(file, "utf8");
+    const { table, skipped } = parseIpRangeCsv(content, ([country, region, city, lat, lng]) => {
+      const result = GeoLocationSchema.safeParse({
+        lat: Number(lat),
+        lng: Number(lng),
+        country,
+        region: region || "Unknown",
+        city: city || undefined,
+      });
+      return result.success ? result.data : null;
+    });
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} invalid rows in geo CSV ${file}`);
+    }
+    return new CsvRangeGeoProvider(table);
+  }
+
+  async lookup(ip: string): Promise<GeoLocation | null> {
+    return this.table.lookup(ip);
+  }
+}
+
+const GeoOverridesSchema = z.record(GeoLocationSchema);
+
+/**
+ * Static overrides keyed by IP or CIDR, e.g. for private addresses or known-wrong database entries
+ * Exact IPs win over CIDRs; among CIDRs the longest prefix wins.
+ */
+export class StaticGeoProvider implements GeoProvider {
+  readonly name = "overrides";
+  private exact = new Map<string, GeoLocation>();
+  private networks: Array<{ family: number; start: bigint; end: bigint; prefixLength: number; geo: GeoLocation }> = [];
+
+  constructor(overrides: Record<string, GeoLocation>) {
+    for (const [key, geo] of Object.entries(overrides)) {
+      if (!key.includes("/")) {
+        const ip = normalizeIp(key);
+        if (!ip) {
+          throw new Error(`Invalid IP "${key}"`);
+        }
+        this.exact.set(ip.ip, geo);
+        continue;
+      }
+      const cidr = parseCidr(key);
+      if (!cidr) {
+        throw new Error(`Invalid CIDR "${key}"`);
+      }
+      this.networks.push({ ...cidr, geo });
+    }
+    this.networks.sort((a, b) => b.prefixLength - a.prefixLength);
+  }
+
+  static async open(file: string): Promise<StaticGeoProvider> {
+    const result = GeoOverridesSchema.safeParse(JSON.parse(await readFile(file, "utf8")));
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "overrides"}: ${issue.message}`);
+      throw new Error(issues.join("; "));
+    }
+    return new StaticGeoProvider(result.data);
+  }
+
+  async lookup(ip: string): Promise<GeoLocation | null> {
+    const exact = this.exact.get(ip);
+    if (exact) return exact;
+
+    const address = ipToBigInt(ip);
+    if (!address) return null;
+    return this.networks.find((network) =>
+      network.family === address.family && address.value >= network.start && address.value <= network.end
+    )?.geo ?? null;
+  }
+}
+
+async function openProvider(name: GeoProviderName): Promise<GeoProvider> {
+  switch (name) {
+    case "overrides":
+      return StaticGeoProvider.open(geoConfig.overridesFile!);
+    case "mmdb":
+      return MmdbGeoProvider.open(geoConfig.mmdbFile!);
+    case "csv":
+      return CsvRangeGeoProvider.open(geoConfig.csvFile!);
+    case "ip-api":
+      return new IpApiGeoProvider();
+  }
+}
+
+/**
+ * Open the configured providers in priority order
+ * A provider whose file can't be loaded is skipped with a warning.
+ */
+async function loadGeoProviders(): Promise<GeoProvider[]> {
+  const providers: GeoProvider[] = [];
+
+  for (const name of geoConfig.providers) {
+    try {
+      providers.push(await openProvider(name));
+    } catch (error) {
+      console.warn(`⚠️ Failed to load geo provider ${name}, skipping:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`🌍 Geo providers: ${providers.map((p) => p.name).join(" → ") || "none"}`);
+  return providers;
+}
+
+let geoProviders: Promise<GeoProvider[]> | null = null;
+
+/**
+ * Configured provider chain (loaded once)
+ */
+export function getGeoProviders(): Promise<GeoProvider[]> {
+  if (!geoProviders) {
+    geoProviders = loadGeoProviders();
+  }
+  return geoProviders;
+}
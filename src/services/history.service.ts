@@ -0,0 +1,120 @@
+/**
+ * History Service
+ *
+ * Builds per-node and network-wide time series from recorded gossip snapshots.
+ * Samples are downsampled server-side into fixed-width buckets.
+ */
+
+import { iterateSnapshots, getSnapshotIntervalMs } from "./snapshot.service";
+import { bucketByStep, averageOf } from "../utils/timeseries";
+import { buildVersionTimeline, sampleVersions, VersionSample } from "../utils/version-timeline";
+import {
+  NodeHistory,
+  NodeHistorySample,
+  NodeStats,
+  PNodeStatus,
+  VersionTimeline,
+  VersionTimelineInterval,
+} from "../types/pnode";
+
+export const MAX_HISTORY_BUCKETS = 2000;
+const DEFAULT_TARGET_BUCKETS = 300;
+
+interface RawNodeSample {
+  timestamp: number;
+  status: PNodeStatus;
+  version: string;
+  storageUsed: number;
+  storageCommitted: number;
+  uptime: number;
+  ramUsed?: number;
+  stats?: NodeStats;
+}
+
+/**
+ * Pick a default bucket width: roughly DEFAULT_TARGET_BUCKETS buckets, never finer than the snapshot interval
+ */
+export function defaultHistoryStep(from: number, to: number): number {
+  return Math.max(getSnapshotIntervalMs(), Math.ceil((to - from) / DEFAULT_TARGET_BUCKETS));
+}
+
+function summarizeBucket(bucketStart: number, samples: RawNodeSample[]): NodeHistorySample {
+  const last = samples[samples.length - 1];
+  const onlineCount = samples.filter((s) => s.status === "online").length;
+  const lastStats = [...samples].reverse().find((s) => s.stats)?.stats;
+  const ramUsed = averageOf(samples.map((s) => s.ramUsed));
+
+  const sample: NodeHistorySample = {
+    timestamp: bucketStart,
+    status: last.status,
+    onlineRatio: Math.round((onlineCount / samples.length) * 1000) / 1000,
+    version: last.version,
+    storageUsed: Math.round(averageOf(samples.map((s) => s.storageUsed)) ?? 0),
+    storageCommitted: Math.round(averageOf(samples.map((s) => s.storageCommitted)) ?? 0),
+    uptime: last.uptime,
+    sampleCount: samples.length,
+  };
+
+  if (ramUsed !== undefined) sample.ramUsed = Math.round(ramUsed);
+  if (lastStats) sample.stats = lastStats;
+
+  return sample;
+}
+
+/**
+ * Get downsampled history for a node between `from` and `to` (Unix ms) with `step` ms buckets
+ */
+export async function getNodeHistory(
+  pubkey: string,
+  from: number,
+  to: number,
+  step: number
+): Promise<NodeHistory> {
+  const rawSamples: RawNodeSample[] = [];
+
+  for await (const snapshot of iterateSnapshots(from, to)) {
+    const node = snapshot.nodes.find((n) => n.pubkey === pubkey);
+    if (!node) continue;
+
+    rawSamples.push({
+      timestamp: snapshot.timestamp,
+      status: node.status,
+      version: node.version,
+      storageUsed: node.storageUsed,
+      storageCommitted: node.storageCommitted ?? node.storageTotal,
+      uptime: node.uptime,
+      ramUsed: node.ramUsed,
+      stats: snapshot.stats?.[pubkey],
+    });
+  }
+
+  const samples = bucketByStep(rawSamples, from, step)
+    .map(({ bucketStart, samples: bucketSamples }) => summarizeBucket(bucketStart, bucketSamples));
+
+  return {
+    pubkey,
+    from,
+    to,
+    step,
+    samples,
+  };
+}
+
+/**
+ * Get the version distribution per hour or day between `from` and `to` (Unix ms),
+ * with time-to-50%/90% adoption for every version seen in the range
+ */
+export async function getVersionTimeline(
+  from: number,
+  to: number,
+  interval: VersionTimelineInterval
+): Promise<VersionTimeline> {
+  const samples: VersionSample[] = [];
+
+  for await (const snapshot of iterateSnapshots(from, to)) {
+    samples.push(sampleVersions(snapshot.timestamp, snapshot.nodes));
+  }
+  samples.sort((a, b) => a.timestamp - b.timestamp);
+
+  return buildVersionTimeline(samples, from, to, interval);
+}
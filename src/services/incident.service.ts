@@ -0,0 +1,293 @@
+/**
+ * Incident Service
+ *
+ * Watches every gossip refresh for mass outages and keeps incident records
+ * (persisted in Redis). Nodes that were online and went offline or dropped out
+ * of gossip within INCIDENT_WINDOW_MINUTES count as recently down; missing
+ * nodes stay in the online percentage's denominator for the same window.
+ * At most one incident is open at a time and it absorbs further outages until
+ * the affected nodes are back.
+ */
+
+import { randomUUID } from "crypto";
+import { getRedisClient } from "./redis.service";
+import { onPNodesRefreshed, getSeedCoverageReport } from "./pnode.service";
+import { resolveNodeGeo } from "./geo.service";
+import {
+  describeIncident,
+  detectIncident,
+  findCommonFactors,
+  IncidentDetection,
+  IncidentNode,
+  IncidentThresholds,
+  isIncidentRecovered,
+} from "../utils/incidents";
+import { Incident, IncidentStatus, PNode } from "../types/pnode";
+
+const WINDOW_MS = (Number(process.env.INCIDENT_WINDOW_MINUTES) || 15) * 60 * 1000;
+const THRESHOLDS: IncidentThresholds = {
+  onlineDropPoints: Number(process.env.INCIDENT_ONLINE_DROP_POINTS) || 10,
+  minNodes: Number(process.env.INCIDENT_MIN_NODES) || 5,
+  minGroupPercent: Number(process.env.INCIDENT_MIN_GROUP_PERCENT) || 50,
+  recoveredPercent: 80,
+};
+const REDIS_INCIDENTS_KEY = "xandeum:incidents";
+const MAX_STORED_INCIDENTS = 200;
+const GEO_TIMEOUT_MS = 2000;
+
+interface KnownNode {
+  node: PNode;
+  seeds: string[];
+  lastSeenAt: number; // Unix ms of the last refresh that included the node
+}
+
+const incidents: Incident[] = []; // Newest first
+const knownNodes = new Map<string, KnownNode>();
+const downSince = new Map<string, number>(); // Recently-down pubkeys -> Unix ms they went down
+const onlineSamples: Array<{ timestamp: number; percent: number }> = [];
+// Attributes of the open incident's affected nodes, captured when they went down
+const openIncidentNodes = new Map<string, IncidentNode>();
+let previousOnline: Set<string> | null = null;
+let evaluationQueue: Promise<void> = Promise.resolve();
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function persistIncidents(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    await client.set(REDIS_INCIDENTS_KEY, JSON.stringify(incidents));
+  } catch (error) {
+    console.warn('⚠️ Failed to persist incidents:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Restore incident records from Redis (call after Redis is initialized)
+ */
+export async function loadIncidents(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    const stored = await client.get(REDIS_INCIDENTS_KEY);
+    if (!stored) return;
+
+    incidents.splice(0, incidents.length, ...(JSON.parse(stored) as Incident[]));
+    const open = incidents.filter((incident) => incident.status === "open").length;
+    console.log(`🚨 Restored ${incidents.length} incidents (${open} open)`);
+  } catch (error) {
+    console.warn('⚠️ Failed to load incidents:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Incidents, newest first
+ */
+export function listIncidents(status?: IncidentStatus, limit?: number): Incident[] {
+  const matching = status ? incidents.filter((incident) => incident.status === status) : incidents;
+  return matching.slice(0, limit ?? matching.length);
+}
+
+export function getIncident(id: string): Incident | null {
+  return incidents.find((incident) => incident.id === id) ?? null;
+}
+
+async function seedsByPubkey(): Promise<Map<string, string[]>> {
+  const seeds = new Map<string, string[]>();
+  try {
+    const report = await getSeedCoverageReport();
+    for (const seed of report.seeds) {
+      for (const pubkey of seed.pubkeys) {
+        seeds.set(pubkey, [...(seeds.get(pubkey) ?? []), seed.seed]);
+      }
+    }
+  } catch (error) {
+    // Seed factors are skipped without a coverage report
+  }
+  return seeds;
+}
+
+async function toIncidentNode(known: KnownNode): Promise<IncidentNode> {
+  let country: string | null = null;
+  try {
+    const geo = await resolveNodeGeo(known.node.address || known.node.ip, GEO_TIMEOUT_MS);
+    country = geo?.country ?? null;
+  } catch (error) {
+    // Country factors are skipped for nodes that can't be located
+  }
+  return { pubkey: known.node.pubkey, version: known.node.version || null, country, seeds: known.seeds };
+}
+
+function openIncident(
+  detection: IncidentDetection,
+  recentlyDown: IncidentNode[],
+  before: number,
+  onlinePercentage: number,
+  now: number
+): Incident {
+  const startedAt = Math.min(...recentlyDown.map((node) => downSince.get(node.pubkey) ?? now));
+  const incident: Incident = {
+    id: randomUUID(),
+    status: "open",
+    trigger: detection.trigger,
+    summary: describeIncident(detection.trigger, recentlyDown.length, detection.factors, before, onlinePercentage),
+    startedAt: new Date(startedAt).toISOString(),
+    endedAt: null,
+    updatedAt: new Date(now).toISOString(),
+    onlinePercentageBefore: before,
+    lowestOnlinePercentage: onlinePercentage,
+    affectedPubkeys: recentlyDown.map((node) => node.pubkey),
+    commonFactors: detection.factors,
+  };
+
+  openIncidentNodes.clear();
+  for (const node of recentlyDown) {
+    openIncidentNodes.set(node.pubkey, node);
+  }
+
+  incidents.unshift(incident);
+  incidents.splice(MAX_STORED_INCIDENTS);
+  console.log(`🚨 Incident opened: ${incident.summary}`);
+  return incident;
+}
+
+/**
+ * Add newly-down nodes to the open incident and resolve it once they're back
+ *
+ * @returns whether the incident changed
+ */
+function updateOpenIncident(
+  incident: Incident,
+  population: IncidentNode[],
+  online: ReadonlySet<string>,
+  onlinePercentage: number,
+  now: number
+): boolean {
+  let changed = false;
+
+  const affected = new Set(incident.affectedPubkeys);
+  for (const pubkey of downSince.keys()) {
+    if (!affected.has(pubkey)) {
+      affected.add(pubkey);
+      incident.affectedPubkeys.push(pubkey);
+      changed = true;
+    }
+  }
+  // Capture attributes of newly affected nodes, and of restored incidents' nodes once seen again
+  for (const node of population) {
+    if (affected.has(node.pubkey) && !openIncidentNodes.has(node.pubkey)) {
+      openIncidentNodes.set(node.pubkey, node);
+    }
+  }
+  if (onlinePercentage < incident.lowestOnlinePercentage) {
+    incident.lowestOnlinePercentage = onlinePercentage;
+    changed = true;
+  }
+
+  if (changed) {
+    const affectedNodes = Array.from(openIncidentNodes.values());
+    const populationKeys = new Set(population.map((node) => node.pubkey));
+    const everyone = [...population, ...affectedNodes.filter((node) => !populationKeys.has(node.pubkey))];
+    incident.commonFactors = findCommonFactors(affectedNodes, everyone, THRESHOLDS);
+    incident.summary = describeIncident(
+      incident.trigger,
+      incident.affectedPubkeys.length,
+      incident.commonFactors,
+      incident.onlinePercentageBefore,
+      incident.lowestOnlinePercentage
+    );
+  }
+
+  const tracked = incident.affectedPubkeys.filter((pubkey) => knownNodes.has(pubkey));
+  if (isIncidentRecovered(tracked, online, onlinePercentage, incident.onlinePercentageBefore, THRESHOLDS)) {
+    incident.status = "resolved";
+    incident.endedAt = new Date(now).toISOString();
+    // Nodes that stay down are part of this incident, not the start of the next one
+    for (const pubkey of incident.affectedPubkeys) {
+      downSince.delete(pubkey);
+    }
+    openIncidentNodes.clear();
+    console.log(`✅ Incident resolved: ${incident.summary}`);
+    changed = true;
+  }
+
+  if (changed) {
+    incident.updatedAt = new Date(now).toISOString();
+  }
+  return changed;
+}
+
+/**
+ * Track one gossip refresh and open, extend or resolve incidents
+ */
+async function evaluateIncidents(nodes: PNode[], now: number): Promise<void> {
+  const seeds = await seedsByPubkey();
+  const online = new Set<string>();
+  for (const node of nodes) {
+    knownNodes.set(node.pubkey, { node, seeds: seeds.get(node.pubkey) ?? [], lastSeenAt: now });
+    if (node.status === "online") online.add(node.pubkey);
+  }
+  for (const [pubkey, known] of knownNodes) {
+    if (known.lastSeenAt < now - WINDOW_MS) knownNodes.delete(pubkey);
+  }
+
+  // Online -> offline or missing since the last refresh
+  if (previousOnline) {
+    for (const pubkey of previousOnline) {
+      if (!online.has(pubkey) && !downSince.has(pubkey)) downSince.set(pubkey, now);
+    }
+  }
+  for (const [pubkey, since] of downSince) {
+    if (online.has(pubkey) || since < now - WINDOW_MS) downSince.delete(pubkey);
+  }
+  previousOnline = online;
+
+  const onlinePercentage = knownNodes.size > 0 ? round((online.size / knownNodes.size) * 100) : 0;
+  while (onlineSamples.length > 0 && onlineSamples[0].timestamp < now - WINDOW_MS) {
+    onlineSamples.shift();
+  }
+  const baselinePercent = onlineSamples.length > 0 ? Math.max(...onlineSamples.map((s) => s.percent)) : null;
+  onlineSamples.push({ timestamp: now, percent: onlinePercentage });
+
+  const open = incidents.find((incident) => incident.status === "open");
+  const dropped = baselinePercent !== null && baselinePercent - onlinePercentage >= THRESHOLDS.onlineDropPoints;
+  // Geo lookups only when there is something to look at
+  if (!open && (downSince.size === 0 || (downSince.size < THRESHOLDS.minNodes && !dropped))) {
+    return;
+  }
+
+  const population = await Promise.all(Array.from(knownNodes.values()).map(toIncidentNode));
+
+  if (open) {
+    if (updateOpenIncident(open, population, online, onlinePercentage, now)) {
+      await persistIncidents();
+    }
+    return;
+  }
+
+  const recentlyDown = population.filter((node) => downSince.has(node.pubkey));
+  const detection = detectIncident({ baselinePercent, onlinePercentage, recentlyDown, population }, THRESHOLDS);
+  if (detection) {
+    openIncident(detection, recentlyDown, baselinePercent ?? onlinePercentage, onlinePercentage, now);
+    await persistIncidents();
+  }
+}
+
+/**
+ * Evaluate incidents after every gossip refresh
+ */
+export function startIncidentDetection(): void {
+  onPNodesRefreshed((nodes) => {
+    const now = Date.now();
+    // Serialize evaluations so tracked state is updated in refresh order
+    evaluationQueue = evaluationQueue
+      .then(() => evaluateIncidents(nodes, now))
+      .catch((error) => {
+        console.error('❌ Error evaluating incidents:', error);
+      });
+  });
+}
@@ -8,7 +8,27 @@
 import { getAllPNodes } from "./pnode.service";
 import { getCachedNodeMetrics } from "./analytics.service";
 import { resolveNodeGeo } from "./geo.service";
-import { MapNode, GeoSummary } from "../types/pnode";
+import { analyticsCacheService } from "./redis.service";
+import {
+  clusterMapNodes,
+  parseClusterZoom,
+  pointInBbox,
+  boundsIntersectBbox,
+  ClusterGroup,
+} from "../utils/map-cluster";
+import { buildMapFeatureCollection } from "../utils/geojson";
+import { buildGeoHealthReport } from "../utils/geo-health";
+import {
+  MapNode,
+  GeoSummary,
+  GeoHealthReport,
+  BoundingBox,
+  MapClusterResult,
+  MapClusterExpansion,
+  MapFeatureCollection,
+} from "../types/pnode";
+
+const MAP_CLUSTERS_CACHE_TTL_MS = 60 * 1000; // Same as node metrics
 
 /**
  * Get all pNodes with geographic and health data for map visualization.
@@ -122,13 +142,79 @@ export async function getMapNodes(): Promise<MapNode[]> {
   }
 }
 
+/**
+ * Clusters for every grid cell at a zoom level (cached per zoom)
+ */
+async function getClusterGroups(zoom: number): Promise<ClusterGroup[]> {
+  const cacheKey = `map_clusters:${zoom}`;
+  const cached = await analyticsCacheService.get<ClusterGroup[]>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const groups = clusterMapNodes(await getMapNodes(), zoom)
+    .sort((a, b) => b.cluster.count - a.cluster.count || a.cluster.id.localeCompare(b.cluster.id));
+  await analyticsCacheService.set(cacheKey, groups, MAP_CLUSTERS_CACHE_TTL_MS);
+  return groups;
+}
+
+/**
+ * Get pre-aggregated map clusters for a zoom level, optionally limited to a bounding box.
+ * Cells holding a single node are returned as plain nodes.
+ */
+export async function getMapClusters(zoom: number, bbox: BoundingBox | null): Promise<MapClusterResult> {
+  const groups = await getClusterGroups(zoom);
+
+  const clusters = [];
+  const nodes = [];
+  for (const group of groups) {
+    if (group.nodes.length === 1) {
+      const [node] = group.nodes;
+      if (!bbox || pointInBbox(node.lat, node.lng, bbox)) {
+        nodes.push(node);
+      }
+    } else if (!bbox || boundsIntersectBbox(group.cluster.bounds, bbox)) {
+      clusters.push(group.cluster);
+    }
+  }
+
+  return { zoom, bbox, clusters, nodes };
+}
+
+/**
+ * Get the member nodes of one cluster.
+ *
+ * @returns null if the id is malformed or no longer names a cluster
+ */
+export async function expandMapCluster(id: string): Promise<MapClusterExpansion | null> {
+  const zoom = parseClusterZoom(id);
+  if (zoom === null) {
+    return null;
+  }
+
+  const group = (await getClusterGroups(zoom)).find((g) => g.cluster.id === id && g.nodes.length > 1);
+  return group ? { cluster: group.cluster, nodes: group.nodes } : null;
+}
+
+/**
+ * Get map nodes as a GeoJSON FeatureCollection.
+ *
+ * @param includeCountries - Append one polygon per country from getGeoSummary()
+ */
+export async function getMapGeoJson(includeCountries: boolean): Promise<MapFeatureCollection> {
+  const mapNodes = await getMapNodes();
+  const summary = includeCountries ? await getGeoSummary(mapNodes) : undefined;
+  return buildMapFeatureCollection(mapNodes, summary);
+}
+
 /**
  * Get geographic summary analytics.
  * 
+ * @param nodes - Map nodes to summarize (default: fetched via getMapNodes)
  * @returns Summary of nodes by country and region
  */
-export async function getGeoSummary(): Promise<GeoSummary> {
-  const mapNodes = await getMapNodes();
+export async function getGeoSummary(nodes?: MapNode[]): Promise<GeoSummary> {
+  const mapNodes = nodes ?? await getMapNodes();
 
   // Count by country
   const countryMap = new Map<string, number>();
@@ -156,3 +242,15 @@ export async function getGeoSummary(): Promise<GeoSummary> {
   };
 }
 
+/**
+ * Get health, storage and version aggregates per country and region.
+ * Joins map nodes with node metrics and pNode storage fields (all cached).
+ */
+export async function getGeoHealthReport(): Promise<GeoHealthReport> {
+  const [mapNodes, metrics, nodes] = await Promise.all([
+    getMapNodes(),
+    getCachedNodeMetrics(),
+    getAllPNodes(),
+  ]);
+  return buildGeoHealthReport(mapNodes, metrics, nodes);
+}
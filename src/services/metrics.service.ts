@@ -0,0 +1,80 @@
+/**
+ * Metrics Service
+ *
+ * In-process instrumentation for the Prometheus exporter: pRPC call latency and
+ * errors, cache hit/miss counts and stats enrichment run durations.
+ * Kept free of other service imports so any service can record metrics.
+ */
+
+import { Counter, Histogram, MetricFamily } from "../utils/prometheus";
+import { categorizePrpcError } from "../utils/prpc-errors";
+
+const prpcRequestDuration = new Histogram(
+  "xandeum_prpc_request_duration_seconds",
+  "pRPC call latency by method and outcome"
+);
+
+const prpcErrors = new Counter(
+  "xandeum_prpc_errors_total",
+  "Failed pRPC calls by method and error category"
+);
+
+const cacheRequests = new Counter(
+  "xandeum_cache_requests_total",
+  "Cache lookups by cache and result (hit or miss)"
+);
+
+const enrichmentDuration = new Histogram(
+  "xandeum_stats_enrichment_duration_seconds",
+  "Duration of background stats enrichment runs",
+  [1, 5, 10, 30, 60, 90, 120, 300]
+);
+
+/**
+ * Run a pRPC call, recording its latency and error category
+ */
+export async function timePrpcCall<T>(method: string, call: () => Promise<T>): Promise<T> {
+  const startTime = Date.now();
+  try {
+    const result = await call();
+    prpcRequestDuration.observe({ method, outcome: "success" }, (Date.now() - startTime) / 1000);
+    return result;
+  } catch (error) {
+    prpcRequestDuration.observe({ method, outcome: "error" }, (Date.now() - startTime) / 1000);
+    prpcErrors.inc({ method, category: categorizePrpcError(error) });
+    throw error;
+  }
+}
+
+export function recordCacheLookup(cache: string, hit: boolean): void {
+  cacheRequests.inc({ cache, result: hit ? "hit" : "miss" });
+}
+
+export function recordEnrichmentRun(durationMs: number): void {
+  enrichmentDuration.observe({}, durationMs / 1000);
+}
+
+/**
+ * Internal metric families, including the derived cache hit ratio
+ */
+export function getInternalMetricFamilies(): MetricFamily[] {
+  const caches = new Set(cacheRequests.entries().map((entry) => entry.labels.cache));
+  const hitRatio: MetricFamily = {
+    name: "xandeum_cache_hit_ratio",
+    help: "Share of cache lookups served from cache since startup",
+    type: "gauge",
+    samples: Array.from(caches).map((cache) => {
+      const hits = cacheRequests.get({ cache, result: "hit" });
+      const misses = cacheRequests.get({ cache, result: "miss" });
+      return { labels: { cache }, value: hits + misses > 0 ? hits / (hits + misses) : 0 };
+    }),
+  };
+
+  return [
+    prpcRequestDuration.family(),
+    prpcErrors.family(),
+    cacheRequests.family(),
+    hitRatio,
+    enrichmentDuration.family(),
+  ];
+}
@@ -0,0 +1,210 @@
+/**
+ * Node Events Service
+ *
+ * Diffs consecutive gossip refreshes into node lifecycle events and fans them
+ * out to live subscribers (SSE). Recent events are kept in a ring buffer so
+ * reconnecting clients can replay what they missed via Last-Event-ID.
+ * Every event is also appended to a persisted event log for GET /events.
+ */
+
+import path from "path";
+import { EventEmitter } from "events";
+import { onPNodesRefreshed } from "./pnode.service";
+import { getLatestSnapshot, iterateSnapshots } from "./snapshot.service";
+import { createSnapshotStore, SnapshotStore } from "./snapshot-store";
+import { diffNodes } from "../utils/node-diff";
+import { collectEventPage, eventLogRange, EventLogQuery } from "../utils/event-log";
+import { NodeEvent, NodeEventBatch, NodeEventPage, PNode } from "../types/pnode";
+
+const MAX_BUFFERED_EVENTS = Number(process.env.NODE_EVENTS_BUFFER_SIZE) || 1000;
+const EVENT_LOG_RETENTION_DAYS = Number(process.env.EVENT_LOG_RETENTION_DAYS) || 90;
+const EVENT_LOG_DIR = process.env.EVENT_LOG_DIR || path.join(process.cwd(), "data", "events");
+const EVENT_LOG_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const eventLogStore: SnapshotStore<NodeEventBatch> = createSnapshotStore<NodeEventBatch>(
+  process.env.SNAPSHOT_STORE || "file",
+  EVENT_LOG_DIR,
+  "xandeum:events"
+);
+
+const emitter = new EventEmitter();
+// Every SSE client is a listener
+emitter.setMaxListeners(0);
+
+const recentEvents: NodeEvent[] = [];
+let previousNodes: PNode[] | null = null;
+// Every pubkey seen in gossip, to tell first sightings from rejoins
+const knownPubkeys = new Set<string>();
+let lastIdValue = 0;
+let lastPruneAt = 0;
+
+/**
+ * Event ids are derived from the detection time so they keep increasing across restarts
+ */
+function nextEventId(now: number): string {
+  lastIdValue = Math.max(lastIdValue + 1, now * 1000);
+  return String(lastIdValue);
+}
+
+/**
+ * Diff a fresh gossip result against the previous one and publish the resulting events
+ */
+export function processNodesRefresh(nodes: PNode[], now: number = Date.now()): NodeEvent[] {
+  if (previousNodes === null) {
+    // First refresh only establishes the baseline
+    previousNodes = nodes;
+    rememberPubkeys(nodes);
+    return [];
+  }
+
+  const changes = diffNodes(previousNodes, nodes, knownPubkeys);
+  previousNodes = nodes;
+  rememberPubkeys(nodes);
+
+  const timestamp = new Date(now).toISOString();
+  const events: NodeEvent[] = changes.map((change) => ({
+    id: nextEventId(now),
+    timestamp,
+    ...change,
+  }));
+
+  for (const event of events) {
+    recentEvents.push(event);
+    emitter.emit("event", event);
+  }
+  if (recentEvents.length > MAX_BUFFERED_EVENTS) {
+    recentEvents.splice(0, recentEvents.length - MAX_BUFFERED_EVENTS);
+  }
+
+  if (events.length > 0) {
+    console.log(`📣 Detected ${events.length} node events`);
+    persistEvents({ timestamp: now, events });
+  }
+
+  return events;
+}
+
+function rememberPubkeys(nodes: PNode[]): void {
+  for (const node of nodes) {
+    if (node.pubkey) knownPubkeys.add(node.pubkey);
+  }
+}
+
+/**
+ * Append a batch to the event log, pruning expired days at most once an hour
+ */
+async function persistEvents(batch: NodeEventBatch): Promise<void> {
+  try {
+    await eventLogStore.append(batch);
+    if (batch.timestamp - lastPruneAt >= EVENT_LOG_PRUNE_INTERVAL_MS) {
+      lastPruneAt = batch.timestamp;
+      await eventLogStore.prune(batch.timestamp - EVENT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    }
+  } catch (error) {
+    // Don't throw - live subscribers already have the events
+    console.error('❌ Error persisting node events:', error);
+  }
+}
+
+async function* iterateEventLog(from: number, to: number): AsyncIterable<NodeEvent> {
+  for await (const batch of eventLogStore.iterate(from, to)) {
+    yield* batch.events;
+  }
+}
+
+/**
+ * Every retained event for one pubkey up to `to`, oldest first
+ * `observedSince` is the first entry in the event log (tracking start or retention cutoff).
+ */
+export async function getNodeEventHistory(
+  pubkey: string,
+  to: number
+): Promise<{ observedSince: number | null; events: NodeEvent[] }> {
+  let observedSince: number | null = null;
+  const events: NodeEvent[] = [];
+
+  for await (const batch of eventLogStore.iterate(0, to)) {
+    observedSince ??= batch.timestamp;
+    for (const event of batch.events) {
+      if (event.pubkey === pubkey) events.push(event);
+    }
+  }
+
+  return { observedSince, events };
+}
+
+/**
+ * One page of persisted events matching the query
+ */
+export async function queryEvents(query: EventLogQuery): Promise<NodeEventPage> {
+  const { from, to } = eventLogRange(query);
+  return collectEventPage(iterateEventLog(from, to), query);
+}
+
+/**
+ * Buffered events newer than the given id (all buffered events if omitted)
+ */
+export function getEventsSince(lastEventId?: string): NodeEvent[] {
+  if (!lastEventId || !/^\d+$/.test(lastEventId)) {
+    return [...recentEvents];
+  }
+  const last = Number(lastEventId);
+  return recentEvents.filter((event) => Number(event.id) > last);
+}
+
+/**
+ * Subscribe to live events; returns an unsubscribe function
+ */
+export function subscribeToNodeEvents(listener: (event: NodeEvent) => void): () => void {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
+
+/**
+ * Restore state that has to survive restarts from the event log and stored snapshots:
+ * known pubkeys (retained history only) and the last event id, so ids keep increasing.
+ */
+async function restoreFromHistory(): Promise<void> {
+  const now = Date.now();
+  let hasLog = false;
+  for await (const batch of eventLogStore.iterate(0, now)) {
+    hasLog = true;
+    for (const event of batch.events) {
+      knownPubkeys.add(event.pubkey);
+      lastIdValue = Math.max(lastIdValue, Number(event.id) || 0);
+    }
+  }
+  if (!hasLog) {
+    // Empty batch marks when tracking started, so reports know what was observed
+    await eventLogStore.append({ timestamp: now, events: [] });
+  }
+  for await (const snapshot of iterateSnapshots(0, now)) {
+    rememberPubkeys(snapshot.nodes);
+  }
+
+  const snapshot = await getLatestSnapshot();
+  if (snapshot && previousNodes === null) {
+    previousNodes = snapshot.nodes;
+  }
+}
+
+/**
+ * Start diffing gossip refreshes
+ * The latest stored snapshot is used as the baseline so a restart doesn't report every node as first seen.
+ */
+export function startNodeEventTracking(): void {
+  restoreFromHistory()
+    .then(() => {
+      console.log(`✅ Node event tracking started (${eventLogStore.type} event log, ${EVENT_LOG_RETENTION_DAYS}d retention, ${knownPubkeys.size} known pubkeys)`);
+    })
+    .catch((error) => {
+      console.warn('⚠️ Failed to restore node event history:', error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      onPNodesRefreshed((nodes) => {
+        processNodesRefresh(nodes);
+      });
+    });
+}
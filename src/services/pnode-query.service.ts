@@ -0,0 +1,36 @@
+/**
+ * pNode Query Service
+ *
+ * Evaluates /pnodes filters that need data beyond the PNode itself
+ * (geo country, health tier) by joining cached metrics and map data.
+ */
+
+import { getAllPNodes } from "./pnode.service";
+import { getCachedNodeMetrics } from "./analytics.service";
+import { getMapNodes } from "./map.service";
+import {
+  PNodeQuery,
+  PNodeQueryContext,
+  PNodeQueryResult,
+  applyPNodeQuery,
+  queryNeedsCountries,
+  queryNeedsMetrics,
+} from "../utils/pnode-query";
+
+export async function queryPNodes(query: PNodeQuery): Promise<PNodeQueryResult> {
+  const nodes = await getAllPNodes();
+  const context: PNodeQueryContext = {};
+
+  if (queryNeedsMetrics(query)) {
+    const metrics = await getCachedNodeMetrics();
+    context.metricsByPubkey = new Map(metrics.map((m) => [m.pubkey, m]));
+  }
+
+  if (queryNeedsCountries(query)) {
+    // Nodes whose geo lookup fails have no country and never match a country filter
+    const mapNodes = await getMapNodes();
+    context.countryByPubkey = new Map(mapNodes.map((m) => [m.pubkey, m.country]));
+  }
+
+  return applyPNodeQuery(nodes, query, context);
+}
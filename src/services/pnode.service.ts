@@ -1,72 +1,207 @@
-import { prpcClient } from "../config/prpc";
-import { SEED_IPS } from "../config/prpc";
-import { PrpcClient } from "xandeum-prpc";
+import { prpcClient, createPrpcClient, SEED_IPS } from "../config/prpc";
+import { PrpcClient, Pod } from "xandeum-prpc";
 import { nodeCacheService, statsCacheService, analyticsCacheService } from "./redis.service";
 import { enrichNodesWithCachedStats } from "./stats-enrichment.service";
 import { normalizePNode } from "../utils/format";
-import { PNode, NodeStats } from "../types/pnode";
+import { mergePodsByFreshness, MergedPods } from "../utils/pod-merge";
+import { isExpectedPrpcError } from "../utils/prpc-errors";
+import { extractIp } from "../utils/address";
+import { recordSeedSuccess, recordSeedFailure, rankSeeds, shouldQuerySeed } from "./seed-health.service";
+import { getActiveSeeds, updatePromotedSeeds } from "./seed-registry.service";
+import { timePrpcCall } from "./metrics.service";
+import { PNode, NodeStats, SeedCoverage, SeedCoverageReport } from "../types/pnode";
 
 const CACHE_KEY = "pnodes";
 const CACHE_TTL_MS = 30 * 1000;
 
-async function discoverPNodesViaGossip(): Promise<PNode[]> {
-  const discoveredNodes: PNode[] = [];
-  
-  try {
-    let response;
+type PNodesRefreshListener = (nodes: PNode[]) => void;
+const refreshListeners: PNodesRefreshListener[] = [];
+
+/**
+ * Register a listener called with the deduplicated nodes after every fresh gossip discovery
+ * (cache hits do not trigger listeners)
+ */
+export function onPNodesRefreshed(listener: PNodesRefreshListener): void {
+  refreshListeners.push(listener);
+}
+
+function notifyPNodesRefreshed(nodes: PNode[]): void {
+  for (const listener of refreshListeners) {
     try {
-      response = await prpcClient.getPodsWithStats();
-    } catch (statsError) {
-      response = await prpcClient.getPods();
+      listener(nodes);
+    } catch (error) {
+      // A failing listener must not break node discovery
+      console.error('❌ Error in pNodes refresh listener:', error);
     }
-    
-    for (const pod of response.pods) {
-      try {
-        const normalized = normalizePNode(pod);
-        if (normalized.pubkey) {
-          discoveredNodes.push(normalized);
-        }
-      } catch (error) {
-        // Continue processing other nodes
-      }
+  }
+}
+
+interface SeedFetchResult {
+  seed: string;
+  pods: Pod[];
+  method?: "getPodsWithStats" | "getPods";
+  latencyMs: number;
+  error?: string;
+  skipped?: boolean;
+}
+
+interface GossipDiscoveryResult {
+  pods: Pod[];
+  report: SeedCoverageReport;
+}
+
+const seedClients = new Map<string, PrpcClient>();
+let lastCoverageReport: SeedCoverageReport | null = null;
+let inflightDiscovery: Promise<GossipDiscoveryResult> | null = null;
+
+function getSeedClient(seed: string): PrpcClient {
+  if (seed === SEED_IPS[0]) {
+    return prpcClient;
+  }
+
+  let client = seedClients.get(seed);
+  if (!client) {
+    client = createPrpcClient(seed);
+    seedClients.set(seed, client);
+  }
+  return client;
+}
+
+/**
+ * Ask a single seed for its gossip view (getPodsWithStats, falling back to getPods)
+ */
+async function fetchPodsFromSeed(seed: string): Promise<SeedFetchResult> {
+  const client = getSeedClient(seed);
+  const startTime = Date.now();
+
+  try {
+    const response = await timePrpcCall("getPodsWithStats", () => client.getPodsWithStats());
+    const pods = response.pods || [];
+    const latencyMs = Date.now() - startTime;
+    recordSeedSuccess(seed, { latencyMs, podCount: pods.length, method: "getPodsWithStats" });
+    return { seed, pods, method: "getPodsWithStats", latencyMs };
+  } catch (statsError) {
+    try {
+      const response = await timePrpcCall("getPods", () => client.getPods());
+      const pods = response.pods || [];
+      const latencyMs = Date.now() - startTime;
+      recordSeedSuccess(seed, { latencyMs, podCount: pods.length, method: "getPods" });
+      return { seed, pods, method: "getPods", latencyMs };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      recordSeedFailure(seed, { latencyMs, error });
+      return {
+        seed,
+        pods: [],
+        latencyMs,
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
-    
-    if (discoveredNodes.length > 0) {
-      return discoveredNodes;
+  }
+}
+
+function buildCoverageReport(results: SeedFetchResult[], merged: MergedPods): SeedCoverageReport {
+  const seeds: SeedCoverage[] = results.map((result) => {
+    const pubkeys = Array.from(new Set(result.pods.map((p) => p.pubkey).filter((k): k is string => !!k)));
+    const uniquePubkeys = pubkeys.filter((k) => merged.seedsByPubkey.get(k)?.length === 1).length;
+    const freshestPubkeys = pubkeys.filter((k) => merged.freshestSeedByPubkey.get(k) === result.seed).length;
+
+    const coverage: SeedCoverage = {
+      seed: result.seed,
+      ok: !result.error,
+      latencyMs: result.latencyMs,
+      podCount: result.pods.length,
+      pubkeys,
+      uniquePubkeys,
+      freshestPubkeys,
+    };
+    if (result.method) coverage.method = result.method;
+    if (result.error) coverage.error = result.error;
+    if (result.skipped) coverage.skipped = true;
+    return coverage;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalPubkeys: merged.pods.length,
+    respondingSeeds: seeds.filter((s) => s.ok).length,
+    seeds,
+  };
+}
+
+/**
+ * Query every seed concurrently and merge their views by pubkey, keeping the freshest data
+ * Seeds are ordered by health so healthier seeds win timestamp ties; seeds that are down
+ * are skipped until their retry interval passes. Concurrent callers share a single in-flight discovery.
+ */
+async function discoverPodsViaGossip(): Promise<GossipDiscoveryResult> {
+  if (inflightDiscovery) {
+    return inflightDiscovery;
+  }
+
+  inflightDiscovery = (async () => {
+    const activeSeeds = getActiveSeeds();
+    const rankedSeeds = rankSeeds(activeSeeds);
+    let seedsToQuery = rankedSeeds.filter((seed) => shouldQuerySeed(seed));
+    if (seedsToQuery.length === 0) {
+      // Every seed is backing off; try them all rather than return nothing
+      seedsToQuery = rankedSeeds;
     }
-  } catch (error) {
-    // Try fallback seeds
+
+    const results = await Promise.all(
+      rankedSeeds.map((seed): Promise<SeedFetchResult> => seedsToQuery.includes(seed)
+        ? fetchPodsFromSeed(seed)
+        : Promise.resolve({ seed, pods: [], latencyMs: 0, skipped: true, error: "Skipped: seed is down" }))
+    );
+    const merged = mergePodsByFreshness(results.map(({ seed, pods }) => ({ seed, pods })));
+    const report = buildCoverageReport(results, merged);
+
+    lastCoverageReport = report;
+    console.log(`   Seeds responding: ${report.respondingSeeds}/${seedsToQuery.length} queried (${activeSeeds.length} active), ${report.totalPubkeys} unique pubkeys`);
+
+    // Promote long-lived public pods to seeds in the background
+    updatePromotedSeeds(merged.pods);
+
+    return { pods: merged.pods, report };
+  })();
+
+  try {
+    return await inflightDiscovery;
+  } finally {
+    inflightDiscovery = null;
   }
-  
-  // Fallback: try other seed IPs if primary fails
-  for (let i = 1; i < SEED_IPS.length && discoveredNodes.length === 0; i++) {
+}
+
+async function discoverPNodesViaGossip(): Promise<PNode[]> {
+  const { pods } = await discoverPodsViaGossip();
+  const discoveredNodes: PNode[] = [];
+
+  for (const pod of pods) {
     try {
-      const fallbackClient = new PrpcClient(SEED_IPS[i], { timeout: 5000 });
-      const response = await fallbackClient.getPods();
-      
-      for (const pod of response.pods) {
-        try {
-          const normalized = normalizePNode(pod);
-          if (normalized.pubkey) {
-            discoveredNodes.push(normalized);
-          }
-        } catch (error) {
-          // Continue processing other nodes
-        }
-      }
-      
-      // If we got nodes from fallback, break
-      if (discoveredNodes.length > 0) {
-        break;
+      const normalized = normalizePNode(pod);
+      if (normalized.pubkey) {
+        discoveredNodes.push(normalized);
       }
     } catch (error) {
-      // Continue to next seed IP
+      // Continue processing other nodes
     }
   }
 
   return discoveredNodes;
 }
 
+/**
+ * Per-seed coverage report from the most recent gossip discovery
+ * Runs a discovery if none has happened yet.
+ */
+export async function getSeedCoverageReport(): Promise<SeedCoverageReport> {
+  if (lastCoverageReport) {
+    return lastCoverageReport;
+  }
+  const { report } = await discoverPodsViaGossip();
+  return report;
+}
+
 /**
  * Get all pNodes, using cache if available
  * Deduplicates nodes by pubkey to ensure consistency
@@ -85,8 +220,8 @@ export async function getAllPNodes(): Promise<PNode[]> {
   const nodes = await discoverPNodesViaGossip();
   console.log(`   Found ${nodes.length} nodes from gossip`);
 
-  // Deduplicate by pubkey (keep first occurrence)
-  // This ensures consistency between /pnodes and /analytics/summary
+  // Pods are already merged by pubkey across seeds; this is a safety net
+  // that keeps /pnodes and /analytics/summary consistent
   const seen = new Map<string, PNode>();
   const uniqueNodes: PNode[] = [];
   
@@ -106,6 +241,8 @@ export async function getAllPNodes(): Promise<PNode[]> {
   await nodeCacheService.set(CACHE_KEY, uniqueNodes, CACHE_TTL_MS);
   console.log(`   ✅ Cached ${uniqueNodes.length} nodes in Redis`);
 
+  notifyPNodesRefreshed(uniqueNodes);
+
   // Enrich nodes with RAM data from Redis cache (non-blocking, fast)
   const enrichedNodes = await enrichNodesWithCachedStats(uniqueNodes);
 
@@ -141,14 +278,13 @@ export async function getNodeStatsByPubkey(pubkey: string): Promise<NodeStats |
       return null;
     }
 
-    const nodeAddress = node.address || node.ip;
-    if (!nodeAddress) {
+    const nodeIp = extractIp(node.address || node.ip);
+    if (!nodeIp) {
       return null;
     }
 
-    const nodeIp = nodeAddress.split(':')[0];
-    const nodeClient = new PrpcClient(nodeIp, { timeout: 8000 });
-    const stats = await nodeClient.getStats();
+    const nodeClient = createPrpcClient(nodeIp, 8000);
+    const stats = await timePrpcCall("getStats", () => nodeClient.getStats());
 
     if (stats) {
       await statsCacheService.set(CACHE_KEY, stats, CACHE_TTL_MS);
@@ -156,14 +292,7 @@ export async function getNodeStatsByPubkey(pubkey: string): Promise<NodeStats |
 
     return stats;
   } catch (error) {
-    const isExpectedError = error instanceof Error && (
-      error.message.includes('timeout') ||
-      error.message.includes('timed out') ||
-      error.message.includes('ECONNREFUSED') ||
-      error.message.includes('ENOTFOUND') ||
-      error.message.includes('EHOSTUNREACH') ||
-      error.message.includes('ETIMEDOUT')
-    );
+    const isExpectedError = isExpectedPrpcError(error);
     
     if (!isExpectedError) {
       console.error(`Unexpected error fetching stats for node ${pubkey}:`, error);
@@ -173,25 +302,17 @@ export async function getNodeStatsByPubkey(pubkey: string): Promise<NodeStats |
   }
 }
 
-export async function getRawPodsForAnalytics(): Promise<import("xandeum-prpc").Pod[]> {
+export async function getRawPodsForAnalytics(): Promise<Pod[]> {
   const CACHE_KEY_ANALYTICS = "pods_raw_analytics";
   const CACHE_TTL_MS_ANALYTICS = 60 * 1000;
 
-  const cached = await analyticsCacheService.get<import("xandeum-prpc").Pod[]>(CACHE_KEY_ANALYTICS);
+  const cached = await analyticsCacheService.get<Pod[]>(CACHE_KEY_ANALYTICS);
   if (cached) {
     return cached;
   }
 
-  try {
-    const response = await prpcClient.getPodsWithStats();
-    const pods = response.pods || [];
-    await analyticsCacheService.set(CACHE_KEY_ANALYTICS, pods, CACHE_TTL_MS_ANALYTICS);
-    return pods;
-  } catch (error) {
-    const response = await prpcClient.getPods();
-    const pods = response.pods || [];
-    await analyticsCacheService.set(CACHE_KEY_ANALYTICS, pods, CACHE_TTL_MS_ANALYTICS);
-    return pods;
-  }
+  // Same merged multi-seed view as /pnodes
+  const { pods } = await discoverPodsViaGossip();
+  await analyticsCacheService.set(CACHE_KEY_ANALYTICS, pods, CACHE_TTL_MS_ANALYTICS);
+  return pods;
 }
-
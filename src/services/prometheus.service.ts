@@ -0,0 +1,115 @@
+/**
+ * Prometheus Service
+ *
+ * Builds the /metrics payload: network gauges from the analytics summary,
+ * per-node gauges (labelled by pubkey, version and country) from node metrics
+ * and cached NodeStats, plus internal instrumentation from metrics.service.
+ */
+
+import { getAllPNodes } from "./pnode.service";
+import { getAnalyticsSummary, getCachedNodeMetrics, getVersionDistribution } from "./analytics.service";
+import { getCachedNodeStats } from "./stats-enrichment.service";
+import { getMapNodes } from "./map.service";
+import { getInternalMetricFamilies } from "./metrics.service";
+import { Labels, MetricFamily, MetricType, renderMetricFamilies } from "../utils/prometheus";
+import { NetworkHealth } from "../types/pnode";
+
+const NETWORK_HEALTH_STATES: NetworkHealth[] = ["healthy", "degraded", "unstable"];
+
+function gauge(name: string, help: string, value: number): MetricFamily {
+  return { name, help, type: "gauge", samples: [{ value }] };
+}
+
+async function getNetworkMetricFamilies(): Promise<MetricFamily[]> {
+  const [summary, versions] = await Promise.all([
+    getAnalyticsSummary(),
+    getVersionDistribution(),
+  ]);
+
+  return [
+    gauge("xandeum_network_pnodes", "Deduplicated pNodes seen via gossip", summary.totalPNodes),
+    gauge("xandeum_network_pnodes_online", "pNodes seen within the online threshold", summary.onlinePNodes),
+    gauge("xandeum_network_online_percentage", "Share of pNodes online (0-100)", summary.onlinePercentage),
+    gauge("xandeum_network_pods", "Pods reported by pRPC gossip", summary.totalPods),
+    gauge("xandeum_network_pods_active", "Pods seen within the online threshold", summary.activePods),
+    gauge("xandeum_network_average_uptime_seconds", "Average uptime of online pNodes", summary.averageUptime),
+    gauge("xandeum_network_storage_used_bytes", "Storage used across all pNodes", summary.totalStorageUsed),
+    gauge("xandeum_network_storage_committed_bytes", "Storage committed across all pods", summary.totalStorageCapacity),
+    {
+      name: "xandeum_network_health",
+      help: "Network health state (1 for the current state)",
+      type: "gauge",
+      samples: NETWORK_HEALTH_STATES.map((state) => ({
+        labels: { state },
+        value: summary.networkHealth === state ? 1 : 0,
+      })),
+    },
+    {
+      name: "xandeum_network_version_pnodes",
+      help: "pNodes per reported version",
+      type: "gauge",
+      samples: versions.map(({ version, count }) => ({ labels: { version }, value: count })),
+    },
+  ];
+}
+
+async function getNodeMetricFamilies(): Promise<MetricFamily[]> {
+  const [nodes, metrics, mapNodes] = await Promise.all([
+    getAllPNodes(),
+    getCachedNodeMetrics(),
+    getMapNodes(),
+  ]);
+  const statsByPubkey = await getCachedNodeStats(nodes);
+  const metricsByPubkey = new Map(metrics.map((m) => [m.pubkey, m]));
+  const countryByPubkey = new Map(mapNodes.map((m) => [m.pubkey, m.country]));
+
+  const families = new Map<string, MetricFamily>();
+  const add = (name: string, help: string, type: MetricType, labels: Labels, value: number | undefined) => {
+    if (value === undefined || !Number.isFinite(value)) return;
+    let family = families.get(name);
+    if (!family) {
+      family = { name, help, type, samples: [] };
+      families.set(name, family);
+    }
+    family.samples.push({ labels, value });
+  };
+
+  for (const node of nodes) {
+    if (!node.pubkey) continue;
+    const labels = {
+      pubkey: node.pubkey,
+      version: node.version || "unknown",
+      country: countryByPubkey.get(node.pubkey) || "unknown",
+    };
+    const nodeMetrics = metricsByPubkey.get(node.pubkey);
+    const stats = statsByPubkey[node.pubkey];
+
+    add("xandeum_node_online", "1 if the pNode is online", "gauge", labels, node.status === "online" ? 1 : 0);
+    add("xandeum_node_uptime_seconds", "Uptime reported via gossip", "gauge", labels, node.uptime);
+    add("xandeum_node_storage_used_bytes", "Storage used", "gauge", labels, node.storageUsed);
+    add("xandeum_node_storage_committed_bytes", "Storage committed", "gauge", labels, node.storageCommitted ?? node.storageTotal);
+    add("xandeum_node_last_seen_timestamp_seconds", "Last gossip heartbeat", "gauge", labels, node.lastSeenTimestamp);
+    add("xandeum_node_health_score", "Health score (0-100)", "gauge", labels, nodeMetrics?.healthScore);
+    add("xandeum_node_uptime_24h_percent", "Share of the last 24h online (0-100)", "gauge", labels, nodeMetrics?.uptime24h);
+    add("xandeum_node_storage_utilization_percent", "Storage used / committed (0-100)", "gauge", labels, nodeMetrics?.storageUtilization);
+    add("xandeum_node_cpu_percent", "CPU usage from cached NodeStats", "gauge", labels, stats?.cpu_percent);
+    add("xandeum_node_ram_used_bytes", "RAM used from cached NodeStats", "gauge", labels, stats?.ram_used);
+    add("xandeum_node_ram_total_bytes", "RAM total from cached NodeStats", "gauge", labels, stats?.ram_total);
+    add("xandeum_node_active_streams", "Active streams from cached NodeStats", "gauge", labels, stats?.active_streams);
+    add("xandeum_node_packets_received_total", "Packets received from cached NodeStats", "counter", labels, stats?.packets_received);
+    add("xandeum_node_packets_sent_total", "Packets sent from cached NodeStats", "counter", labels, stats?.packets_sent);
+  }
+
+  return Array.from(families.values());
+}
+
+/**
+ * Render all metrics in Prometheus text exposition format
+ */
+export async function renderPrometheusMetrics(): Promise<string> {
+  const [network, nodes] = await Promise.all([
+    getNetworkMetricFamilies(),
+    getNodeMetricFamilies(),
+  ]);
+  return renderMetricFamilies([...network, ...nodes, ...getInternalMetricFamilies()]);
+}
@@ -7,6 +7,7 @@
 
 import Redis from 'ioredis';
 import { cacheService } from './cache.service';
+import { recordCacheLookup } from './metrics.service';
 
 let redisClient: Redis | null = null;
 let redisAvailable = false;
@@ -59,6 +60,17 @@ export async function initRedis(): Promise<void> {
   }
 }
 
+/**
+ * Get the underlying Redis client when connected
+ * Returns null if Redis is unavailable so callers can fall back to local storage
+ */
+export function getRedisClient(): Redis | null {
+  if (!redisAvailable || !redisClient) {
+    return null;
+  }
+  return redisClient;
+}
+
 /**
  * Get value from Redis cache
  */
@@ -105,11 +117,14 @@ export class GeoCacheService {
     // Try Redis first
     const redisValue = await getFromRedis<T>(redisKey);
     if (redisValue) {
+      recordCacheLookup('geo', true);
       return redisValue;
     }
 
     // Fallback to in-memory cache
-    return cacheService.get<T>(key);
+    const value = cacheService.get<T>(key);
+    recordCacheLookup('geo', value !== null);
+    return value;
   }
 
   /**
@@ -142,9 +157,11 @@ export const geoCacheService = new GeoCacheService();
  */
 export class RedisCacheService {
   private keyPrefix: string;
+  private name: string; // Cache label for metrics, e.g. "nodes"
 
   constructor(keyPrefix: string) {
     this.keyPrefix = keyPrefix;
+    this.name = keyPrefix.replace(/^xandeum:|:$/g, '');
   }
 
   /**
@@ -156,11 +173,14 @@ export class RedisCacheService {
     // Try Redis first
     const redisValue = await getFromRedis<T>(redisKey);
     if (redisValue) {
+      recordCacheLookup(this.name, true);
       return redisValue;
     }
 
     // Fallback to in-memory cache
-    return cacheService.get<T>(key);
+    const value = cacheService.get<T>(key);
+    recordCacheLookup(this.name, value !== null);
+    return value;
   }
 
   /**
@@ -0,0 +1,148 @@
+/**
+ * Seed Health Service
+ *
+ * Tracks the outcome of every gossip call per seed (latency, pod count, error
+ * category, supported method) and ranks seeds so discovery prefers healthy ones.
+ */
+
+import { categorizePrpcError } from "../utils/prpc-errors";
+import { SeedHealth, SeedStatus } from "../types/pnode";
+
+const DOWN_AFTER_FAILURES = 3;
+const SLOW_LATENCY_MS = 5000;
+// Seeds marked down are only retried after this long
+const DOWN_RETRY_INTERVAL_MS = 5 * 60 * 1000;
+const LATENCY_EWMA_ALPHA = 0.3;
+
+interface SeedRecord {
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastLatencyMs?: number;
+  averageLatencyMs?: number;
+  lastPodCount?: number;
+  lastMethod?: "getPodsWithStats" | "getPods";
+  lastErrorCategory?: string;
+  lastError?: string;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+}
+
+const seedRecords = new Map<string, SeedRecord>();
+
+function getRecord(seed: string): SeedRecord {
+  let record = seedRecords.get(seed);
+  if (!record) {
+    record = { consecutiveFailures: 0, totalSuccesses: 0, totalFailures: 0 };
+    seedRecords.set(seed, record);
+  }
+  return record;
+}
+
+/**
+ * Record a successful gossip call to a seed
+ */
+export function recordSeedSuccess(
+  seed: string,
+  result: { latencyMs: number; podCount: number; method: "getPodsWithStats" | "getPods" }
+): void {
+  const record = getRecord(seed);
+  record.lastSuccessAt = Date.now();
+  record.lastLatencyMs = result.latencyMs;
+  record.averageLatencyMs = record.averageLatencyMs === undefined
+    ? result.latencyMs
+    : Math.round(LATENCY_EWMA_ALPHA * result.latencyMs + (1 - LATENCY_EWMA_ALPHA) * record.averageLatencyMs);
+  record.lastPodCount = result.podCount;
+  record.lastMethod = result.method;
+  record.consecutiveFailures = 0;
+  record.totalSuccesses++;
+}
+
+/**
+ * Record a failed gossip call to a seed
+ */
+export function recordSeedFailure(seed: string, result: { latencyMs: number; error: unknown }): void {
+  const record = getRecord(seed);
+  record.lastFailureAt = Date.now();
+  record.lastLatencyMs = result.latencyMs;
+  record.lastErrorCategory = categorizePrpcError(result.error);
+  record.lastError = result.error instanceof Error ? result.error.message : String(result.error);
+  record.consecutiveFailures++;
+  record.totalFailures++;
+}
+
+function statusOf(record: SeedRecord | undefined): SeedStatus {
+  if (!record || (record.lastSuccessAt === undefined && record.lastFailureAt === undefined)) {
+    return "unknown";
+  }
+  if (record.consecutiveFailures >= DOWN_AFTER_FAILURES) {
+    return "down";
+  }
+  if (record.consecutiveFailures > 0 ||
+      record.lastMethod === "getPods" ||
+      (record.averageLatencyMs ?? 0) > SLOW_LATENCY_MS) {
+    return "degraded";
+  }
+  return "healthy";
+}
+
+const STATUS_RANK: Record<SeedStatus, number> = {
+  healthy: 0,
+  unknown: 1,
+  degraded: 2,
+  down: 3,
+};
+
+/**
+ * Order seeds best-first: healthy (fastest first), then untried, degraded and down
+ */
+export function rankSeeds(seeds: string[]): string[] {
+  return [...seeds].sort((a, b) => {
+    const recordA = seedRecords.get(a);
+    const recordB = seedRecords.get(b);
+    const rankDiff = STATUS_RANK[statusOf(recordA)] - STATUS_RANK[statusOf(recordB)];
+    if (rankDiff !== 0) return rankDiff;
+    return (recordA?.averageLatencyMs ?? Infinity) - (recordB?.averageLatencyMs ?? Infinity);
+  });
+}
+
+/**
+ * Whether a seed should be queried now (down seeds are retried periodically)
+ */
+export function shouldQuerySeed(seed: string, now: number = Date.now()): boolean {
+  const record = seedRecords.get(seed);
+  if (statusOf(record) !== "down") return true;
+  return now - (record?.lastFailureAt ?? 0) >= DOWN_RETRY_INTERVAL_MS;
+}
+
+/**
+ * Health of the given seeds, best first
+ */
+export function getSeedHealth(seeds: string[]): SeedHealth[] {
+  return rankSeeds(seeds).map((seed) => {
+    const record = seedRecords.get(seed);
+    const health: SeedHealth = {
+      seed,
+      status: statusOf(record),
+      consecutiveFailures: record?.consecutiveFailures ?? 0,
+      totalSuccesses: record?.totalSuccesses ?? 0,
+      totalFailures: record?.totalFailures ?? 0,
+    };
+
+    if (!record) return health;
+
+    if (record.lastSuccessAt !== undefined) health.lastSuccessAt = new Date(record.lastSuccessAt).toISOString();
+    if (record.lastFailureAt !== undefined) health.lastFailureAt = new Date(record.lastFailureAt).toISOString();
+    if (record.lastLatencyMs !== undefined) health.lastLatencyMs = record.lastLatencyMs;
+    if (record.averageLatencyMs !== undefined) health.averageLatencyMs = record.averageLatencyMs;
+    if (record.lastPodCount !== undefined) health.lastPodCount = record.lastPodCount;
+    if (record.lastMethod !== undefined) {
+      health.lastMethod = record.lastMethod;
+      health.supportsPodsWithStats = record.lastMethod === "getPodsWithStats";
+    }
+    if (record.lastErrorCategory !== undefined) health.lastErrorCategory = record.lastErrorCategory;
+    if (record.lastError !== undefined) health.lastError = record.lastError;
+
+    return health;
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Seed Registry Service
+ *
+ * Maintains the active gossip seed list: configured seeds (env / config file)
+ * plus long-lived public pods promoted at runtime after answering getPods.
+ * Promoted seeds are persisted in Redis so they survive restarts, which keeps
+ * discovery working when the original seeds are decommissioned.
+ */
+
+import { Pod } from "xandeum-prpc";
+import { SEED_IPS, PRPC_PORT, createPrpcClient } from "../config/prpc";
+import { getRedisClient } from "./redis.service";
+import { getSeedHealth } from "./seed-health.service";
+import { timePrpcCall } from "./metrics.service";
+import { extractIp } from "../utils/address";
+
+const REDIS_PROMOTED_SEEDS_KEY = "xandeum:seeds:promoted";
+const MAX_PROMOTED_SEEDS = Number(process.env.MAX_PROMOTED_SEEDS) || 16;
+const PROMOTION_MIN_UPTIME_SECONDS = (Number(process.env.SEED_PROMOTION_MIN_UPTIME_HOURS) || 72) * 60 * 60;
+const ONLINE_THRESHOLD_SECONDS = Number(process.env.ONLINE_THRESHOLD_SECONDS) || 300;
+const MAX_PROBES_PER_RUN = 3;
+const PROBE_TIMEOUT_MS = 5000;
+const REJECTED_RETRY_MS = 60 * 60 * 1000; // Don't re-probe a failed candidate for 1 hour
+const DEMOTE_AFTER_MS = 24 * 60 * 60 * 1000; // Drop promoted seeds unreachable for 24 hours
+
+export type SeedSource = "configured" | "promoted";
+
+interface PromotedSeed {
+  ip: string;
+  pubkey?: string;
+  promotedAt: number;
+}
+
+const promotedSeeds = new Map<string, PromotedSeed>();
+const rejectedUntil = new Map<string, number>();
+let isPromoting = false;
+
+/**
+ * Configured seeds followed by promoted seeds
+ */
+export function getActiveSeeds(): string[] {
+  const seeds = [...SEED_IPS];
+  for (const ip of promotedSeeds.keys()) {
+    if (!seeds.includes(ip)) {
+      seeds.push(ip);
+    }
+  }
+  return seeds;
+}
+
+export function getSeedSource(seed: string): SeedSource {
+  return SEED_IPS.includes(seed) ? "configured" : "promoted";
+}
+
+async function persistPromotedSeeds(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    await client.set(REDIS_PROMOTED_SEEDS_KEY, JSON.stringify(Array.from(promotedSeeds.values())));
+  } catch (error) {
+    console.warn('⚠️ Failed to persist promoted seeds:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Restore promoted seeds from Redis (call after Redis is initialized)
+ */
+export async function loadPromotedSeeds(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  try {
+    const value = await client.get(REDIS_PROMOTED_SEEDS_KEY);
+    if (!value) return;
+
+    const seeds = JSON.parse(value) as PromotedSeed[];
+    for (const seed of seeds) {
+      if (seed.ip && !SEED_IPS.includes(seed.ip)) {
+        promotedSeeds.set(seed.ip, seed);
+      }
+    }
+    console.log(`✅ Restored ${promotedSeeds.size} promoted gossip seeds`);
+  } catch (error) {
+    console.warn('⚠️ Failed to load promoted seeds:', error instanceof Error ? error.message : error);
+  }
+}
+
+function podIp(pod: Pod): string | null {
+  return extractIp(pod.address);
+}
+
+/**
+ * Public pods that have been up long enough and expose the pRPC port
+ */
+function findPromotionCandidates(pods: Pod[], now: number): Array<{ ip: string; pod: Pod }> {
+  const activeSeeds = new Set(getActiveSeeds());
+  const thresholdTime = Math.floor(now / 1000) - ONLINE_THRESHOLD_SECONDS;
+
+  return pods
+    .filter((pod) =>
+      pod.is_public === true &&
+      pod.rpc_port === PRPC_PORT &&
+      pod.last_seen_timestamp >= thresholdTime &&
+      (pod.uptime || 0) >= PROMOTION_MIN_UPTIME_SECONDS
+    )
+    .map((pod) => ({ ip: podIp(pod), pod }))
+    .filter((c): c is { ip: string; pod: Pod } =>
+      c.ip !== null && !activeSeeds.has(c.ip) && (rejectedUntil.get(c.ip) ?? 0) <= now
+    )
+    // Longest-running pods first
+    .sort((a, b) => (b.pod.uptime || 0) - (a.pod.uptime || 0));
+}
+
+async function probeSeed(ip: string): Promise<boolean> {
+  try {
+    const response = await timePrpcCall("getPods", () => createPrpcClient(ip, PROBE_TIMEOUT_MS).getPods());
+    return (response.pods || []).length > 0;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Drop promoted seeds that have been unreachable for too long
+ */
+function demoteUnreachableSeeds(now: number): boolean {
+  let changed = false;
+  const health = getSeedHealth(Array.from(promotedSeeds.keys()));
+
+  for (const seedHealth of health) {
+    if (seedHealth.status !== "down") continue;
+
+    const promoted = promotedSeeds.get(seedHealth.seed);
+    const lastSuccess = seedHealth.lastSuccessAt ? Date.parse(seedHealth.lastSuccessAt) : promoted?.promotedAt ?? 0;
+    if (now - lastSuccess >= DEMOTE_AFTER_MS) {
+      promotedSeeds.delete(seedHealth.seed);
+      console.log(`🔻 Demoted gossip seed ${seedHealth.seed} (unreachable for 24h)`);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Promote long-lived public pods from a gossip result to seeds, and demote dead promoted seeds
+ * Runs in the background after discovery; overlapping runs are skipped.
+ */
+export async function updatePromotedSeeds(pods: Pod[]): Promise<void> {
+  if (isPromoting) return;
+  isPromoting = true;
+
+  try {
+    const now = Date.now();
+    let changed = demoteUnreachableSeeds(now);
+
+    const slots = MAX_PROMOTED_SEEDS - promotedSeeds.size;
+    if (slots > 0) {
+      const candidates = findPromotionCandidates(pods, now).slice(0, Math.min(slots, MAX_PROBES_PER_RUN));
+
+      for (const { ip, pod } of candidates) {
+        if (await probeSeed(ip)) {
+          promotedSeeds.set(ip, { ip, pubkey: pod.pubkey, promotedAt: now });
+          console.log(`🔺 Promoted public pod ${ip} to gossip seed`);
+          changed = true;
+        } else {
+          rejectedUntil.set(ip, now + REJECTED_RETRY_MS);
+        }
+      }
+    }
+
+    if (changed) {
+      await persistPromotedSeeds();
+    }
+  } catch (error) {
+    // Don't throw - this runs in the background
+    console.error('❌ Error updating promoted seeds:', error);
+  } finally {
+    isPromoting = false;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * SLA Service
+ *
+ * Monthly availability reports per node, replayed from the persisted node
+ * event log, so reports are available for EVENT_LOG_RETENTION_DAYS.
+ */
+
+import { getPNodeByPubkey } from "./pnode.service";
+import { getNodeEventHistory } from "./node-events.service";
+import { buildSlaReport } from "../utils/sla-report";
+import { NodeSlaReport } from "../types/pnode";
+
+const ONLINE_THRESHOLD_SECONDS = Number(process.env.ONLINE_THRESHOLD_SECONDS) || 300;
+
+/**
+ * Availability report for one node and month (YYYY-MM, validated by the caller)
+ *
+ * @returns null if the pubkey is neither in gossip nor in the event log
+ */
+export async function getNodeSlaReport(pubkey: string, month: string): Promise<NodeSlaReport | null> {
+  const now = Date.now();
+  // Later events are read too: their previous state tells what the node was doing during the month
+  const [node, history] = await Promise.all([
+    getPNodeByPubkey(pubkey),
+    getNodeEventHistory(pubkey, now),
+  ]);
+
+  if (!node && history.events.length === 0) {
+    return null;
+  }
+
+  return buildSlaReport({
+    pubkey,
+    month,
+    events: history.events,
+    observedSince: history.observedSince,
+    currentStatus: node?.status ?? null,
+    onlineThresholdSeconds: ONLINE_THRESHOLD_SECONDS,
+    now,
+  });
+}
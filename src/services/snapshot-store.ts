@@ -0,0 +1,272 @@
+/**
+ * Snapshot Stores
+ *
+ * Pluggable storage backends for gossip snapshots and other timestamped records.
+ * - memory: bounded in-process array (lost on restart)
+ * - file: daily JSONL files on local disk
+ * - redis: sorted set scored by snapshot timestamp (falls back to memory if Redis is down)
+ */
+
+import { promises as fs, createReadStream } from "fs";
+import path from "path";
+import readline from "readline";
+import { getRedisClient } from "./redis.service";
+import { PNodeSnapshot } from "../types/pnode";
+
+export type SnapshotStoreType = "memory" | "file" | "redis";
+
+export interface TimestampedRecord {
+  timestamp: number; // Unix ms
+}
+
+export interface SnapshotStore<T extends TimestampedRecord = PNodeSnapshot> {
+  readonly type: SnapshotStoreType;
+  /**
+   * Persist a snapshot
+   */
+  append(snapshot: T): Promise<void>;
+  /**
+   * Iterate snapshots with from <= timestamp <= to, oldest first
+   */
+  iterate(from: number, to: number): AsyncIterable<T>;
+  /**
+   * Most recent snapshot, if any
+   */
+  latest(): Promise<T | null>;
+  /**
+   * Delete snapshots older than the given timestamp
+   * Returns the number of snapshots removed (best effort for file store)
+   */
+  prune(before: number): Promise<number>;
+}
+
+/**
+ * In-memory snapshot store
+ * Used for local development and as a fallback when Redis is unavailable
+ */
+export class MemorySnapshotStore<T extends TimestampedRecord = PNodeSnapshot> implements SnapshotStore<T> {
+  readonly type: SnapshotStoreType = "memory";
+  private snapshots: T[] = [];
+
+  async append(snapshot: T): Promise<void> {
+    this.snapshots.push(snapshot);
+    this.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async *iterate(from: number, to: number): AsyncIterable<T> {
+    for (const snapshot of this.snapshots) {
+      if (snapshot.timestamp >= from && snapshot.timestamp <= to) {
+        yield snapshot;
+      }
+    }
+  }
+
+  async latest(): Promise<T | null> {
+    return this.snapshots[this.snapshots.length - 1] || null;
+  }
+
+  async prune(before: number): Promise<number> {
+    const initial = this.snapshots.length;
+    this.snapshots = this.snapshots.filter((s) => s.timestamp >= before);
+    return initial - this.snapshots.length;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * File-backed snapshot store
+ * Writes one JSON line per snapshot into a file per UTC day (YYYY-MM-DD.jsonl),
+ * so range queries only open the days they cover and retention drops whole files.
+ */
+export class FileSnapshotStore<T extends TimestampedRecord = PNodeSnapshot> implements SnapshotStore<T> {
+  readonly type: SnapshotStoreType = "file";
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileForDay(dayStart: number): string {
+    const day = new Date(dayStart).toISOString().slice(0, 10);
+    return path.join(this.directory, `${day}.jsonl`);
+  }
+
+  private async listDayFiles(): Promise<Array<{ dayStart: number; file: string }>> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      return [];
+    }
+
+    return entries
+      .filter((name) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+      .map((name) => ({
+        dayStart: Date.parse(`${name.slice(0, 10)}T00:00:00Z`),
+        file: path.join(this.directory, name),
+      }))
+      .sort((a, b) => a.dayStart - b.dayStart);
+  }
+
+  async append(snapshot: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const dayStart = Math.floor(snapshot.timestamp / DAY_MS) * DAY_MS;
+    await fs.appendFile(this.fileForDay(dayStart), JSON.stringify(snapshot) + "\n", "utf8");
+  }
+
+  async *iterate(from: number, to: number): AsyncIterable<T> {
+    const files = await this.listDayFiles();
+
+    for (const { dayStart, file } of files) {
+      if (dayStart + DAY_MS <= from || dayStart > to) continue;
+
+      const lines = readline.createInterface({
+        input: createReadStream(file, { encoding: "utf8" }),
+        crlfDelay: Infinity,
+      });
+
+      for await (const line of lines) {
+        if (!line) continue;
+        try {
+          const snapshot = JSON.parse(line) as T;
+          if (snapshot.timestamp >= from && snapshot.timestamp <= to) {
+            yield snapshot;
+          }
+        } catch (error) {
+          // Skip partially written lines
+        }
+      }
+    }
+  }
+
+  async latest(): Promise<T | null> {
+    const files = await this.listDayFiles();
+
+    for (let i = files.length - 1; i >= 0; i--) {
+      let latest: T | null = null;
+      for await (const snapshot of this.iterate(files[i].dayStart, files[i].dayStart + DAY_MS - 1)) {
+        latest = snapshot;
+      }
+      if (latest) return latest;
+    }
+
+    return null;
+  }
+
+  async prune(before: number): Promise<number> {
+    const files = await this.listDayFiles();
+    let removed = 0;
+
+    for (const { dayStart, file } of files) {
+      // Only drop days that are entirely older than the cutoff
+      if (dayStart + DAY_MS <= before) {
+        await fs.unlink(file).catch(() => undefined);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
+
+const REDIS_SNAPSHOT_KEY = "xandeum:snapshots";
+
+/**
+ * Redis-backed snapshot store
+ * Snapshots are members of a sorted set scored by timestamp.
+ * Falls back to an in-memory store while Redis is unavailable.
+ */
+export class RedisSnapshotStore<T extends TimestampedRecord = PNodeSnapshot> implements SnapshotStore<T> {
+  readonly type: SnapshotStoreType = "redis";
+  private fallback = new MemorySnapshotStore<T>();
+  private key: string;
+
+  constructor(key: string = REDIS_SNAPSHOT_KEY) {
+    this.key = key;
+  }
+
+  async append(snapshot: T): Promise<void> {
+    const client = getRedisClient();
+    if (!client) {
+      await this.fallback.append(snapshot);
+      return;
+    }
+
+    try {
+      await client.zadd(this.key, snapshot.timestamp, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn('⚠️ Redis snapshot append failed, keeping snapshot in memory:', error instanceof Error ? error.message : error);
+      await this.fallback.append(snapshot);
+    }
+  }
+
+  async *iterate(from: number, to: number): AsyncIterable<T> {
+    const client = getRedisClient();
+    if (!client) {
+      yield* this.fallback.iterate(from, to);
+      return;
+    }
+
+    // Page through the range so large windows don't load every snapshot at once
+    const PAGE_SIZE = 50;
+    let offset = 0;
+
+    while (true) {
+      const members = await client.zrangebyscore(this.key, from, to, "LIMIT", offset, PAGE_SIZE);
+      for (const member of members) {
+        try {
+          yield JSON.parse(member) as T;
+        } catch (error) {
+          // Skip corrupt members
+        }
+      }
+      if (members.length < PAGE_SIZE) break;
+      offset += PAGE_SIZE;
+    }
+  }
+
+  async latest(): Promise<T | null> {
+    const client = getRedisClient();
+    if (!client) {
+      return this.fallback.latest();
+    }
+
+    const [member] = await client.zrevrange(this.key, 0, 0);
+    return member ? (JSON.parse(member) as T) : null;
+  }
+
+  async prune(before: number): Promise<number> {
+    const removedFromMemory = await this.fallback.prune(before);
+    const client = getRedisClient();
+    if (!client) {
+      return removedFromMemory;
+    }
+
+    // Exclusive upper bound: keep snapshots taken exactly at the cutoff
+    const removed = await client.zremrangebyscore(this.key, "-inf", `(${before}`);
+    return removed + removedFromMemory;
+  }
+}
+
+/**
+ * Create a snapshot store for the configured backend
+ * `directory` and `redisKey` keep different record types apart.
+ */
+export function createSnapshotStore<T extends TimestampedRecord = PNodeSnapshot>(
+  type: string,
+  directory: string,
+  redisKey: string = REDIS_SNAPSHOT_KEY
+): SnapshotStore<T> {
+  switch (type) {
+    case "memory":
+      return new MemorySnapshotStore<T>();
+    case "redis":
+      return new RedisSnapshotStore<T>(redisKey);
+    case "file":
+      return new FileSnapshotStore<T>(directory);
+    default:
+      console.warn(`⚠️ Unknown SNAPSHOT_STORE "${type}", using file store`);
+      return new FileSnapshotStore<T>(directory);
+  }
+}
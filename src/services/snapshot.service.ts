@@ -0,0 +1,122 @@
+/**
+ * Snapshot Service
+ *
+ * Records the discovered pNodes and raw pods on a fixed schedule so that
+ * historical questions ("how did the network look yesterday?") can be answered.
+ * Storage backend and retention are configured via environment variables.
+ */
+
+import path from "path";
+import { getAllPNodes, getRawPodsForAnalytics } from "./pnode.service";
+import { getCachedNodeStats } from "./stats-enrichment.service";
+import { createSnapshotStore, SnapshotStore } from "./snapshot-store";
+import { PNodeSnapshot } from "../types/pnode";
+
+const SNAPSHOT_INTERVAL_MS = Number(process.env.SNAPSHOT_INTERVAL_MS) || 5 * 60 * 1000; // 5 minutes
+const SNAPSHOT_RETENTION_HOURS = Number(process.env.SNAPSHOT_RETENTION_HOURS) || 7 * 24; // 7 days
+const SNAPSHOT_STORE = process.env.SNAPSHOT_STORE || "file";
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || path.join(process.cwd(), "data", "snapshots");
+
+const snapshotStore: SnapshotStore = createSnapshotStore(SNAPSHOT_STORE, SNAPSHOT_DIR);
+
+// Prevent overlapping snapshot runs
+let isRunning = false;
+
+/**
+ * Capture the current gossip state and persist it, then apply retention
+ */
+export async function takeSnapshot(): Promise<PNodeSnapshot | null> {
+  if (isRunning) {
+    return null;
+  }
+
+  isRunning = true;
+
+  try {
+    const [nodes, pods] = await Promise.all([
+      getAllPNodes(),
+      getRawPodsForAnalytics(),
+    ]);
+
+    const snapshot: PNodeSnapshot = {
+      timestamp: Date.now(),
+      nodes,
+      pods,
+      stats: await getCachedNodeStats(nodes),
+    };
+
+    await snapshotStore.append(snapshot);
+
+    const cutoff = snapshot.timestamp - SNAPSHOT_RETENTION_HOURS * 60 * 60 * 1000;
+    await snapshotStore.prune(cutoff);
+
+    console.log(`📸 Snapshot saved (${nodes.length} nodes, ${pods.length} pods, ${snapshotStore.type} store)`);
+    return snapshot;
+  } catch (error) {
+    // Don't throw - this is a background job
+    console.error('❌ Error taking gossip snapshot:', error);
+    return null;
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Get snapshots within [from, to] (Unix ms), oldest first
+ */
+export async function getSnapshots(from: number, to: number): Promise<PNodeSnapshot[]> {
+  const snapshots: PNodeSnapshot[] = [];
+  for await (const snapshot of snapshotStore.iterate(from, to)) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+/**
+ * Stream snapshots within [from, to] (Unix ms) without loading them all into memory
+ */
+export function iterateSnapshots(from: number, to: number): AsyncIterable<PNodeSnapshot> {
+  return snapshotStore.iterate(from, to);
+}
+
+/**
+ * Get the most recent stored snapshot
+ */
+export async function getLatestSnapshot(): Promise<PNodeSnapshot | null> {
+  return snapshotStore.latest();
+}
+
+/**
+ * Configured snapshot cadence, used by consumers to size their sampling windows
+ */
+export function getSnapshotIntervalMs(): number {
+  return SNAPSHOT_INTERVAL_MS;
+}
+
+/**
+ * Start background snapshot job
+ */
+let snapshotInterval: NodeJS.Timeout | null = null;
+
+export function startSnapshotJob(): void {
+  // Run immediately on start
+  takeSnapshot();
+
+  // Then run periodically
+  snapshotInterval = setInterval(() => {
+    takeSnapshot();
+  }, SNAPSHOT_INTERVAL_MS);
+
+  console.log(`✅ Snapshot job started (every ${Math.round(SNAPSHOT_INTERVAL_MS / 1000)}s, ${snapshotStore.type} store, ${SNAPSHOT_RETENTION_HOURS}h retention)`);
+}
+
+/**
+ * Stop background snapshot job
+ */
+export function stopSnapshotJob(): void {
+  if (snapshotInterval) {
+    clearInterval(snapshotInterval);
+    snapshotInterval = null;
+    console.log('🔌 Snapshot job stopped');
+  }
+}
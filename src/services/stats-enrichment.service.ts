@@ -7,7 +7,8 @@
 
 import { getAllPNodes, getNodeStatsByPubkey } from "./pnode.service";
 import { statsCacheService } from "./redis.service";
-import { PNode } from "../types/pnode";
+import { recordEnrichmentRun } from "./metrics.service";
+import { PNode, NodeStats } from "../types/pnode";
 
 const ENRICHMENT_INTERVAL_MS = 90 * 1000; // Run every 90 seconds (give more time for completion)
 const BATCH_SIZE = 15; // Process 15 nodes at a time (increase batch size)
@@ -35,6 +36,26 @@ async function enrichNodeWithStats(node: PNode): Promise<PNode> {
   return node;
 }
 
+/**
+ * Get NodeStats already cached for the given nodes, keyed by pubkey (no pRPC calls)
+ */
+export async function getCachedNodeStats(nodes: PNode[]): Promise<Record<string, NodeStats>> {
+  const entries = await Promise.all(
+    nodes.map(async (node) => {
+      const stats = await statsCacheService.get<NodeStats>(`node_stats_${node.pubkey}`);
+      return [node.pubkey, stats] as const;
+    })
+  );
+
+  const statsByPubkey: Record<string, NodeStats> = {};
+  for (const [pubkey, stats] of entries) {
+    if (stats) {
+      statsByPubkey[pubkey] = stats;
+    }
+  }
+  return statsByPubkey;
+}
+
 /**
  * Pre-fetch stats for all online nodes and cache in Redis
  * This runs in the background to keep Redis cache warm
@@ -100,6 +121,7 @@ export async function preFetchAllNodeStats(): Promise<void> {
       }
     }
     
+    recordEnrichmentRun(Date.now() - startTime);
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`✅ Pre-fetch complete (${duration}s): ${successCount} fetched, ${cachedCount} from cache, ${failCount} failed`);
     console.log(`   📊 Total cached: ${successCount + cachedCount}/${onlineNodes.length} nodes (${((successCount + cachedCount) / onlineNodes.length * 100).toFixed(1)}%)`);
@@ -0,0 +1,275 @@
+/**
+ * Storage Forecast Service
+ *
+ * Records network-wide and per-node storage on a fixed schedule with a long
+ * retention (gossip snapshots are too heavy to keep for months), and fits growth
+ * trends to predict when utilization crosses the configured thresholds.
+ * On first start the history is seeded from the stored gossip snapshots.
+ */
+
+import path from "path";
+import { getAllPNodes } from "./pnode.service";
+import { getAnalyticsSummary } from "./analytics.service";
+import { iterateSnapshots } from "./snapshot.service";
+import { createSnapshotStore, SnapshotStore } from "./snapshot-store";
+import { forecastCrossings, forecastSeries, parsePercentList, TimedValue } from "../utils/forecast";
+import {
+  NetworkStorageForecast,
+  NodeStorageForecast,
+  NodeStorageOutlook,
+  PNode,
+  PNodeSnapshot,
+  StorageForecast,
+  StorageSample,
+  ThresholdCrossing,
+} from "../types/pnode";
+
+const STORAGE_HISTORY_INTERVAL_MS = Number(process.env.STORAGE_HISTORY_INTERVAL_MS) || 60 * 60 * 1000; // 1 hour
+const STORAGE_HISTORY_RETENTION_DAYS = Number(process.env.STORAGE_HISTORY_RETENTION_DAYS) || 180;
+const STORAGE_HISTORY_DIR = process.env.STORAGE_HISTORY_DIR || path.join(process.cwd(), "data", "storage-history");
+export const DEFAULT_FORECAST_HORIZON_MS = 90 * 24 * 60 * 60 * 1000;
+
+function loadForecastThresholds(): number[] {
+  const value = process.env.STORAGE_FORECAST_THRESHOLDS;
+  if (!value) return [80, 90, 95];
+
+  const thresholds = parsePercentList(value);
+  if (!thresholds) {
+    throw new Error(`Invalid STORAGE_FORECAST_THRESHOLDS: "${value}" (expected comma-separated percentages in (0, 100])`);
+  }
+  return thresholds;
+}
+
+export const storageForecastThresholds: number[] = loadForecastThresholds();
+
+const storageHistoryStore: SnapshotStore<StorageSample> = createSnapshotStore<StorageSample>(
+  process.env.SNAPSHOT_STORE || "file",
+  STORAGE_HISTORY_DIR,
+  "xandeum:storage-history"
+);
+
+function nodeStorage(nodes: PNode[]): StorageSample["nodes"] {
+  const storage: StorageSample["nodes"] = {};
+  for (const node of nodes) {
+    storage[node.pubkey] = [node.storageUsed || 0, node.storageCommitted ?? node.storageTotal ?? 0];
+  }
+  return storage;
+}
+
+/**
+ * Same totals as getAnalyticsSummary(), computed from a stored gossip snapshot
+ */
+function sampleFromSnapshot(snapshot: PNodeSnapshot): StorageSample {
+  return {
+    timestamp: snapshot.timestamp,
+    totalStorageUsed: snapshot.nodes.reduce((sum, n) => sum + (n.storageUsed || 0), 0),
+    totalStorageCapacity: snapshot.pods.reduce((sum, pod) => sum + (pod.storage_committed && pod.storage_committed > 0 ? pod.storage_committed : 0), 0),
+    nodes: nodeStorage(snapshot.nodes),
+  };
+}
+
+/**
+ * Record the current storage totals
+ */
+export async function recordStorageSample(): Promise<StorageSample | null> {
+  try {
+    const [summary, nodes] = await Promise.all([getAnalyticsSummary(), getAllPNodes()]);
+    const sample: StorageSample = {
+      timestamp: Date.now(),
+      totalStorageUsed: summary.totalStorageUsed,
+      totalStorageCapacity: summary.totalStorageCapacity,
+      nodes: nodeStorage(nodes),
+    };
+
+    await storageHistoryStore.append(sample);
+    await storageHistoryStore.prune(sample.timestamp - STORAGE_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    return sample;
+  } catch (error) {
+    // Don't throw - this is a background job
+    console.error('❌ Error recording storage sample:', error);
+    return null;
+  }
+}
+
+/**
+ * Seed an empty history with one gossip snapshot per interval
+ */
+async function seedFromSnapshots(): Promise<void> {
+  if (await storageHistoryStore.latest()) return;
+
+  let lastTimestamp = -Infinity;
+  let count = 0;
+  for await (const snapshot of iterateSnapshots(0, Date.now())) {
+    if (snapshot.timestamp - lastTimestamp < STORAGE_HISTORY_INTERVAL_MS) continue;
+    await storageHistoryStore.append(sampleFromSnapshot(snapshot));
+    lastTimestamp = snapshot.timestamp;
+    count++;
+  }
+
+  if (count > 0) {
+    console.log(`✅ Storage history seeded from ${count} gossip snapshots`);
+  }
+}
+
+/**
+ * Start background storage history job
+ */
+let storageHistoryInterval: NodeJS.Timeout | null = null;
+
+export function startStorageHistoryJob(): void {
+  // Seed first so the live sample doesn't make the history look non-empty
+  seedFromSnapshots()
+    .catch((error) => {
+      console.warn('⚠️ Failed to seed storage history from snapshots:', error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      recordStorageSample();
+    });
+
+  storageHistoryInterval = setInterval(() => {
+    recordStorageSample();
+  }, STORAGE_HISTORY_INTERVAL_MS);
+
+  console.log(`✅ Storage history job started (every ${Math.round(STORAGE_HISTORY_INTERVAL_MS / 1000)}s, ${storageHistoryStore.type} store, ${STORAGE_HISTORY_RETENTION_DAYS}d retention)`);
+}
+
+/**
+ * Stop background storage history job
+ */
+export function stopStorageHistoryJob(): void {
+  if (storageHistoryInterval) {
+    clearInterval(storageHistoryInterval);
+    storageHistoryInterval = null;
+    console.log('🔌 Storage history job stopped');
+  }
+}
+
+/**
+ * Default training window: everything still retained
+ */
+export function defaultForecastFrom(to: number): number {
+  return to - STORAGE_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+interface StorageSeries {
+  used: TimedValue[];
+  capacity: TimedValue[];
+  utilization: TimedValue[];
+}
+
+function emptySeries(): StorageSeries {
+  return { used: [], capacity: [], utilization: [] };
+}
+
+function addPoint(series: StorageSeries, timestamp: number, used: number, capacity: number): void {
+  series.used.push({ timestamp, value: used });
+  series.capacity.push({ timestamp, value: capacity });
+  if (capacity > 0) {
+    series.utilization.push({ timestamp, value: (used / capacity) * 100 });
+  }
+}
+
+function buildForecast(
+  series: StorageSeries,
+  from: number,
+  to: number,
+  horizonMs: number,
+  thresholds: number[]
+): StorageForecast {
+  const utilization = forecastSeries(series.utilization, horizonMs);
+  const lastTimestamp = series.used[series.used.length - 1]?.timestamp ?? to;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    from,
+    to,
+    horizonMs,
+    sampleCount: series.used.length,
+    storageUsed: forecastSeries(series.used, horizonMs).forecast,
+    storageCapacity: forecastSeries(series.capacity, horizonMs).forecast,
+    utilization: utilization.forecast,
+    crossings: forecastCrossings(utilization.trend, utilization.forecast.current, thresholds, lastTimestamp, horizonMs),
+  };
+}
+
+/**
+ * Earliest expected crossing, with thresholds already exceeded ranked first
+ */
+function urgency(crossings: ThresholdCrossing[]): number {
+  if (crossings.some((c) => c.alreadyExceeded)) return -Infinity;
+  const expected = crossings.map((c) => c.expectedAt).filter((t): t is number => t !== null);
+  return expected.length > 0 ? Math.min(...expected) : Infinity;
+}
+
+/**
+ * Network-wide storage forecast plus a compact outlook for every node
+ */
+export async function getStorageForecast(
+  from: number,
+  to: number,
+  horizonMs: number,
+  thresholds: number[] = storageForecastThresholds
+): Promise<NetworkStorageForecast> {
+  const network = emptySeries();
+  const byNode = new Map<string, StorageSeries>();
+
+  for await (const sample of storageHistoryStore.iterate(from, to)) {
+    addPoint(network, sample.timestamp, sample.totalStorageUsed, sample.totalStorageCapacity);
+    for (const [pubkey, [used, committed]] of Object.entries(sample.nodes)) {
+      let series = byNode.get(pubkey);
+      if (!series) {
+        series = emptySeries();
+        byNode.set(pubkey, series);
+      }
+      addPoint(series, sample.timestamp, used, committed);
+    }
+  }
+
+  const nodes: NodeStorageOutlook[] = [];
+  for (const [pubkey, series] of byNode) {
+    const lastUsed = series.used[series.used.length - 1];
+    const lastCapacity = series.capacity[series.capacity.length - 1];
+    const utilization = forecastSeries(series.utilization, horizonMs);
+    const preferred = utilization.forecast.fits.find((fit) => fit.model === utilization.forecast.preferredModel);
+
+    nodes.push({
+      pubkey,
+      storageUsed: lastUsed.value,
+      storageCommitted: lastCapacity.value,
+      utilizationPercent: utilization.forecast.current ?? 0,
+      slopePerDay: preferred?.slopePerDay ?? null,
+      crossings: forecastCrossings(utilization.trend, utilization.forecast.current, thresholds, lastUsed.timestamp, horizonMs),
+    });
+  }
+  nodes.sort((a, b) => urgency(a.crossings) - urgency(b.crossings) || b.utilizationPercent - a.utilizationPercent);
+
+  return { ...buildForecast(network, from, to, horizonMs, thresholds), nodes };
+}
+
+/**
+ * Storage forecast for one node (storageUsed vs storageCommitted)
+ *
+ * @returns null if the node has no recorded samples in the window
+ */
+export async function getNodeStorageForecast(
+  pubkey: string,
+  from: number,
+  to: number,
+  horizonMs: number,
+  thresholds: number[] = storageForecastThresholds
+): Promise<NodeStorageForecast | null> {
+  const series = emptySeries();
+
+  for await (const sample of storageHistoryStore.iterate(from, to)) {
+    const storage = sample.nodes[pubkey];
+    if (storage) {
+      addPoint(series, sample.timestamp, storage[0], storage[1]);
+    }
+  }
+
+  if (series.used.length === 0) {
+    return null;
+  }
+
+  return { pubkey, ...buildForecast(series, from, to, horizonMs, thresholds) };
+}
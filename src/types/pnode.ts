@@ -1,7 +1,17 @@
+import type { Pod } from "xandeum-prpc";
+
 export type PNodeStatus = "online" | "offline";
 
 export type NetworkHealth = "healthy" | "degraded" | "unstable";
 
+/**
+ * Body of every 4xx/5xx JSON response
+ */
+export interface ErrorResponse {
+  error: string;
+  message: string;
+}
+
 export interface PNode {
   pubkey: string;
   status: PNodeStatus;
@@ -9,10 +19,10 @@ export interface PNode {
   storageUsed: number;
   storageTotal: number;
   uptime: number;
-  ip: string;
+  ip: string; // Bare IP parsed from address (falls back to the raw address)
   lastSeen: string;
   // Additional Pod fields
-  address?: string;
+  address?: string; // As reported by gossip: "v4:port" or "[v6]:port"
   isPublic?: boolean;
   rpcPort?: number;
   storageCommitted?: number;
@@ -50,6 +60,57 @@ export interface VersionDistribution {
   count: number;
 }
 
+/**
+ * Latest / minimum supported versions a compliance report was evaluated against
+ */
+export interface VersionPolicy {
+  latest: string | null; // null when no node reports a parseable version
+  latestSource: "configured" | "observed";
+  minimumSupported: string | null;
+}
+
+/**
+ * Node listed in a version compliance report
+ */
+export interface ComplianceNode {
+  pubkey: string;
+  version: string;
+  status: PNodeStatus;
+  address?: string;
+  lastSeen: string;
+}
+
+/**
+ * Adoption of one major.minor release series
+ */
+export interface VersionSeriesAdoption {
+  series: string; // "<major>.<minor>"
+  major: number;
+  minor: number;
+  count: number;
+  percent: number; // Share of all nodes
+  versions: VersionDistribution[]; // Exact versions in the series, newest first
+}
+
+/**
+ * Nodes behind the latest release or below the minimum supported one
+ */
+export interface VersionCompliance {
+  generatedAt: string;
+  policy: VersionPolicy;
+  totalNodes: number;
+  onLatest: number;
+  aheadOfLatest: number; // e.g. prereleases of the next version
+  behindLatest: number;
+  belowMinimum: number;
+  unparseable: number;
+  latestAdoptionPercent: number; // Share of all nodes on or ahead of latest
+  adoption: VersionSeriesAdoption[]; // Newest series first
+  nodesBehindLatest: ComplianceNode[]; // Oldest version first
+  nodesBelowMinimum: ComplianceNode[];
+  nodesWithUnparseableVersion: ComplianceNode[];
+}
+
 /**
  * NodeStats from xandeum-prpc getStats() method
  * Represents detailed statistics for a specific pNode
@@ -93,6 +154,43 @@ export interface NodeMetrics {
   tier: "Excellent" | "Good" | "Poor";
 }
 
+/**
+ * One factor's share of a node's health score
+ */
+export interface HealthScoreComponent {
+  factor: "uptime" | "storage" | "online" | "versionCurrency" | "ram" | "cpu";
+  value: number; // Factor value on a 0-100 scale (higher is better)
+  weight: number; // Normalized weight (weights of all components sum to 1)
+  contribution: number; // value * weight, in score points
+}
+
+/**
+ * Health score breakdown for a node
+ */
+export interface HealthScoreExplanation {
+  score: number;
+  tier: "Excellent" | "Good" | "Poor";
+  components: HealthScoreComponent[];
+  thresholds: { excellent: number; good: number };
+}
+
+/**
+ * Health score breakdown with the raw inputs it was computed from
+ */
+export interface NodeScoreExplanation extends HealthScoreExplanation {
+  pubkey: string;
+  inputs: {
+    uptime24h: number;
+    uptime24hSource: "observed" | "heuristic";
+    storageUtilization: number;
+    isOnline: boolean;
+    version: string;
+    consensusVersion: string;
+    ramPercent?: number;
+    cpuPercent?: number;
+  };
+}
+
 /**
  * Top performing node
  */
@@ -139,6 +237,99 @@ export interface MapNode {
   lastSeen: string;
 }
 
+/**
+ * Bounding box as [minLng, minLat, maxLng, maxLat]
+ * minLng > maxLng means the box crosses the antimeridian.
+ */
+export type BoundingBox = [number, number, number, number];
+
+/**
+ * Group of nearby map nodes at one zoom level
+ */
+export interface MapCluster {
+  id: string; // "<zoom>:<cellX>:<cellY>", stable while the nodes don't move
+  lat: number; // Centroid
+  lng: number;
+  count: number;
+  online: number;
+  offline: number;
+  averageHealthScore: number;
+  bounds: BoundingBox; // Extent of the member nodes
+  expansionZoom: number; // First zoom level at which the cluster splits
+}
+
+/**
+ * Clustered map response: clusters of 2+ nodes plus nodes that stand alone
+ */
+export interface MapClusterResult {
+  zoom: number;
+  bbox: BoundingBox | null;
+  clusters: MapCluster[];
+  nodes: MapNode[];
+}
+
+/**
+ * Member nodes of a single cluster
+ */
+export interface MapClusterExpansion {
+  cluster: MapCluster;
+  nodes: MapNode[];
+}
+
+/**
+ * GeoJSON position as [lng, lat] (RFC 7946)
+ */
+export type GeoJsonPosition = [number, number];
+
+export interface GeoJsonPoint {
+  type: "Point";
+  coordinates: GeoJsonPosition;
+}
+
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: GeoJsonPosition[][]; // Closed linear rings, exterior ring first
+}
+
+export interface MapNodeFeatureProperties extends MapNode {
+  kind: "node";
+}
+
+/**
+ * Aggregate of the map nodes in one country
+ */
+export interface CountryFeatureProperties {
+  kind: "country";
+  country: string;
+  count: number;
+  online: number;
+  offline: number;
+  averageHealthScore: number;
+}
+
+export interface MapNodeFeature {
+  type: "Feature";
+  id: string; // pubkey
+  geometry: GeoJsonPoint;
+  properties: MapNodeFeatureProperties;
+}
+
+export interface CountryFeature {
+  type: "Feature";
+  id: string; // "country:<name>"
+  geometry: GeoJsonPolygon; // Extent of the country's nodes, not its border
+  properties: CountryFeatureProperties;
+}
+
+/**
+ * Map data as a GeoJSON FeatureCollection
+ */
+export interface MapFeatureCollection {
+  type: "FeatureCollection";
+  bbox?: BoundingBox; // Extent of all node points
+  features: Array<MapNodeFeature | CountryFeature>;
+}
+
 /**
  * Geographic summary analytics
  */
@@ -147,3 +338,424 @@ export interface GeoSummary {
   regions: Array<{ region: string; count: number }>;
 }
 
+/**
+ * Health, storage and version mix of the located nodes in one country or region
+ */
+export interface GeoHealthAggregate {
+  nodes: number;
+  onlineNodes: number;
+  onlinePercentage: number;
+  averageHealthScore: number | null; // null if no node has metrics yet
+  averageUptime24h: number | null;
+  totalStorageCommitted: number; // Bytes
+  totalStorageUsed: number; // Bytes
+  versions: Array<{ version: string; count: number; percentage: number }>; // Most common first
+}
+
+export interface CountryHealth extends GeoHealthAggregate {
+  country: string;
+}
+
+export interface RegionHealth extends GeoHealthAggregate {
+  region: string;
+  country: string; // Regions are grouped per country, so equal names in different countries stay apart
+}
+
+/**
+ * Per-country and per-region aggregates for /analytics/geo
+ */
+export interface GeoHealthReport {
+  generatedAt: string;
+  locatedNodes: number;
+  unlocatedNodes: number; // Nodes without a geo location, not included in any group
+  countries: CountryHealth[]; // Most nodes first
+  regions: RegionHealth[];
+}
+
+
+/**
+ * Point-in-time capture of a gossip discovery result
+ * Stored by the snapshot job for historical analytics
+ */
+export interface PNodeSnapshot {
+  timestamp: number; // Unix time in milliseconds when the snapshot was taken
+  nodes: PNode[];
+  pods: Pod[];
+  stats?: Record<string, NodeStats>; // Cached NodeStats by pubkey at snapshot time
+}
+
+/**
+ * Storage totals recorded by the storage history job
+ */
+export interface StorageSample {
+  timestamp: number; // Unix ms
+  totalStorageUsed: number;
+  totalStorageCapacity: number;
+  nodes: Record<string, [number, number]>; // pubkey -> [storageUsed, storageCommitted]
+}
+
+export type TrendModel = "linear" | "exponential";
+
+/**
+ * Least-squares fit of one growth model
+ */
+export interface TrendFit {
+  model: TrendModel;
+  r2: number;
+  rmse: number; // In the series' units
+  slopePerDay: number; // Absolute growth per day at the last point
+  dailyGrowthPercent: number; // Relative growth per day at the last point
+}
+
+/**
+ * Predicted value with an approximate 95% prediction interval
+ */
+export interface ForecastPoint {
+  timestamp: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Fits and projection for one series
+ */
+export interface SeriesForecast {
+  current: number | null; // Last observed value
+  fits: TrendFit[];
+  preferredModel: TrendModel | null; // Lowest RMSE; null with too few samples
+  projection: ForecastPoint[];
+}
+
+/**
+ * When utilization is expected to reach a threshold; null times mean not within the horizon
+ */
+export interface ThresholdCrossing {
+  thresholdPercent: number;
+  alreadyExceeded: boolean;
+  expectedAt: number | null;
+  earliestAt: number | null; // Upper band
+  latestAt: number | null; // Lower band
+}
+
+/**
+ * Storage growth forecast for the network or one node
+ */
+export interface StorageForecast {
+  generatedAt: string;
+  from: number;
+  to: number;
+  horizonMs: number;
+  sampleCount: number;
+  storageUsed: SeriesForecast;
+  storageCapacity: SeriesForecast; // storageCommitted for a single node
+  utilization: SeriesForecast; // Percent
+  crossings: ThresholdCrossing[];
+}
+
+/**
+ * Compact per-node outlook listed in the network forecast
+ */
+export interface NodeStorageOutlook {
+  pubkey: string;
+  storageUsed: number;
+  storageCommitted: number;
+  utilizationPercent: number;
+  slopePerDay: number | null; // Utilization points per day from the preferred model
+  crossings: ThresholdCrossing[];
+}
+
+export interface NetworkStorageForecast extends StorageForecast {
+  nodes: NodeStorageOutlook[]; // Soonest expected crossing first
+}
+
+export interface NodeStorageForecast extends StorageForecast {
+  pubkey: string;
+}
+
+/**
+ * One downsampled point in a node's history
+ */
+export interface NodeHistorySample {
+  timestamp: number; // Bucket start (Unix ms)
+  status: PNodeStatus; // Status of the last sample in the bucket
+  onlineRatio: number; // Fraction of samples in the bucket that were online (0-1)
+  version: string;
+  storageUsed: number;
+  storageCommitted: number;
+  uptime: number;
+  ramUsed?: number;
+  stats?: NodeStats; // Last NodeStats seen in the bucket
+  sampleCount: number;
+}
+
+export type VersionTimelineInterval = "hourly" | "daily";
+
+/**
+ * Version distribution at the end of one timeline bucket
+ */
+export interface VersionTimelineBucket {
+  timestamp: number; // Bucket start (Unix ms, UTC-aligned)
+  snapshotTimestamp: number; // Last snapshot in the bucket
+  totalNodes: number;
+  versions: VersionDistribution[];
+}
+
+/**
+ * How quickly a version spread after it was first seen
+ * A node counts as adopted once it runs this version or a newer one.
+ */
+export interface VersionAdoption {
+  version: string;
+  firstSeenAt: number; // Unix ms
+  presentAtStart: boolean; // Already running in the first snapshot, so firstSeenAt is a lower bound
+  currentPercent: number; // Adoption in the last snapshot
+  reached50At: number | null;
+  timeTo50PercentMs: number | null;
+  reached90At: number | null;
+  timeTo90PercentMs: number | null;
+}
+
+/**
+ * Version rollout over time
+ */
+export interface VersionTimeline {
+  from: number;
+  to: number;
+  interval: VersionTimelineInterval;
+  step: number; // Bucket width in milliseconds
+  buckets: VersionTimelineBucket[];
+  adoption: VersionAdoption[]; // Newest version first
+}
+
+export type ChurnWindowLabel = "1h" | "24h" | "7d";
+
+/**
+ * Joins and leaves over one trailing window
+ */
+export interface ChurnWindow {
+  window: ChurnWindowLabel;
+  from: number; // Unix ms
+  to: number; // Unix ms (last observation)
+  complete: boolean; // false if observations started after `from`; counts then start at the first observation
+  joins: number;
+  leaves: number;
+  joinRatePerHour: number;
+  leaveRatePerHour: number;
+  nodesAtStart: number;
+  nodesAtEnd: number;
+  netChange: number;
+  presentThroughoutPercent: number; // Share of current nodes present for the whole window
+}
+
+/**
+ * Network churn from the pubkeys observed on every gossip refresh
+ */
+export interface ChurnReport {
+  generatedAt: string;
+  observedSince: number | null; // First observation (Unix ms); tenures are capped by it
+  currentNodes: number;
+  medianTenureMs: number | null; // Time current nodes have been continuously present
+  windows: ChurnWindow[];
+}
+
+/**
+ * Historical samples for a single node
+ */
+export interface NodeHistory {
+  pubkey: string;
+  from: number;
+  to: number;
+  step: number; // Bucket width in milliseconds
+  samples: NodeHistorySample[];
+}
+
+/**
+ * What a single seed returned during the last gossip discovery
+ */
+export interface SeedCoverage {
+  seed: string;
+  ok: boolean;
+  method?: "getPodsWithStats" | "getPods";
+  latencyMs: number;
+  podCount: number;
+  pubkeys: string[]; // Pubkeys this seed reported
+  uniquePubkeys: number; // Pubkeys only this seed reported
+  freshestPubkeys: number; // Pubkeys where this seed had the most recent last_seen_timestamp
+  error?: string;
+  skipped?: boolean; // Not queried because the seed is down and backing off
+}
+
+/**
+ * Per-seed coverage report for the last gossip discovery
+ */
+export interface SeedCoverageReport {
+  generatedAt: string;
+  totalPubkeys: number;
+  respondingSeeds: number;
+  seeds: SeedCoverage[];
+}
+
+export type SeedStatus = "healthy" | "degraded" | "down" | "unknown";
+
+/**
+ * Health record for a gossip seed
+ */
+export interface SeedHealth {
+  seed: string;
+  status: SeedStatus;
+  source?: "configured" | "promoted";
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastLatencyMs?: number;
+  averageLatencyMs?: number; // Exponentially weighted over recent successful calls
+  lastPodCount?: number;
+  lastMethod?: "getPodsWithStats" | "getPods";
+  supportsPodsWithStats?: boolean; // false when only getPods worked last time
+  lastErrorCategory?: string;
+  lastError?: string;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+}
+
+export type NodeEventType =
+  | "node_first_seen"
+  | "node_rejoined"
+  | "node_disappeared"
+  | "node_offline"
+  | "node_online"
+  | "node_restarted" // Uptime counter went down while the node stayed in gossip
+  | "version_upgraded"
+  | "version_downgraded"
+  | "version_changed" // Same semver precedence (e.g. build metadata only)
+  | "storage_commitment_changed"
+  | "address_changed";
+
+/**
+ * Node fields carried on lifecycle events
+ */
+export type NodeEventState = Partial<Pick<PNode, "status" | "version" | "address" | "storageCommitted" | "lastSeenTimestamp" | "uptime">>;
+
+/**
+ * Node lifecycle event detected between two consecutive gossip refreshes
+ */
+export interface NodeEvent {
+  id: string; // Monotonically increasing, usable as SSE Last-Event-ID
+  type: NodeEventType;
+  pubkey: string;
+  timestamp: string; // ISO time the change was detected
+  previous?: NodeEventState;
+  current?: NodeEventState;
+}
+
+/**
+ * Events detected in one gossip refresh, as persisted in the event log
+ */
+export interface NodeEventBatch {
+  timestamp: number; // Unix ms, same instant as each event's timestamp
+  events: NodeEvent[];
+}
+
+/**
+ * One page of GET /events
+ */
+export interface NodeEventPage {
+  count: number;
+  nextCursor: string | null;
+  items: NodeEvent[];
+}
+
+export type SlaOutageCause = "offline" | "missing"; // Stale last_seen_timestamp, or absent from gossip
+
+/**
+ * Period a node was not online within an SLA report, clipped to the report period
+ */
+export interface SlaOutage {
+  start: number; // Unix ms
+  end: number; // Unix ms
+  durationMs: number;
+  cause: SlaOutageCause;
+  ongoing: boolean; // Still down when the report was generated
+}
+
+export interface SlaVersionChange {
+  at: number; // Unix ms the change was detected
+  type: "version_upgraded" | "version_downgraded" | "version_changed";
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Monthly availability report for one node, replayed from the event log
+ */
+export interface NodeSlaReport {
+  pubkey: string;
+  month: string; // YYYY-MM (UTC)
+  from: number; // Month start (Unix ms)
+  to: number; // Month end, or the generation time for the current month
+  generatedAt: string;
+  onlineThresholdSeconds: number;
+  trackedFrom: number | null; // Start of observed history within the month (null if none)
+  trackedMs: number;
+  onlineMs: number;
+  availabilityPercent: number | null; // onlineMs / trackedMs
+  outageCount: number;
+  totalOutageMs: number;
+  longestOutageMs: number;
+  outages: SlaOutage[];
+  restarts: number;
+  versionChanges: SlaVersionChange[];
+}
+
+export type AlertStatus = "pending" | "firing" | "resolved";
+
+/**
+ * State of one alert rule for one subject (a pubkey, or "network")
+ */
+export interface Alert {
+  id: string; // `${ruleId}:${subject}`
+  ruleId: string;
+  ruleName: string;
+  subject: string;
+  status: AlertStatus;
+  value: number | string | boolean; // Last observed metric value
+  activeSince: string; // ISO time the condition started matching
+  firedAt?: string;
+  resolvedAt?: string;
+  lastEvaluatedAt: string;
+}
+
+export type IncidentStatus = "open" | "resolved";
+export type IncidentTrigger = "online_drop" | "correlated_outage";
+export type IncidentFactorKind = "country" | "version" | "seed";
+
+/**
+ * Attribute shared by an unusually large part of an incident's affected nodes
+ */
+export interface IncidentFactor {
+  kind: IncidentFactorKind;
+  value: string; // Country name, version string or seed address
+  affectedNodes: number; // Affected nodes with this value
+  totalNodes: number; // Known nodes with this value
+  affectedPercent: number; // Share of the affected nodes with this value
+  groupPercent: number; // Share of the nodes with this value that are affected
+}
+
+/**
+ * Network-wide outage, opened automatically when the online share drops or
+ * many nodes sharing a country, version or seed go down together
+ */
+export interface Incident {
+  id: string;
+  status: IncidentStatus;
+  trigger: IncidentTrigger;
+  summary: string;
+  startedAt: string; // ISO time the first affected node went down
+  endedAt: string | null;
+  updatedAt: string;
+  onlinePercentageBefore: number; // Highest online share in the window before the incident
+  lowestOnlinePercentage: number;
+  affectedPubkeys: string[];
+  commonFactors: IncidentFactor[];
+}
@@ -0,0 +1,752 @@
+/**
+ * Zod schemas for API responses
+ *
+ * These are the API contract: /openapi.json is generated from them and
+ * responses are validated against them in development. The compile-time
+ * checks at the bottom keep them in sync with the interfaces in ./pnode.
+ */
+
+import { z } from "zod";
+import type {
+  PNode,
+  AnalyticsSummary,
+  StorageAnalytics,
+  VersionDistribution,
+  NodeStats,
+  ExtendedSummary,
+  NodeMetrics,
+  NodeScoreExplanation,
+  TopNode,
+  StoragePressure,
+  MapNode,
+  MapCluster,
+  MapClusterResult,
+  MapClusterExpansion,
+  VersionCompliance,
+  VersionTimeline,
+  ChurnReport,
+  NetworkStorageForecast,
+  NodeStorageForecast,
+  MapNodeFeature,
+  CountryFeature,
+  MapFeatureCollection,
+  GeoLocation,
+  GeoSummary,
+  GeoHealthReport,
+  NodeHistory,
+  NodeSlaReport,
+  SeedCoverageReport,
+  SeedHealth,
+  NodeEvent,
+  NodeEventPage,
+  Alert,
+  Incident,
+  ErrorResponse,
+} from "./pnode";
+import { PROJECTABLE_FIELDS, SORTABLE_FIELDS } from "../utils/pnode-query";
+import { MAX_MAP_ZOOM } from "../utils/map-cluster";
+import { DEFAULT_EVENT_PAGE_SIZE, MAX_EVENT_PAGE_SIZE } from "../utils/event-log";
+import { AlertRuleInputSchema, PublicAlertRuleSchema } from "../utils/alert-rules";
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+});
+
+export const PNodeStatusSchema = z.enum(["online", "offline"]);
+export const NetworkHealthSchema = z.enum(["healthy", "degraded", "unstable"]);
+export const NodeTierSchema = z.enum(["Excellent", "Good", "Poor"]);
+
+export const PNodeSchema = z.object({
+  pubkey: z.string(),
+  status: PNodeStatusSchema,
+  version: z.string(),
+  storageUsed: z.number().describe("Bytes used"),
+  storageTotal: z.number().describe("Bytes committed (or used when no commitment is reported)"),
+  uptime: z.number().describe("Seconds since the pod started"),
+  ip: z.string().describe("IP parsed from address (IPv4 or IPv6, without port)"),
+  lastSeen: z.string().describe("ISO time of the last gossip heartbeat"),
+  address: z.string().optional().describe('Gossip address, "v4:port" or "[v6]:port"'),
+  isPublic: z.boolean().optional(),
+  rpcPort: z.number().int().optional(),
+  storageCommitted: z.number().optional(),
+  storageUsagePercent: z.number().optional(),
+  lastSeenTimestamp: z.number().optional().describe("Unix seconds"),
+  ramUsed: z.number().optional(),
+  ramTotal: z.number().optional(),
+});
+
+export const AnalyticsSummarySchema = z.object({
+  totalPNodes: z.number().int(),
+  onlinePNodes: z.number().int(),
+  onlinePercentage: z.number(),
+  totalPods: z.number().int(),
+  activePods: z.number().int(),
+  averageUptime: z.number(),
+  totalStorageUsed: z.number(),
+  totalStorageCapacity: z.number(),
+  totalStorageUsedTB: z.number(),
+  totalStorageCapacityTB: z.number(),
+  networkHealth: NetworkHealthSchema,
+  consensusVersion: z.string(),
+});
+
+export const StorageAnalyticsSchema = z.object({
+  pubkey: z.string(),
+  storageUsed: z.number(),
+  storageTotal: z.number(),
+  utilizationPercent: z.number(),
+});
+
+export const VersionDistributionSchema = z.object({
+  version: z.string(),
+  count: z.number().int(),
+});
+
+const ComplianceNodeSchema = z.object({
+  pubkey: z.string(),
+  version: z.string(),
+  status: PNodeStatusSchema,
+  address: z.string().optional(),
+  lastSeen: z.string(),
+});
+
+export const VersionComplianceSchema = z.object({
+  generatedAt: z.string(),
+  policy: z.object({
+    latest: z.string().nullable().describe("Null when no node reports a parseable version"),
+    latestSource: z.enum(["configured", "observed"]),
+    minimumSupported: z.string().nullable(),
+  }),
+  totalNodes: z.number().int(),
+  onLatest: z.number().int(),
+  aheadOfLatest: z.number().int(),
+  behindLatest: z.number().int(),
+  belowMinimum: z.number().int(),
+  unparseable: z.number().int(),
+  latestAdoptionPercent: z.number().describe("Share of all nodes on or ahead of latest"),
+  adoption: z.array(z.object({
+    series: z.string().describe("<major>.<minor>"),
+    major: z.number().int(),
+    minor: z.number().int(),
+    count: z.number().int(),
+    percent: z.number().describe("Share of all nodes"),
+    versions: z.array(VersionDistributionSchema),
+  })).describe("Newest series first"),
+  nodesBehindLatest: z.array(ComplianceNodeSchema).describe("Oldest version first"),
+  nodesBelowMinimum: z.array(ComplianceNodeSchema),
+  nodesWithUnparseableVersion: z.array(ComplianceNodeSchema),
+});
+
+export const VersionTimelineSchema = z.object({
+  from: z.number().describe("Unix ms"),
+  to: z.number().describe("Unix ms"),
+  interval: z.enum(["hourly", "daily"]),
+  step: z.number().describe("Bucket width in ms"),
+  buckets: z.array(z.object({
+    timestamp: z.number().describe("Bucket start (Unix ms, UTC-aligned)"),
+    snapshotTimestamp: z.number().describe("Last snapshot in the bucket (Unix ms)"),
+    totalNodes: z.number().int(),
+    versions: z.array(VersionDistributionSchema),
+  })),
+  adoption: z.array(z.object({
+    version: z.string(),
+    firstSeenAt: z.number().describe("Unix ms"),
+    presentAtStart: z.boolean().describe("Already running in the first snapshot of the range"),
+    currentPercent: z.number(),
+    reached50At: z.number().nullable(),
+    timeTo50PercentMs: z.number().nullable(),
+    reached90At: z.number().nullable(),
+    timeTo90PercentMs: z.number().nullable(),
+  })).describe("Newest version first; nodes on newer versions count as adopted"),
+});
+
+const ChurnWindowSchema = z.object({
+  window: z.enum(["1h", "24h", "7d"]),
+  from: z.number().describe("Unix ms"),
+  to: z.number().describe("Unix ms (last observation)"),
+  complete: z.boolean().describe("false if observations started after from; counts then start at the first observation"),
+  joins: z.number().int(),
+  leaves: z.number().int(),
+  joinRatePerHour: z.number(),
+  leaveRatePerHour: z.number(),
+  nodesAtStart: z.number().int(),
+  nodesAtEnd: z.number().int(),
+  netChange: z.number().int(),
+  presentThroughoutPercent: z.number().describe("Share of current nodes present for the whole window"),
+});
+
+export const ChurnReportSchema = z.object({
+  generatedAt: z.string(),
+  observedSince: z.number().nullable().describe("First observation (Unix ms); tenures are capped by it"),
+  currentNodes: z.number().int(),
+  medianTenureMs: z.number().nullable().describe("Time current nodes have been continuously present"),
+  windows: z.array(ChurnWindowSchema),
+});
+
+const ThresholdCrossingSchema = z.object({
+  thresholdPercent: z.number(),
+  alreadyExceeded: z.boolean(),
+  expectedAt: z.number().nullable().describe("Unix ms; null when not within the horizon"),
+  earliestAt: z.number().nullable().describe("Upper band crossing (Unix ms)"),
+  latestAt: z.number().nullable().describe("Lower band crossing (Unix ms)"),
+});
+
+const SeriesForecastSchema = z.object({
+  current: z.number().nullable().describe("Last observed value"),
+  fits: z.array(z.object({
+    model: z.enum(["linear", "exponential"]),
+    r2: z.number(),
+    rmse: z.number(),
+    slopePerDay: z.number().describe("Absolute growth per day at the last sample"),
+    dailyGrowthPercent: z.number().describe("Relative growth per day at the last sample"),
+  })),
+  preferredModel: z.enum(["linear", "exponential"]).nullable().describe("Fit with the lowest RMSE; null with fewer than 3 samples"),
+  projection: z.array(z.object({
+    timestamp: z.number(),
+    value: z.number(),
+    lower: z.number().describe("Approximate 95% prediction interval"),
+    upper: z.number(),
+  })),
+});
+
+const StorageForecastSchema = z.object({
+  generatedAt: z.string(),
+  from: z.number().describe("Unix ms"),
+  to: z.number().describe("Unix ms"),
+  horizonMs: z.number(),
+  sampleCount: z.number().int(),
+  storageUsed: SeriesForecastSchema,
+  storageCapacity: SeriesForecastSchema.describe("storageCommitted for a single node"),
+  utilization: SeriesForecastSchema.describe("Percent"),
+  crossings: z.array(ThresholdCrossingSchema),
+});
+
+export const NetworkStorageForecastSchema = StorageForecastSchema.extend({
+  nodes: z.array(z.object({
+    pubkey: z.string(),
+    storageUsed: z.number(),
+    storageCommitted: z.number(),
+    utilizationPercent: z.number(),
+    slopePerDay: z.number().nullable().describe("Utilization points per day"),
+    crossings: z.array(ThresholdCrossingSchema),
+  })).describe("Soonest expected crossing first"),
+});
+
+export const NodeStorageForecastSchema = StorageForecastSchema.extend({
+  pubkey: z.string(),
+});
+
+export const NodeStatsSchema = z.object({
+  active_streams: z.number(),
+  cpu_percent: z.number(),
+  current_index: z.number(),
+  file_size: z.number(),
+  last_updated: z.number(),
+  packets_received: z.number(),
+  packets_sent: z.number(),
+  ram_total: z.number(),
+  ram_used: z.number(),
+  total_bytes: z.number(),
+  total_pages: z.number(),
+  uptime: z.number(),
+  timestamp: z.string().optional(),
+});
+
+export const ExtendedSummarySchema = z.object({
+  totalPNodes: z.number().int(),
+  onlinePercentage: z.number(),
+  averageUptime24h: z.number(),
+  averageHealthScore: z.number(),
+  storagePressurePercent: z.number(),
+  networkHealth: NetworkHealthSchema,
+});
+
+export const NodeMetricsSchema = z.object({
+  pubkey: z.string(),
+  healthScore: z.number(),
+  uptime24h: z.number(),
+  storageUtilization: z.number(),
+  tier: NodeTierSchema,
+});
+
+export const NodeScoreExplanationSchema = z.object({
+  pubkey: z.string(),
+  score: z.number(),
+  tier: NodeTierSchema,
+  components: z.array(z.object({
+    factor: z.enum(["uptime", "storage", "online", "versionCurrency", "ram", "cpu"]),
+    value: z.number(),
+    weight: z.number(),
+    contribution: z.number(),
+  })),
+  thresholds: z.object({ excellent: z.number(), good: z.number() }),
+  inputs: z.object({
+    uptime24h: z.number(),
+    uptime24hSource: z.enum(["observed", "heuristic"]),
+    storageUtilization: z.number(),
+    isOnline: z.boolean(),
+    version: z.string(),
+    consensusVersion: z.string(),
+    ramPercent: z.number().optional(),
+    cpuPercent: z.number().optional(),
+  }),
+});
+
+export const TopNodeSchema = z.object({
+  pubkey: z.string(),
+  healthScore: z.number(),
+  uptime24h: z.number(),
+});
+
+export const StoragePressureSchema = z.object({
+  highPressureNodes: z.number().int(),
+  totalNodes: z.number().int(),
+  percent: z.number(),
+});
+
+export const MapNodeSchema = z.object({
+  pubkey: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  country: z.string(),
+  region: z.string(),
+  status: PNodeStatusSchema,
+  healthScore: z.number(),
+  uptime24h: z.number(),
+  storageUtilization: z.number(),
+  version: z.string(),
+  lastSeen: z.string(),
+});
+
+export const BoundingBoxSchema = z
+  .tuple([z.number(), z.number(), z.number(), z.number()])
+  .describe("[minLng, minLat, maxLng, maxLat]; minLng > maxLng crosses the antimeridian");
+
+export const MapClusterSchema = z.object({
+  id: z.string().describe("<zoom>:<cellX>:<cellY>"),
+  lat: z.number().describe("Centroid latitude"),
+  lng: z.number().describe("Centroid longitude"),
+  count: z.number().int(),
+  online: z.number().int(),
+  offline: z.number().int(),
+  averageHealthScore: z.number(),
+  bounds: BoundingBoxSchema,
+  expansionZoom: z.number().int().describe("First zoom level at which the cluster splits"),
+});
+
+export const MapClusterResultSchema = z.object({
+  zoom: z.number().int(),
+  bbox: BoundingBoxSchema.nullable(),
+  clusters: z.array(MapClusterSchema).describe("Cells with two or more nodes"),
+  nodes: z.array(MapNodeSchema).describe("Nodes alone in their cell"),
+});
+
+export const MapClusterExpansionSchema = z.object({
+  cluster: MapClusterSchema,
+  nodes: z.array(MapNodeSchema),
+});
+
+const GeoJsonPositionSchema = z.tuple([z.number(), z.number()]).describe("[lng, lat]");
+
+export const MapNodeFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  id: z.string().describe("pNode public key"),
+  geometry: z.object({ type: z.literal("Point"), coordinates: GeoJsonPositionSchema }),
+  properties: MapNodeSchema.extend({ kind: z.literal("node") }),
+});
+
+export const CountryFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  id: z.string().describe("country:<name>"),
+  geometry: z.object({
+    type: z.literal("Polygon"),
+    coordinates: z.array(z.array(GeoJsonPositionSchema)),
+  }).describe("Padded extent of the country's nodes, not its border"),
+  properties: z.object({
+    kind: z.literal("country"),
+    country: z.string(),
+    count: z.number().int(),
+    online: z.number().int(),
+    offline: z.number().int(),
+    averageHealthScore: z.number(),
+  }),
+});
+
+export const MapFeatureCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  bbox: BoundingBoxSchema.optional(),
+  features: z.array(z.union([MapNodeFeatureSchema, CountryFeatureSchema])),
+});
+
+export const GeoLocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  country: z.string().min(1),
+  region: z.string(),
+  city: z.string().optional(),
+});
+
+export const GeoSummarySchema = z.object({
+  countries: z.array(z.object({ country: z.string(), count: z.number().int() })),
+  regions: z.array(z.object({ region: z.string(), count: z.number().int() })),
+});
+
+const GeoHealthAggregateSchema = z.object({
+  nodes: z.number().int(),
+  onlineNodes: z.number().int(),
+  onlinePercentage: z.number(),
+  averageHealthScore: z.number().nullable().describe("null if no node has metrics yet"),
+  averageUptime24h: z.number().nullable(),
+  totalStorageCommitted: z.number().describe("Bytes"),
+  totalStorageUsed: z.number().describe("Bytes"),
+  versions: z.array(z.object({ version: z.string(), count: z.number().int(), percentage: z.number() })),
+});
+
+export const GeoHealthReportSchema = z.object({
+  generatedAt: z.string(),
+  locatedNodes: z.number().int(),
+  unlocatedNodes: z.number().int().describe("Nodes without a geo location, not included in any group"),
+  countries: z.array(GeoHealthAggregateSchema.extend({ country: z.string() })),
+  regions: z.array(GeoHealthAggregateSchema.extend({ region: z.string(), country: z.string() })),
+});
+
+export const NodeHistorySchema = z.object({
+  pubkey: z.string(),
+  from: z.number().describe("Unix ms"),
+  to: z.number().describe("Unix ms"),
+  step: z.number().describe("Bucket width in ms"),
+  samples: z.array(z.object({
+    timestamp: z.number().describe("Bucket start (Unix ms)"),
+    status: PNodeStatusSchema,
+    onlineRatio: z.number(),
+    version: z.string(),
+    storageUsed: z.number(),
+    storageCommitted: z.number(),
+    uptime: z.number(),
+    ramUsed: z.number().optional(),
+    stats: NodeStatsSchema.optional(),
+    sampleCount: z.number().int(),
+  })),
+});
+
+export const NodeSlaReportSchema = z.object({
+  pubkey: z.string(),
+  month: z.string().describe("YYYY-MM (UTC)"),
+  from: z.number().describe("Month start (Unix ms)"),
+  to: z.number().describe("Month end, or the generation time for the current month (Unix ms)"),
+  generatedAt: z.string(),
+  onlineThresholdSeconds: z.number(),
+  trackedFrom: z.number().nullable().describe("Start of observed history within the month (Unix ms)"),
+  trackedMs: z.number(),
+  onlineMs: z.number(),
+  availabilityPercent: z.number().nullable().describe("onlineMs / trackedMs; null if nothing was tracked"),
+  outageCount: z.number().int(),
+  totalOutageMs: z.number(),
+  longestOutageMs: z.number(),
+  outages: z.array(z.object({
+    start: z.number().describe("Unix ms"),
+    end: z.number().describe("Unix ms"),
+    durationMs: z.number(),
+    cause: z.enum(["offline", "missing"]).describe("Stale last_seen_timestamp, or absent from gossip"),
+    ongoing: z.boolean(),
+  })),
+  restarts: z.number().int(),
+  versionChanges: z.array(z.object({
+    at: z.number().describe("Unix ms the change was detected"),
+    type: z.enum(["version_upgraded", "version_downgraded", "version_changed"]),
+    from: z.string().nullable(),
+    to: z.string().nullable(),
+  })),
+});
+
+const PrpcMethodSchema = z.enum(["getPodsWithStats", "getPods"]);
+
+export const SeedCoverageReportSchema = z.object({
+  generatedAt: z.string(),
+  totalPubkeys: z.number().int(),
+  respondingSeeds: z.number().int(),
+  seeds: z.array(z.object({
+    seed: z.string(),
+    ok: z.boolean(),
+    method: PrpcMethodSchema.optional(),
+    latencyMs: z.number(),
+    podCount: z.number().int(),
+    pubkeys: z.array(z.string()),
+    uniquePubkeys: z.number().int(),
+    freshestPubkeys: z.number().int(),
+    error: z.string().optional(),
+    skipped: z.boolean().optional(),
+  })),
+});
+
+export const SeedHealthSchema = z.object({
+  seed: z.string(),
+  status: z.enum(["healthy", "degraded", "down", "unknown"]),
+  source: z.enum(["configured", "promoted"]).optional(),
+  lastSuccessAt: z.string().optional(),
+  lastFailureAt: z.string().optional(),
+  lastLatencyMs: z.number().optional(),
+  averageLatencyMs: z.number().optional(),
+  lastPodCount: z.number().int().optional(),
+  lastMethod: PrpcMethodSchema.optional(),
+  supportsPodsWithStats: z.boolean().optional(),
+  lastErrorCategory: z.string().optional(),
+  lastError: z.string().optional(),
+  consecutiveFailures: z.number().int(),
+  totalSuccesses: z.number().int(),
+  totalFailures: z.number().int(),
+});
+
+const NodeEventStateSchema = PNodeSchema
+  .pick({ status: true, version: true, address: true, storageCommitted: true, lastSeenTimestamp: true, uptime: true })
+  .partial();
+
+export const NodeEventSchema = z.object({
+  id: z.string(),
+  type: z.enum([
+    "node_first_seen",
+    "node_rejoined",
+    "node_disappeared",
+    "node_offline",
+    "node_online",
+    "node_restarted",
+    "version_upgraded",
+    "version_downgraded",
+    "version_changed",
+    "storage_commitment_changed",
+    "address_changed",
+  ]),
+  pubkey: z.string(),
+  timestamp: z.string(),
+  previous: NodeEventStateSchema.optional(),
+  current: NodeEventStateSchema.optional(),
+});
+
+export const NodeEventPageSchema = z.object({
+  count: z.number().int().describe("Events in this page"),
+  nextCursor: z.string().nullable(),
+  items: z.array(NodeEventSchema),
+});
+
+export const AlertSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  ruleName: z.string(),
+  subject: z.string().describe('Pubkey, or "network" for network rules'),
+  status: z.enum(["pending", "firing", "resolved"]),
+  value: z.union([z.number(), z.string(), z.boolean()]),
+  activeSince: z.string(),
+  firedAt: z.string().optional(),
+  resolvedAt: z.string().optional(),
+  lastEvaluatedAt: z.string(),
+});
+
+const IncidentFactorSchema = z.object({
+  kind: z.enum(["country", "version", "seed"]),
+  value: z.string(),
+  affectedNodes: z.number().int().describe("Affected nodes with this value"),
+  totalNodes: z.number().int().describe("Known nodes with this value"),
+  affectedPercent: z.number().describe("Share of the affected nodes with this value"),
+  groupPercent: z.number().describe("Share of the nodes with this value that are affected"),
+});
+
+export const IncidentSchema = z.object({
+  id: z.string(),
+  status: z.enum(["open", "resolved"]),
+  trigger: z.enum(["online_drop", "correlated_outage"]),
+  summary: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable(),
+  updatedAt: z.string(),
+  onlinePercentageBefore: z.number().describe("Highest online share in the window before the incident"),
+  lowestOnlinePercentage: z.number(),
+  affectedPubkeys: z.array(z.string()),
+  commonFactors: z.array(IncidentFactorSchema),
+});
+
+export const PNodeQueryResultSchema = z.object({
+  total: z.number().int().describe("Nodes before filtering"),
+  filtered: z.number().int().describe("Nodes matching the filters"),
+  count: z.number().int().describe("Nodes in this page"),
+  nextCursor: z.string().nullable(),
+  items: z.array(PNodeSchema.partial()),
+});
+
+export const HealthResponseSchema = z.object({
+  status: z.literal("ok"),
+});
+
+// Request parameters. These document the API; routes keep their own parsing
+// so existing 400 messages stay unchanged.
+export const PubkeyParamsSchema = z.object({
+  pubkey: z.string().describe("pNode public key"),
+});
+
+export const ExportFormatQuerySchema = z.object({
+  format: z.enum(["json", "csv", "ndjson"]).optional().describe("Response format; overrides the Accept header"),
+});
+
+export const PNodeListQuerySchema = ExportFormatQuerySchema.extend({
+  status: PNodeStatusSchema.optional(),
+  version: z.string().optional().describe("Exact version or semver range, e.g. >=0.7.0"),
+  country: z.string().optional().describe("Comma-separated country names"),
+  isPublic: z.enum(["true", "false"]).optional(),
+  minUtilization: z.string().optional().describe("Minimum storage utilization (percent)"),
+  maxUtilization: z.string().optional().describe("Maximum storage utilization (percent)"),
+  tier: z.string().optional().describe("Comma-separated tiers: Excellent, Good, Poor"),
+  sort: z.string().optional().describe(`One of ${SORTABLE_FIELDS.join(", ")}; prefix with - for descending`),
+  order: z.enum(["asc", "desc"]).optional(),
+  limit: z.string().optional().describe("Page size"),
+  cursor: z.string().optional().describe("nextCursor from the previous page"),
+  fields: z.string().optional().describe(`Comma-separated subset of ${PROJECTABLE_FIELDS.join(", ")}`),
+});
+
+export const MapQuerySchema = z.object({
+  zoom: z.string().optional().describe(`Integer zoom level (0-${MAX_MAP_ZOOM}); returns clusters instead of the full node list`),
+  bbox: z.string().optional().describe("minLng,minLat,maxLng,maxLat; requires zoom"),
+});
+
+export const MapGeoJsonQuerySchema = z.object({
+  countries: z.enum(["true", "false"]).optional().describe("Include one polygon per country (default: false)"),
+});
+
+export const ClusterParamsSchema = z.object({
+  id: z.string().describe("Cluster id from a clustered /pnodes/map response"),
+});
+
+export const NodeHistoryQuerySchema = z.object({
+  from: z.string().optional().describe("Unix timestamp or ISO date (default: 24h before to)"),
+  to: z.string().optional().describe("Unix timestamp or ISO date (default: now)"),
+  step: z.string().optional().describe("Bucket width such as 300, 5m, 1h or 1d"),
+});
+
+export const SlaReportQuerySchema = z.object({
+  month: z.string().optional().describe("YYYY-MM in UTC (default: current month)"),
+  format: z.enum(["json", "markdown", "html"]).optional().describe("Overrides the Accept header"),
+});
+
+export const VersionTimelineQuerySchema = z.object({
+  from: z.string().optional().describe("Unix timestamp or ISO date (default: 7 days before to)"),
+  to: z.string().optional().describe("Unix timestamp or ISO date (default: now)"),
+  interval: z.enum(["hourly", "daily"]).optional().describe("Bucket width (default: hourly)"),
+});
+
+export const StorageForecastQuerySchema = z.object({
+  from: z.string().optional().describe("Start of the training window: Unix timestamp or ISO date (default: all retained history)"),
+  to: z.string().optional().describe("End of the training window (default: now)"),
+  horizon: z.string().optional().describe("How far ahead to forecast, e.g. 30d (default: 90d, max 730d)"),
+  thresholds: z.string().optional().describe("Comma-separated utilization percentages (default: STORAGE_FORECAST_THRESHOLDS)"),
+});
+
+export const EventStreamQuerySchema = z.object({
+  types: z.string().optional().describe("Comma-separated event types"),
+  pubkey: z.string().optional().describe("Comma-separated pubkeys"),
+  lastEventId: z.string().optional().describe("Resume after this event id (same as the Last-Event-ID header)"),
+});
+
+export const EventLogQuerySchema = z.object({
+  pubkey: z.string().optional().describe("Comma-separated pubkeys"),
+  types: z.string().optional().describe("Comma-separated event types"),
+  from: z.string().optional().describe("ISO date or Unix timestamp (default: start of the log)"),
+  to: z.string().optional().describe("ISO date or Unix timestamp (default: now)"),
+  order: z.enum(["asc", "desc"]).optional().describe("Detection time order (default desc, newest first)"),
+  limit: z.string().optional().describe(`Page size (default ${DEFAULT_EVENT_PAGE_SIZE}, max ${MAX_EVENT_PAGE_SIZE})`),
+  cursor: z.string().optional().describe("nextCursor from the previous page"),
+});
+
+export const IncidentListQuerySchema = z.object({
+  status: z.enum(["open", "resolved"]).optional(),
+  limit: z.string().optional().describe("Maximum incidents to return (default all stored)"),
+});
+
+export const IncidentParamsSchema = z.object({
+  id: z.string().describe("Incident id"),
+});
+
+export const AlertRuleParamsSchema = z.object({
+  id: z.string().describe("Alert rule id"),
+});
+
+/**
+ * Named schemas published under components.schemas in /openapi.json
+ */
+export const API_COMPONENT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  ErrorResponse: ErrorResponseSchema,
+  PNode: PNodeSchema,
+  PNodeQueryResult: PNodeQueryResultSchema,
+  NodeStats: NodeStatsSchema,
+  NodeHistory: NodeHistorySchema,
+  NodeSlaReport: NodeSlaReportSchema,
+  MapNode: MapNodeSchema,
+  MapCluster: MapClusterSchema,
+  MapClusterResult: MapClusterResultSchema,
+  MapClusterExpansion: MapClusterExpansionSchema,
+  MapNodeFeature: MapNodeFeatureSchema,
+  CountryFeature: CountryFeatureSchema,
+  MapFeatureCollection: MapFeatureCollectionSchema,
+  AnalyticsSummary: AnalyticsSummarySchema,
+  ExtendedSummary: ExtendedSummarySchema,
+  StorageAnalytics: StorageAnalyticsSchema,
+  VersionDistribution: VersionDistributionSchema,
+  VersionCompliance: VersionComplianceSchema,
+  VersionTimeline: VersionTimelineSchema,
+  ChurnReport: ChurnReportSchema,
+  NetworkStorageForecast: NetworkStorageForecastSchema,
+  NodeStorageForecast: NodeStorageForecastSchema,
+  NodeMetrics: NodeMetricsSchema,
+  NodeScoreExplanation: NodeScoreExplanationSchema,
+  TopNode: TopNodeSchema,
+  StoragePressure: StoragePressureSchema,
+  GeoSummary: GeoSummarySchema,
+  GeoHealthReport: GeoHealthReportSchema,
+  SeedCoverageReport: SeedCoverageReportSchema,
+  SeedHealth: SeedHealthSchema,
+  NodeEvent: NodeEventSchema,
+  NodeEventPage: NodeEventPageSchema,
+  Alert: AlertSchema,
+  AlertRule: PublicAlertRuleSchema,
+  AlertRuleInput: AlertRuleInputSchema,
+  Incident: IncidentSchema,
+};
+
+// Compile-time checks: each schema must infer exactly the matching interface
+type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+
+export type SchemaChecks = [
+  Assert<Equals<z.infer<typeof ErrorResponseSchema>, ErrorResponse>>,
+  Assert<Equals<z.infer<typeof PNodeSchema>, PNode>>,
+  Assert<Equals<z.infer<typeof AnalyticsSummarySchema>, AnalyticsSummary>>,
+  Assert<Equals<z.infer<typeof StorageAnalyticsSchema>, StorageAnalytics>>,
+  Assert<Equals<z.infer<typeof VersionDistributionSchema>, VersionDistribution>>,
+  Assert<Equals<z.infer<typeof VersionComplianceSchema>, VersionCompliance>>,
+  Assert<Equals<z.infer<typeof VersionTimelineSchema>, VersionTimeline>>,
+  Assert<Equals<z.infer<typeof ChurnReportSchema>, ChurnReport>>,
+  Assert<Equals<z.infer<typeof NetworkStorageForecastSchema>, NetworkStorageForecast>>,
+  Assert<Equals<z.infer<typeof NodeStorageForecastSchema>, NodeStorageForecast>>,
+  Assert<Equals<z.infer<typeof NodeStatsSchema>, NodeStats>>,
+  Assert<Equals<z.infer<typeof ExtendedSummarySchema>, ExtendedSummary>>,
+  Assert<Equals<z.infer<typeof NodeMetricsSchema>, NodeMetrics>>,
+  Assert<Equals<z.infer<typeof NodeScoreExplanationSchema>, NodeScoreExplanation>>,
+  Assert<Equals<z.infer<typeof TopNodeSchema>, TopNode>>,
+  Assert<Equals<z.infer<typeof StoragePressureSchema>, StoragePressure>>,
+  Assert<Equals<z.infer<typeof MapNodeSchema>, MapNode>>,
+  Assert<Equals<z.infer<typeof MapClusterSchema>, MapCluster>>,
+  Assert<Equals<z.infer<typeof MapClusterResultSchema>, MapClusterResult>>,
+  Assert<Equals<z.infer<typeof MapClusterExpansionSchema>, MapClusterExpansion>>,
+  Assert<Equals<z.infer<typeof MapNodeFeatureSchema>, MapNodeFeature>>,
+  Assert<Equals<z.infer<typeof CountryFeatureSchema>, CountryFeature>>,
+  Assert<Equals<z.infer<typeof MapFeatureCollectionSchema>, MapFeatureCollection>>,
+  Assert<Equals<z.infer<typeof GeoLocationSchema>, GeoLocation>>,
+  Assert<Equals<z.infer<typeof GeoSummarySchema>, GeoSummary>>,
+  Assert<Equals<z.infer<typeof GeoHealthReportSchema>, GeoHealthReport>>,
+  Assert<Equals<z.infer<typeof NodeHistorySchema>, NodeHistory>>,
+  Assert<Equals<z.infer<typeof NodeSlaReportSchema>, NodeSlaReport>>,
+  Assert<Equals<z.infer<typeof SeedCoverageReportSchema>, SeedCoverageReport>>,
+  Assert<Equals<z.infer<typeof SeedHealthSchema>, SeedHealth>>,
+  Assert<Equals<z.infer<typeof NodeEventSchema>, NodeEvent>>,
+  Assert<Equals<z.infer<typeof NodeEventPageSchema>, NodeEventPage>>,
+  Assert<Equals<z.infer<typeof AlertSchema>, Alert>>,
+  Assert<Equals<z.infer<typeof IncidentSchema>, Incident>>,
+];
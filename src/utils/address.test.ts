@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for Network Address Parsing
+ *
+ * Run: npm test -- address.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractIp, formatHost, normalizeIp, parseAddress } from './address';
+
+describe('parseAddress', () => {
+  it('should parse IPv4 with and without port', () => {
+    expect(parseAddress('1.2.3.4:9001')).toEqual({ ip: '1.2.3.4', family: 4, port: 9001 });
+    expect(parseAddress(' 1.2.3.4 ')).toEqual({ ip: '1.2.3.4', family: 4 });
+  });
+
+  it('should parse bracketed IPv6 with and without port', () => {
+    expect(parseAddress('[2001:DB8::1]:9001')).toEqual({ ip: '2001:db8::1', family: 6, port: 9001 });
+    expect(parseAddress('[::1]')).toEqual({ ip: '::1', family: 6 });
+  });
+
+  it('should parse bare IPv6', () => {
+    expect(parseAddress('2001:db8::1')).toEqual({ ip: '2001:db8::1', family: 6 });
+  });
+
+  it('should unwrap IPv4-mapped IPv6', () => {
+    expect(parseAddress('[::ffff:1.2.3.4]:9001')).toEqual({ ip: '1.2.3.4', family: 4, port: 9001 });
+  });
+
+  it('should reject malformed addresses', () => {
+    expect(parseAddress(undefined)).toBeNull();
+    expect(parseAddress('')).toBeNull();
+    expect(parseAddress('1.2.3.4:port')).toBeNull();
+    expect(parseAddress('1.2.3.4:70000')).toBeNull();
+    expect(parseAddress('[1.2.3.4]:9001')).toBeNull();
+    expect(parseAddress('[2001:db8::1')).toBeNull();
+    expect(parseAddress('[2001:db8::1]9001')).toBeNull();
+    expect(parseAddress('example.com:9001')).toBeNull();
+  });
+});
+
+describe('extractIp', () => {
+  it('should return only the IP', () => {
+    expect(extractIp('[2001:db8::1]:9001')).toBe('2001:db8::1');
+    expect(extractIp('1.2.3.4:9001')).toBe('1.2.3.4');
+    expect(extractIp('not an address')).toBeNull();
+  });
+});
+
+describe('normalizeIp', () => {
+  it('should reject non-IP strings', () => {
+    expect(normalizeIp('1.2.3.4:9001')).toBeNull();
+  });
+});
+
+describe('formatHost', () => {
+  it('should bracket IPv6 only', () => {
+    expect(formatHost('2001:db8::1')).toBe('[2001:db8::1]');
+    expect(formatHost('1.2.3.4')).toBe('1.2.3.4');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Network address parsing
+ *
+ * Gossip reports pod addresses as `v4:port`, `[v6]:port` or a bare IP. Every
+ * place that needs the IP (geo lookups, per-node pRPC clients, seed promotion)
+ * goes through these helpers instead of splitting on ":".
+ */
+
+import { isIP } from "net";
+
+export type IpFamily = 4 | 6;
+
+export interface ParsedAddress {
+  ip: string; // Canonical form: IPv6 lowercased, IPv4-mapped IPv6 unwrapped to IPv4
+  family: IpFamily;
+  port?: number;
+}
+
+const IPV4_MAPPED_PREFIX = "::ffff:";
+
+function parsePort(value: string): number | null {
+  if (!/^\d{1,5}$/.test(value)) return null;
+  const port = Number(value);
+  return port <= 65535 ? port : null;
+}
+
+/**
+ * Canonicalize a bare IP address, or null if it isn't one
+ */
+export function normalizeIp(value: string): { ip: string; family: IpFamily } | null {
+  const trimmed = value.trim();
+  const family = isIP(trimmed);
+  if (family === 4) return { ip: trimmed, family: 4 };
+  if (family !== 6) return null;
+
+  const lower = trimmed.toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX) && isIP(lower.slice(IPV4_MAPPED_PREFIX.length)) === 4) {
+    return { ip: lower.slice(IPV4_MAPPED_PREFIX.length), family: 4 };
+  }
+  return { ip: lower, family: 6 };
+}
+
+/**
+ * Parse `v4`, `v4:port`, `[v6]`, `[v6]:port` or a bare `v6`
+ */
+export function parseAddress(address: string | undefined): ParsedAddress | null {
+  if (!address) return null;
+  const trimmed = address.trim();
+
+  if (trimmed.startsWith("[")) {
+    const close = trimmed.indexOf("]");
+    if (close === -1) return null;
+
+    // Brackets are only valid around IPv6 (including IPv4-mapped) addresses
+    const inner = trimmed.slice(1, close);
+    if (isIP(inner) !== 6) return null;
+
+    const host = normalizeIp(inner)!;
+    const rest = trimmed.slice(close + 1);
+    if (rest === "") return host;
+    if (!rest.startsWith(":")) return null;
+
+    const port = parsePort(rest.slice(1));
+    return port === null ? null : { ...host, port };
+  }
+
+  // More than one colon without brackets can only be a bare IPv6 address
+  const colons = trimmed.split(":").length - 1;
+  if (colons > 1) {
+    return normalizeIp(trimmed);
+  }
+
+  if (colons === 1) {
+    const [hostPart, portPart] = trimmed.split(":");
+    const host = normalizeIp(hostPart);
+    const port = parsePort(portPart);
+    return host && port !== null ? { ...host, port } : null;
+  }
+
+  return normalizeIp(trimmed);
+}
+
+/**
+ * IP from an address string, or null if the address can't be parsed
+ */
+export function extractIp(address: string | undefined): string | null {
+  return parseAddress(address)?.ip ?? null;
+}
+
+/**
+ * Host for use in URLs and `host:port` strings (IPv6 in brackets)
+ */
+export function formatHost(ip: string): string {
+  return isIP(ip) === 6 ? `[${ip}]` : ip;
+}
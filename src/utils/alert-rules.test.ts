@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Alert Rules
+ *
+ * Run: npm test -- alert-rules.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  AlertRule,
+  AlertRuleInputSchema,
+  AlertEvaluationContext,
+  evaluateRule,
+  advanceAlert,
+} from './alert-rules';
+import { NodeMetrics, PNode } from '../types/pnode';
+
+const MINUTE = 60 * 1000;
+const WEBHOOK = { url: 'https://example.com/hook' };
+
+function node(pubkey: string, overrides: Partial<PNode> = {}): PNode {
+  return {
+    pubkey,
+    status: 'online',
+    version: '0.8.0',
+    storageUsed: 100,
+    storageTotal: 1000,
+    uptime: 3600,
+    ip: '1.2.3.4',
+    lastSeen: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function rule(overrides: Record<string, unknown>): AlertRule {
+  return {
+    ...AlertRuleInputSchema.parse({ name: 'test', webhook: WEBHOOK, ...overrides }),
+    id: 'r1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+function context(nodes: PNode[], metrics: NodeMetrics[] = []): AlertEvaluationContext {
+  return {
+    nodes,
+    metricsByPubkey: new Map(metrics.map((m) => [m.pubkey, m])),
+    consensusVersion: '0.8.0',
+  };
+}
+
+describe('AlertRuleInputSchema', () => {
+  it('should reject metrics that do not belong to the scope', () => {
+    const result = AlertRuleInputSchema.safeParse({
+      name: 'x', scope: 'network', metric: 'healthScore', operator: '<', value: 50, webhook: WEBHOOK,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject ordering operators on status', () => {
+    const result = AlertRuleInputSchema.safeParse({
+      name: 'x', scope: 'node', metric: 'status', operator: '>', value: 'offline', webhook: WEBHOOK,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject values of the wrong type', () => {
+    const result = AlertRuleInputSchema.safeParse({
+      name: 'x', scope: 'node', metric: 'storageUtilization', operator: '>', value: '90', webhook: WEBHOOK,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should apply defaults', () => {
+    const parsed = AlertRuleInputSchema.parse({
+      name: 'x', scope: 'network', metric: 'onlinePercentage', operator: '<', value: 85, webhook: WEBHOOK,
+    });
+    expect(parsed.enabled).toBe(true);
+    expect(parsed.forSeconds).toBe(0);
+  });
+});
+
+describe('evaluateRule', () => {
+  it('should only evaluate the listed pubkeys', () => {
+    const r = rule({ scope: 'node', pubkeys: ['a'], metric: 'status', operator: '==', value: 'offline' });
+    const observations = evaluateRule(r, context([node('a', { status: 'offline' }), node('b', { status: 'offline' })]));
+    expect(observations).toEqual([{ subject: 'a', value: 'offline', matches: true }]);
+  });
+
+  it('should skip nodes without metrics', () => {
+    const r = rule({ scope: 'node', metric: 'storageUtilization', operator: '>', value: 90 });
+    const metrics = [{ pubkey: 'a', healthScore: 80, uptime24h: 100, storageUtilization: 95, tier: 'Good' as const }];
+    const observations = evaluateRule(r, context([node('a'), node('b')], metrics));
+    expect(observations).toEqual([{ subject: 'a', value: 95, matches: true }]);
+  });
+
+  it('should compute network online percentage', () => {
+    const r = rule({ scope: 'network', metric: 'onlinePercentage', operator: '<', value: 85 });
+    const observations = evaluateRule(r, context([node('a'), node('b', { status: 'offline' })]));
+    expect(observations).toEqual([{ subject: 'network', value: 50, matches: true }]);
+  });
+
+  it('should detect versions behind consensus', () => {
+    const r = rule({ scope: 'node', metric: 'versionBehindConsensus', operator: '==', value: true });
+    const observations = evaluateRule(r, context([node('a', { version: '0.7.3' }), node('b'), node('c', { version: 'dev' })]));
+    expect(observations).toEqual([
+      { subject: 'a', value: true, matches: true },
+      { subject: 'b', value: false, matches: false },
+    ]);
+  });
+});
+
+describe('advanceAlert', () => {
+  const r = rule({ scope: 'node', metric: 'status', operator: '==', value: 'offline', forSeconds: 600 });
+  const offline = { subject: 'a', value: 'offline', matches: true };
+  const online = { subject: 'a', value: 'online', matches: false };
+
+  it('should stay pending until the condition has held for forSeconds', () => {
+    const first = advanceAlert(undefined, offline, r, 0);
+    expect(first.alert?.status).toBe('pending');
+    expect(first.notify).toBeUndefined();
+
+    const second = advanceAlert(first.alert!, offline, r, 5 * MINUTE);
+    expect(second.alert?.status).toBe('pending');
+
+    const third = advanceAlert(second.alert!, offline, r, 10 * MINUTE);
+    expect(third.alert?.status).toBe('firing');
+    expect(third.notify).toBe('firing');
+  });
+
+  it('should notify only once while firing and then resolve', () => {
+    const firing = advanceAlert(advanceAlert(undefined, offline, r, 0).alert!, offline, r, 10 * MINUTE).alert!;
+
+    const repeat = advanceAlert(firing, offline, r, 11 * MINUTE);
+    expect(repeat.alert?.status).toBe('firing');
+    expect(repeat.notify).toBeUndefined();
+
+    const resolved = advanceAlert(repeat.alert!, online, r, 12 * MINUTE);
+    expect(resolved.alert?.status).toBe('resolved');
+    expect(resolved.notify).toBe('resolved');
+  });
+
+  it('should drop pending alerts silently when the condition clears', () => {
+    const pending = advanceAlert(undefined, offline, r, 0).alert!;
+    expect(advanceAlert(pending, online, r, MINUTE)).toEqual({ alert: null });
+  });
+
+  it('should fire immediately when forSeconds is 0', () => {
+    const immediate = rule({ scope: 'node', metric: 'status', operator: '==', value: 'offline' });
+    expect(advanceAlert(undefined, offline, immediate, 0).notify).toBe('firing');
+  });
+});
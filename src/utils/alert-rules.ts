@@ -0,0 +1,244 @@
+/**
+ * Declarative alert rules: schema, evaluation and alert state transitions
+ *
+ * A rule compares one metric against a threshold, either per node or for the
+ * whole network. A matching subject becomes "pending" and moves to "firing"
+ * once the condition has held for `forSeconds`; a firing alert is "resolved"
+ * as soon as the condition stops matching.
+ */
+
+import { z } from "zod";
+import { Alert, NodeMetrics, PNode } from "../types/pnode";
+import { compareVersions, parseVersion } from "./semver";
+
+export const NODE_ALERT_METRICS = [
+  "status",
+  "storageUtilization",
+  "healthScore",
+  "uptime24h",
+  "storageUsed",
+  "storageCommitted",
+  "versionBehindConsensus",
+] as const;
+
+export const NETWORK_ALERT_METRICS = [
+  "onlinePercentage",
+  "onlinePNodes",
+  "totalPNodes",
+  "averageHealthScore",
+] as const;
+
+const ORDERING_OPERATORS = [">", ">=", "<", "<="];
+
+// Metrics compared as strings/booleans rather than numbers
+const NON_NUMERIC_METRICS: Partial<Record<string, "string" | "boolean">> = {
+  status: "string",
+  versionBehindConsensus: "boolean",
+};
+
+const AlertRuleFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  enabled: z.boolean().default(true),
+  scope: z.enum(["node", "network"]),
+  pubkeys: z.array(z.string().min(1)).min(1).optional(), // Node scope only; all nodes when omitted
+  metric: z.string(),
+  operator: z.enum([">", ">=", "<", "<=", "==", "!="]),
+  value: z.union([z.number(), z.string(), z.boolean()]),
+  forSeconds: z.number().int().min(0).default(0),
+  webhook: z.object({
+    url: z.string().url().refine((url) => /^https?:\/\//.test(url), { message: "must be an http(s) URL" }),
+    secret: z.string().min(1).optional(), // HMAC-SHA256 signing key
+  }),
+});
+
+export const AlertRuleInputSchema = AlertRuleFieldsSchema.superRefine((rule, ctx) => {
+  const metrics: readonly string[] = rule.scope === "node" ? NODE_ALERT_METRICS : NETWORK_ALERT_METRICS;
+  if (!metrics.includes(rule.metric)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["metric"],
+      message: `metric must be one of ${metrics.join(", ")} for ${rule.scope} rules`,
+    });
+    return;
+  }
+
+  if (rule.scope === "network" && rule.pubkeys) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pubkeys"], message: "pubkeys only apply to node rules" });
+  }
+
+  const valueType = NON_NUMERIC_METRICS[rule.metric] ?? "number";
+  if (typeof rule.value !== valueType) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `${rule.metric} must be compared with a ${valueType}` });
+  } else if (rule.metric === "status" && rule.value !== "online" && rule.value !== "offline") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "status must be online or offline" });
+  }
+
+  if (valueType !== "number" && ORDERING_OPERATORS.includes(rule.operator)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["operator"], message: `${rule.metric} only supports == and !=` });
+  }
+});
+
+export type AlertRuleInput = z.infer<typeof AlertRuleInputSchema>;
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Alert rule as returned by the API (webhook secrets are write-only)
+ */
+export const PublicAlertRuleSchema = AlertRuleFieldsSchema.extend({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  webhook: z.object({ url: z.string(), hasSecret: z.boolean() }),
+});
+
+export type PublicAlertRule = z.infer<typeof PublicAlertRuleSchema>;
+
+export function toPublicAlertRule(rule: AlertRule): PublicAlertRule {
+  const { secret, ...webhook } = rule.webhook;
+  return { ...rule, webhook: { ...webhook, hasSecret: secret !== undefined } };
+}
+
+export type AlertValue = number | string | boolean;
+
+export interface AlertEvaluationContext {
+  nodes: PNode[];
+  metricsByPubkey: Map<string, NodeMetrics>;
+  consensusVersion: string;
+}
+
+export interface AlertObservation {
+  subject: string;
+  value: AlertValue;
+  matches: boolean;
+}
+
+export const NETWORK_SUBJECT = "network";
+
+function compare(actual: AlertValue, operator: AlertRuleInput["operator"], expected: AlertValue): boolean {
+  switch (operator) {
+    case "==": return actual === expected;
+    case "!=": return actual !== expected;
+    case ">": return (actual as number) > (expected as number);
+    case ">=": return (actual as number) >= (expected as number);
+    case "<": return (actual as number) < (expected as number);
+    case "<=": return (actual as number) <= (expected as number);
+  }
+}
+
+function nodeMetricValue(node: PNode, metric: string, context: AlertEvaluationContext): AlertValue | null {
+  const metrics = context.metricsByPubkey.get(node.pubkey);
+  switch (metric) {
+    case "status":
+      return node.status;
+    case "storageUtilization":
+      return metrics?.storageUtilization ?? null;
+    case "healthScore":
+      return metrics?.healthScore ?? null;
+    case "uptime24h":
+      return metrics?.uptime24h ?? null;
+    case "storageUsed":
+      return node.storageUsed;
+    case "storageCommitted":
+      return node.storageCommitted ?? node.storageTotal;
+    case "versionBehindConsensus":
+      if (!parseVersion(node.version) || !parseVersion(context.consensusVersion)) return null;
+      return compareVersions(node.version, context.consensusVersion) < 0;
+    default:
+      return null;
+  }
+}
+
+function networkMetricValue(metric: string, context: AlertEvaluationContext): AlertValue | null {
+  const total = context.nodes.length;
+  const online = context.nodes.filter((n) => n.status === "online").length;
+  switch (metric) {
+    case "onlinePercentage":
+      return total > 0 ? Math.round((online / total) * 100 * 100) / 100 : null;
+    case "onlinePNodes":
+      return online;
+    case "totalPNodes":
+      return total;
+    case "averageHealthScore": {
+      const scores = Array.from(context.metricsByPubkey.values()).map((m) => m.healthScore);
+      return scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a rule against the current network state
+ * Subjects without data (unknown pubkey, missing metrics) produce no observation.
+ */
+export function evaluateRule(rule: AlertRuleInput, context: AlertEvaluationContext): AlertObservation[] {
+  if (rule.scope === "network") {
+    const value = networkMetricValue(rule.metric, context);
+    return value === null
+      ? []
+      : [{ subject: NETWORK_SUBJECT, value, matches: compare(value, rule.operator, rule.value) }];
+  }
+
+  const pubkeys = rule.pubkeys ? new Set(rule.pubkeys) : null;
+  const observations: AlertObservation[] = [];
+  for (const node of context.nodes) {
+    if (!node.pubkey || (pubkeys && !pubkeys.has(node.pubkey))) continue;
+    const value = nodeMetricValue(node, rule.metric, context);
+    if (value === null) continue;
+    observations.push({ subject: node.pubkey, value, matches: compare(value, rule.operator, rule.value) });
+  }
+  return observations;
+}
+
+export interface AlertTransition {
+  alert: Alert | null; // null when the subject has no active alert
+  notify?: "firing" | "resolved";
+}
+
+/**
+ * Advance the alert for one subject given a new observation
+ * Firing alerts notify once (dedup) and notify again only when resolved.
+ */
+export function advanceAlert(
+  previous: Alert | undefined,
+  observation: AlertObservation,
+  rule: AlertRule,
+  now: number
+): AlertTransition {
+  const timestamp = new Date(now).toISOString();
+
+  if (!observation.matches) {
+    if (previous?.status === "firing") {
+      return {
+        alert: { ...previous, status: "resolved", value: observation.value, resolvedAt: timestamp, lastEvaluatedAt: timestamp },
+        notify: "resolved",
+      };
+    }
+    // Pending alerts that stop matching are dropped silently
+    return { alert: null };
+  }
+
+  const alert: Alert = previous && previous.status !== "resolved"
+    ? { ...previous, ruleName: rule.name, value: observation.value, lastEvaluatedAt: timestamp }
+    : {
+        id: `${rule.id}:${observation.subject}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        subject: observation.subject,
+        status: "pending",
+        value: observation.value,
+        activeSince: timestamp,
+        lastEvaluatedAt: timestamp,
+      };
+
+  if (alert.status === "pending" && now - Date.parse(alert.activeSince) >= rule.forSeconds * 1000) {
+    return { alert: { ...alert, status: "firing", firedAt: timestamp }, notify: "firing" };
+  }
+
+  return { alert };
+}
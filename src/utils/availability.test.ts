@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Availability Calculations
+ *
+ * Run: npm test -- availability.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  AvailabilitySegment,
+  appendObservation,
+  pruneSegments,
+  summarizeAvailability,
+  availabilityPercent,
+} from './availability';
+
+const MINUTE = 60 * 1000;
+const MAX_GAP = 10 * MINUTE;
+
+describe('appendObservation', () => {
+  it('should extend the current segment when the state is unchanged', () => {
+    const segments: AvailabilitySegment[] = [];
+    appendObservation(segments, 0, true, MAX_GAP);
+    appendObservation(segments, 5 * MINUTE, true, MAX_GAP);
+
+    expect(segments).toEqual([{ start: 0, end: 5 * MINUTE, online: true }]);
+  });
+
+  it('should start a new segment at the previous observation when the state changes', () => {
+    const segments: AvailabilitySegment[] = [];
+    appendObservation(segments, 0, true, MAX_GAP);
+    appendObservation(segments, 5 * MINUTE, false, MAX_GAP);
+
+    expect(segments[1]).toEqual({ start: 0, end: 5 * MINUTE, online: false });
+  });
+
+  it('should leave gaps longer than maxGap unobserved', () => {
+    const segments: AvailabilitySegment[] = [];
+    appendObservation(segments, 0, true, MAX_GAP);
+    appendObservation(segments, 60 * MINUTE, true, MAX_GAP);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[1].start).toBe(60 * MINUTE);
+  });
+
+  it('should ignore out-of-order observations', () => {
+    const segments: AvailabilitySegment[] = [];
+    appendObservation(segments, 5 * MINUTE, true, MAX_GAP);
+    appendObservation(segments, 1 * MINUTE, false, MAX_GAP);
+
+    expect(segments).toHaveLength(1);
+  });
+});
+
+describe('summarizeAvailability', () => {
+  it('should count a node that restarted recently but was always online as 100%', () => {
+    const segments: AvailabilitySegment[] = [];
+    for (let t = 0; t <= 24 * 60; t += 5) {
+      appendObservation(segments, t * MINUTE, true, MAX_GAP);
+    }
+
+    const summary = summarizeAvailability(segments, 0, 24 * 60 * MINUTE);
+    expect(availabilityPercent(summary)).toBe(100);
+  });
+
+  it('should reflect time spent offline', () => {
+    const segments: AvailabilitySegment[] = [
+      { start: 0, end: 60 * MINUTE, online: true },
+      { start: 60 * MINUTE, end: 120 * MINUTE, online: false },
+    ];
+
+    const summary = summarizeAvailability(segments, 0, 120 * MINUTE);
+    expect(summary.observedMs).toBe(120 * MINUTE);
+    expect(availabilityPercent(summary)).toBe(50);
+  });
+
+  it('should clip segments to the window', () => {
+    const segments: AvailabilitySegment[] = [{ start: 0, end: 100, online: true }];
+    expect(summarizeAvailability(segments, 50, 200)).toEqual({ onlineMs: 50, observedMs: 50 });
+  });
+
+  it('should return 0% when nothing was observed', () => {
+    expect(availabilityPercent({ onlineMs: 0, observedMs: 0 })).toBe(0);
+  });
+});
+
+describe('pruneSegments', () => {
+  it('should drop segments that ended before the cutoff', () => {
+    const segments: AvailabilitySegment[] = [
+      { start: 0, end: 10, online: true },
+      { start: 10, end: 30, online: false },
+    ];
+
+    expect(pruneSegments(segments, 20)).toEqual([{ start: 10, end: 30, online: false }]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Availability helpers
+ *
+ * Online/offline observations are stored as run-length segments: consecutive
+ * observations with the same state extend the current segment. A gap longer than
+ * maxGapMs between observations is treated as "not observed" rather than online or offline.
+ */
+
+export interface AvailabilitySegment {
+  start: number; // Unix ms
+  end: number; // Unix ms
+  online: boolean;
+}
+
+export interface AvailabilitySummary {
+  onlineMs: number;
+  observedMs: number;
+}
+
+/**
+ * Append an observation to a segment list (mutates and returns the list)
+ */
+export function appendObservation(
+  segments: AvailabilitySegment[],
+  timestamp: number,
+  online: boolean,
+  maxGapMs: number
+): AvailabilitySegment[] {
+  const last = segments[segments.length - 1];
+
+  if (!last || timestamp - last.end > maxGapMs) {
+    segments.push({ start: timestamp, end: timestamp, online });
+    return segments;
+  }
+
+  if (timestamp <= last.end) {
+    // Out-of-order or duplicate observation
+    return segments;
+  }
+
+  if (last.online === online) {
+    last.end = timestamp;
+  } else {
+    // State changed since the previous observation; attribute the interval to the new state
+    segments.push({ start: last.end, end: timestamp, online });
+  }
+
+  return segments;
+}
+
+/**
+ * Drop segments that ended before the cutoff (mutates and returns the list)
+ */
+export function pruneSegments(segments: AvailabilitySegment[], before: number): AvailabilitySegment[] {
+  let firstKept = 0;
+  while (firstKept < segments.length && segments[firstKept].end < before) {
+    firstKept++;
+  }
+  if (firstKept > 0) {
+    segments.splice(0, firstKept);
+  }
+  return segments;
+}
+
+/**
+ * Sum online and observed time within [windowStart, windowEnd]
+ */
+export function summarizeAvailability(
+  segments: AvailabilitySegment[],
+  windowStart: number,
+  windowEnd: number
+): AvailabilitySummary {
+  let onlineMs = 0;
+  let observedMs = 0;
+
+  for (const segment of segments) {
+    const start = Math.max(segment.start, windowStart);
+    const end = Math.min(segment.end, windowEnd);
+    if (end <= start) continue;
+
+    observedMs += end - start;
+    if (segment.online) {
+      onlineMs += end - start;
+    }
+  }
+
+  return { onlineMs, observedMs };
+}
+
+/**
+ * Percentage of observed time spent online (0-100), or 0 if nothing was observed
+ */
+export function availabilityPercent(summary: AvailabilitySummary): number {
+  if (summary.observedMs <= 0) return 0;
+  return Math.round((summary.onlineMs / summary.observedMs) * 100 * 100) / 100;
+}
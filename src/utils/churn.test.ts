@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Network Churn
+ *
+ * Run: npm test -- churn.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildChurnReport, createPresenceHistory, PresenceHistory, prunePresence, recordPresence } from './churn';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const GRACE = 10 * MINUTE;
+const START = Date.UTC(2026, 0, 1);
+
+// One observation every 5 minutes: pubkeys per observation
+function observe(history: PresenceHistory, observations: Array<[number, string[]]>): PresenceHistory {
+  for (const [minutes, pubkeys] of observations) {
+    recordPresence(history, pubkeys, START + minutes * MINUTE, GRACE);
+  }
+  return history;
+}
+
+function everyFiveMinutes(fromMinute: number, toMinute: number, pubkeys: (minute: number) => string[]): Array<[number, string[]]> {
+  const observations: Array<[number, string[]]> = [];
+  for (let minute = fromMinute; minute <= toMinute; minute += 5) {
+    observations.push([minute, pubkeys(minute)]);
+  }
+  return observations;
+}
+
+describe('recordPresence', () => {
+  it('should keep a run through short gaps and split it after longer absences', () => {
+    const history = observe(createPresenceHistory(), [
+      [0, ['a']], [5, []], [10, ['a']], [15, []], [20, []], [25, []], [30, ['a']],
+    ]);
+    expect(history.runs.get('a')).toEqual([
+      { start: START, end: START + 10 * MINUTE },
+      { start: START + 30 * MINUTE, end: START + 30 * MINUTE },
+    ]);
+  });
+
+  it('should keep nodes present across a gap in observations', () => {
+    const history = observe(createPresenceHistory(), [[0, ['a']], [60, ['a']]]);
+    expect(history.runs.get('a')).toEqual([{ start: START, end: START + 60 * MINUTE }]);
+  });
+});
+
+describe('prunePresence', () => {
+  it('should drop ended runs but keep ongoing ones whole', () => {
+    const history = observe(createPresenceHistory(), everyFiveMinutes(0, 120, (m) => (m < 30 ? ['a', 'b'] : ['a'])));
+    prunePresence(history, START + HOUR);
+    expect(history.runs.has('b')).toBe(false);
+    expect(history.runs.get('a')![0].start).toBe(START);
+  });
+});
+
+describe('buildChurnReport', () => {
+  // a: throughout; b: leaves after 30m; c: joins at 90m; d: leaves at 60m and rejoins at 100m
+  const history = observe(createPresenceHistory(), everyFiveMinutes(0, 120, (m) => [
+    'a',
+    ...(m <= 30 ? ['b'] : []),
+    ...(m >= 90 ? ['c'] : []),
+    ...(m <= 60 || m >= 100 ? ['d'] : []),
+  ]));
+  const report = buildChurnReport(history, GRACE);
+  const hour = report.windows.find((w) => w.window === '1h')!;
+
+  it('should report current nodes and median tenure', () => {
+    expect(report.observedSince).toBe(START);
+    expect(report.currentNodes).toBe(3);
+    // Tenures: a 120m, c 30m, d 20m
+    expect(report.medianTenureMs).toBe(30 * MINUTE);
+  });
+
+  it('should count joins and leaves within the window, excluding nodes present at the first observation', () => {
+    expect(hour).toMatchObject({
+      from: START + HOUR,
+      to: START + 2 * HOUR,
+      complete: true,
+      joins: 2,
+      leaves: 1,
+      joinRatePerHour: 2,
+      leaveRatePerHour: 1,
+      nodesAtStart: 2,
+      nodesAtEnd: 3,
+      netChange: 1,
+    });
+  });
+
+  it('should report the share of current nodes present for the whole window', () => {
+    expect(hour.presentThroughoutPercent).toBe(33.33);
+  });
+
+  it('should measure incomplete windows from the first observation', () => {
+    expect(report.windows.find((w) => w.window === '24h')).toMatchObject({
+      complete: false,
+      joins: 2,
+      leaves: 2,
+      joinRatePerHour: 1,
+      nodesAtStart: 3,
+      nodesAtEnd: 3,
+      netChange: 0,
+    });
+  });
+
+  it('should return no windows before the first observation', () => {
+    expect(buildChurnReport(createPresenceHistory(), GRACE)).toMatchObject({ currentNodes: 0, medianTenureMs: null, windows: [] });
+  });
+});
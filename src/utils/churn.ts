@@ -0,0 +1,181 @@
+/**
+ * Network churn helpers
+ *
+ * Each pubkey's presence in gossip is stored as runs of consecutive observations.
+ * A node missing for up to graceMs keeps its run (gossip doesn't return every node
+ * on every refresh); a node seen in two consecutive observations stays present even
+ * if the observations themselves are further apart (e.g. across a restart).
+ */
+
+import { ChurnReport, ChurnWindow, ChurnWindowLabel } from "../types/pnode";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CHURN_WINDOWS: Array<{ window: ChurnWindowLabel; ms: number }> = [
+  { window: "1h", ms: HOUR_MS },
+  { window: "24h", ms: 24 * HOUR_MS },
+  { window: "7d", ms: 7 * 24 * HOUR_MS },
+];
+
+export interface PresenceRun {
+  start: number; // Unix ms
+  end: number; // Unix ms, last observation the node was present in
+}
+
+export interface PresenceHistory {
+  firstObservation: number | null;
+  lastObservation: number | null;
+  runs: Map<string, PresenceRun[]>;
+}
+
+export function createPresenceHistory(): PresenceHistory {
+  return { firstObservation: null, lastObservation: null, runs: new Map() };
+}
+
+/**
+ * Record the pubkeys present in one gossip refresh (mutates the history)
+ */
+export function recordPresence(
+  history: PresenceHistory,
+  pubkeys: Iterable<string>,
+  timestamp: number,
+  graceMs: number
+): void {
+  if (history.lastObservation !== null && timestamp <= history.lastObservation) {
+    // Out-of-order or duplicate observation
+    return;
+  }
+
+  for (const pubkey of pubkeys) {
+    if (!pubkey) continue;
+    let runs = history.runs.get(pubkey);
+    if (!runs) {
+      runs = [];
+      history.runs.set(pubkey, runs);
+    }
+
+    const last = runs[runs.length - 1];
+    if (last && (last.end === history.lastObservation || timestamp - last.end <= graceMs)) {
+      last.end = timestamp;
+    } else {
+      runs.push({ start: timestamp, end: timestamp });
+    }
+  }
+
+  history.firstObservation ??= timestamp;
+  history.lastObservation = timestamp;
+}
+
+/**
+ * Drop runs that ended before the cutoff (mutates the history)
+ * Ongoing runs are kept whole so tenure isn't truncated.
+ */
+export function prunePresence(history: PresenceHistory, before: number): void {
+  for (const [pubkey, runs] of history.runs.entries()) {
+    let firstKept = 0;
+    while (firstKept < runs.length && runs[firstKept].end < before) {
+      firstKept++;
+    }
+    if (firstKept === runs.length) {
+      history.runs.delete(pubkey);
+    } else if (firstKept > 0) {
+      runs.splice(0, firstKept);
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function buildWindow(
+  history: PresenceHistory,
+  window: ChurnWindowLabel,
+  windowMs: number,
+  graceMs: number
+): ChurnWindow {
+  const to = history.lastObservation ?? 0;
+  const from = to - windowMs;
+  const observedSince = history.firstObservation ?? to;
+  // Incomplete windows are measured from the first observation
+  const start = Math.max(from, observedSince);
+  const isPresent = (run: PresenceRun) => to - run.end <= graceMs;
+
+  let joins = 0;
+  let leaves = 0;
+  let nodesAtStart = 0;
+  let nodesAtEnd = 0;
+  let presentThroughout = 0;
+
+  for (const runs of history.runs.values()) {
+    let presentAtStart = false;
+
+    for (const run of runs) {
+      const present = isPresent(run);
+      const end = present ? to : run.end;
+
+      // Runs starting at the first observation were already there, not joins
+      if (run.start > start) joins++;
+      if (!present && run.end >= start) leaves++;
+      if (run.start <= start && end >= start) presentAtStart = true;
+      if (present) {
+        nodesAtEnd++;
+        if (run.start <= start) presentThroughout++;
+      }
+    }
+
+    if (presentAtStart) nodesAtStart++;
+  }
+
+  const hours = (to - start) / HOUR_MS;
+  return {
+    window,
+    from,
+    to,
+    complete: observedSince <= from,
+    joins,
+    leaves,
+    joinRatePerHour: hours > 0 ? round(joins / hours) : 0,
+    leaveRatePerHour: hours > 0 ? round(leaves / hours) : 0,
+    nodesAtStart,
+    nodesAtEnd,
+    netChange: nodesAtEnd - nodesAtStart,
+    presentThroughoutPercent: nodesAtEnd > 0 ? round((presentThroughout / nodesAtEnd) * 100) : 0,
+  };
+}
+
+/**
+ * Churn over each trailing window, ending at the last observation
+ */
+export function buildChurnReport(
+  history: PresenceHistory,
+  graceMs: number,
+  windows: Array<{ window: ChurnWindowLabel; ms: number }> = CHURN_WINDOWS
+): ChurnReport {
+  const to = history.lastObservation;
+  const tenures: number[] = [];
+
+  if (to !== null) {
+    for (const runs of history.runs.values()) {
+      const last = runs[runs.length - 1];
+      if (last && to - last.end <= graceMs) {
+        tenures.push(to - last.start);
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    observedSince: history.firstObservation,
+    currentNodes: tenures.length,
+    medianTenureMs: median(tenures),
+    windows: to === null ? [] : windows.map(({ window, ms }) => buildWindow(history, window, ms, graceMs)),
+  };
+}
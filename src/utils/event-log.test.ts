@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Event Log Queries
+ *
+ * Run: npm test -- event-log.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { collectEventPage, eventLogRange, EventLogQuery, parseEventLogQuery } from './event-log';
+import { NodeEvent, NodeEventType } from '../types/pnode';
+
+const START = Date.UTC(2026, 0, 1);
+
+function event(seconds: number, pubkey: string, type: NodeEventType = 'node_offline'): NodeEvent {
+  const detectedAt = START + seconds * 1000;
+  return { id: String(detectedAt * 1000), type, pubkey, timestamp: new Date(detectedAt).toISOString() };
+}
+
+// Oldest first, as read from the log
+const events = [
+  event(0, 'a', 'node_first_seen'),
+  event(1, 'b', 'node_first_seen'),
+  event(2, 'a'),
+  event(3, 'b'),
+  event(4, 'a', 'node_online'),
+];
+
+async function* stream(items: NodeEvent[]): AsyncIterable<NodeEvent> {
+  yield* items;
+}
+
+function query(raw: Record<string, string>): EventLogQuery {
+  const parsed = parseEventLogQuery(raw, START + 60 * 1000);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.query;
+}
+
+async function pageThrough(raw: Record<string, string>): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const q = query(cursor ? { ...raw, cursor } : raw);
+    const range = eventLogRange(q);
+    const page = await collectEventPage(
+      stream(events.filter((e) => Date.parse(e.timestamp) >= range.from && Date.parse(e.timestamp) <= range.to)),
+      q
+    );
+    pages.push(page.items.map((e) => e.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('parseEventLogQuery', () => {
+  it('should default to newest first over the whole log', () => {
+    expect(query({})).toEqual({ from: 0, to: START + 60 * 1000, order: 'desc', limit: 100 });
+  });
+
+  it('should reject unknown types, bad ranges and bad cursors', () => {
+    expect(parseEventLogQuery({ types: 'node_offline,node_exploded' })).toEqual({ error: 'Unknown event type "node_exploded"' });
+    expect(parseEventLogQuery({ from: '2026-02-01', to: '2026-01-01' })).toEqual({ error: 'from must be before to' });
+    expect(parseEventLogQuery({ cursor: 'nope' })).toEqual({ error: 'cursor is invalid' });
+    expect(parseEventLogQuery({ limit: '0' })).toEqual({ error: 'limit must be a positive integer' });
+  });
+});
+
+describe('collectEventPage', () => {
+  it('should filter by pubkey and type', async () => {
+    const page = await collectEventPage(stream(events), query({ pubkey: 'a', types: 'node_offline,node_online' }));
+    expect(page.items.map((e) => e.type)).toEqual(['node_online', 'node_offline']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should page newest first without gaps or repeats', async () => {
+    const ids = events.map((e) => e.id);
+    expect(await pageThrough({ limit: '2' })).toEqual([[ids[4], ids[3]], [ids[2], ids[1]], [ids[0]]]);
+  });
+
+  it('should page oldest first when order=asc', async () => {
+    const ids = events.map((e) => e.id);
+    expect(await pageThrough({ limit: '2', order: 'asc' })).toEqual([[ids[0], ids[1]], [ids[2], ids[3]], [ids[4]]]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Filtering and cursor pagination for the persisted node event log (GET /events)
+ */
+
+import { NodeEvent, NodeEventPage, NodeEventType } from "../types/pnode";
+import { parseTimestamp } from "./timeseries";
+
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+export const MAX_EVENT_PAGE_SIZE = 1000;
+
+export const NODE_EVENT_TYPES: NodeEventType[] = [
+  "node_first_seen",
+  "node_rejoined",
+  "node_disappeared",
+  "node_offline",
+  "node_online",
+  "node_restarted",
+  "version_upgraded",
+  "version_downgraded",
+  "version_changed",
+  "storage_commitment_changed",
+  "address_changed",
+];
+
+// [detection time (Unix ms), event id] of the last event on the previous page
+type EventCursor = [number, number];
+
+export interface EventLogQuery {
+  pubkeys?: Set<string>;
+  types?: Set<NodeEventType>;
+  from: number;
+  to: number;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: EventCursor;
+}
+
+export type RawEventLogQuery = Record<string, string | undefined>;
+
+function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function encodeCursor(event: NodeEvent): string {
+  const key: EventCursor = [Date.parse(event.timestamp), Number(event.id)];
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): EventCursor | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(key) && key.length === 2 && Number.isFinite(key[0]) && Number.isFinite(key[1])) {
+      return key as EventCursor;
+    }
+  } catch (error) {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * Validate raw query string parameters
+ * `from` defaults to the start of the log and `to` to `now`.
+ */
+export function parseEventLogQuery(raw: RawEventLogQuery, now: number = Date.now()): { query: EventLogQuery } | { error: string } {
+  const from = raw.from ? parseTimestamp(raw.from) : 0;
+  const to = raw.to ? parseTimestamp(raw.to) : now;
+  if (from === null || to === null) {
+    return { error: "from and to must be ISO dates or Unix timestamps" };
+  }
+  if (from > to) {
+    return { error: "from must be before to" };
+  }
+
+  const query: EventLogQuery = { from, to, order: "desc", limit: DEFAULT_EVENT_PAGE_SIZE };
+
+  if (raw.pubkey !== undefined && raw.pubkey !== "") {
+    query.pubkeys = new Set(splitList(raw.pubkey));
+  }
+
+  if (raw.types !== undefined && raw.types !== "") {
+    const types = splitList(raw.types);
+    const invalid = types.find((t) => !NODE_EVENT_TYPES.includes(t as NodeEventType));
+    if (invalid) {
+      return { error: `Unknown event type "${invalid}"` };
+    }
+    query.types = new Set(types as NodeEventType[]);
+  }
+
+  if (raw.order !== undefined && raw.order !== "") {
+    if (raw.order !== "asc" && raw.order !== "desc") {
+      return { error: "order must be asc or desc" };
+    }
+    query.order = raw.order;
+  }
+
+  if (raw.limit !== undefined && raw.limit !== "") {
+    const limit = Number(raw.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: "limit must be a positive integer" };
+    }
+    query.limit = Math.min(limit, MAX_EVENT_PAGE_SIZE);
+  }
+
+  if (raw.cursor !== undefined && raw.cursor !== "") {
+    const cursor = decodeCursor(raw.cursor);
+    if (!cursor) {
+      return { error: "cursor is invalid" };
+    }
+    query.cursor = cursor;
+  }
+
+  return { query };
+}
+
+/**
+ * Time range the event log has to be read for, narrowed by the cursor
+ */
+export function eventLogRange(query: EventLogQuery): { from: number; to: number } {
+  if (!query.cursor) return { from: query.from, to: query.to };
+  const [cursorTime] = query.cursor;
+  return query.order === "asc"
+    ? { from: Math.max(query.from, cursorTime), to: query.to }
+    : { from: query.from, to: Math.min(query.to, cursorTime) };
+}
+
+function matchesEventQuery(event: NodeEvent, query: EventLogQuery): boolean {
+  if (query.types && !query.types.has(event.type)) return false;
+  if (query.pubkeys && !query.pubkeys.has(event.pubkey)) return false;
+  if (query.cursor) {
+    const id = Number(event.id);
+    return query.order === "asc" ? id > query.cursor[1] : id < query.cursor[1];
+  }
+  return true;
+}
+
+/**
+ * Build one page from events read oldest first
+ * Ascending pages stop reading once full; descending pages keep a window of the newest matches.
+ */
+export async function collectEventPage(events: AsyncIterable<NodeEvent>, query: EventLogQuery): Promise<NodeEventPage> {
+  const matches: NodeEvent[] = [];
+
+  for await (const event of events) {
+    if (!matchesEventQuery(event, query)) continue;
+    matches.push(event);
+    // One extra match tells whether another page exists
+    if (query.order === "asc" && matches.length > query.limit) break;
+    if (query.order === "desc" && matches.length > query.limit + 1) matches.shift();
+  }
+
+  const hasMore = matches.length > query.limit;
+  const items = query.order === "asc"
+    ? matches.slice(0, query.limit)
+    : matches.slice(-query.limit).reverse();
+
+  return {
+    count: items.length,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1]) : null,
+    items,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for CSV / NDJSON Export
+ *
+ * Run: npm test -- export-format.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  negotiateExportFormat,
+  negotiateReportFormat,
+  formatCsvValue,
+  createExportStream,
+  NODE_METRICS_EXPORT_COLUMNS,
+} from './export-format';
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('negotiateExportFormat', () => {
+  it('should prefer the format parameter over Accept', () => {
+    expect(negotiateExportFormat('csv', 'application/x-ndjson')).toEqual({ format: 'csv' });
+  });
+
+  it('should reject unknown formats', () => {
+    expect('error' in negotiateExportFormat('xml', undefined)).toBe(true);
+  });
+
+  it('should pick the highest q-value supported type', () => {
+    expect(negotiateExportFormat(undefined, 'application/json;q=0.5, text/csv;q=0.9')).toEqual({ format: 'csv' });
+    expect(negotiateExportFormat(undefined, 'application/x-ndjson')).toEqual({ format: 'ndjson' });
+  });
+
+  it('should default to JSON for missing, wildcard or unsupported Accept', () => {
+    expect(negotiateExportFormat(undefined, undefined)).toEqual({ format: 'json' });
+    expect(negotiateExportFormat(undefined, '*/*')).toEqual({ format: 'json' });
+    expect(negotiateExportFormat(undefined, 'text/html')).toEqual({ format: 'json' });
+  });
+});
+
+describe('negotiateReportFormat', () => {
+  it('should accept markdown and html via format or Accept', () => {
+    expect(negotiateReportFormat('markdown', undefined)).toEqual({ format: 'markdown' });
+    expect(negotiateReportFormat(undefined, 'text/html,application/xhtml+xml,*/*;q=0.8')).toEqual({ format: 'html' });
+    expect(negotiateReportFormat(undefined, '*/*')).toEqual({ format: 'json' });
+    expect('error' in negotiateReportFormat('csv', undefined)).toBe(true);
+  });
+});
+
+describe('formatCsvValue', () => {
+  it('should quote fields containing separators, quotes or newlines', () => {
+    expect(formatCsvValue('a,b')).toBe('"a,b"');
+    expect(formatCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvValue('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should leave empty cells for missing values', () => {
+    expect(formatCsvValue(undefined)).toBe('');
+    expect(formatCsvValue(null)).toBe('');
+  });
+
+  it('should neutralize spreadsheet formulas in strings but not negative numbers', () => {
+    expect(formatCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(formatCsvValue(-1.5)).toBe('-1.5');
+  });
+});
+
+describe('createExportStream', () => {
+  const rows = [
+    { tier: 'Good', pubkey: 'a', healthScore: 80, uptime24h: 99, storageUtilization: 10 },
+    { pubkey: 'b', healthScore: 50, uptime24h: 40, storageUtilization: 90, tier: 'Poor' },
+  ];
+
+  it('should write CSV with a header in the given column order', async () => {
+    const csv = await readAll(createExportStream('csv', rows, NODE_METRICS_EXPORT_COLUMNS));
+    expect(csv).toBe(
+      'pubkey,healthScore,uptime24h,storageUtilization,tier\r\n' +
+      'a,80,99,10,Good\r\n' +
+      'b,50,40,90,Poor\r\n'
+    );
+  });
+
+  it('should write one JSON object per line for NDJSON', async () => {
+    const ndjson = await readAll(createExportStream('ndjson', rows, []));
+    const lines = ndjson.trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toEqual(rows);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * CSV / NDJSON export with content negotiation
+ * (plus Markdown / HTML for rendered reports)
+ *
+ * The format comes from the `format` query parameter when present, otherwise
+ * from the Accept header (highest q-value wins, JSON by default). Exports are
+ * written as streams so large responses are never built as a single string.
+ */
+
+import { Readable } from "stream";
+import { FastifyReply } from "fastify";
+import { NodeMetrics, StorageAnalytics } from "../types/pnode";
+import { PROJECTABLE_FIELDS } from "./pnode-query";
+
+export type ExportFormat = "json" | "csv" | "ndjson";
+
+const MEDIA_TYPES: Record<string, ExportFormat> = {
+  "application/json": "json",
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/ndjson": "ndjson",
+};
+
+const CONTENT_TYPES: Record<Exclude<ExportFormat, "json">, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Stable CSV column order per resource
+export const PNODE_EXPORT_COLUMNS: string[] = [...PROJECTABLE_FIELDS];
+export const NODE_METRICS_EXPORT_COLUMNS: Array<keyof NodeMetrics> = [
+  "pubkey",
+  "healthScore",
+  "uptime24h",
+  "storageUtilization",
+  "tier",
+];
+export const STORAGE_EXPORT_COLUMNS: Array<keyof StorageAnalytics> = [
+  "pubkey",
+  "storageUsed",
+  "storageTotal",
+  "utilizationPercent",
+];
+
+/**
+ * Pick the export format from `format=` or the Accept header
+ */
+export function negotiateExportFormat(
+  format: string | undefined,
+  accept: string | undefined
+): { format: ExportFormat } | { error: string } {
+  if (format !== undefined && format !== "") {
+    const normalized = format.toLowerCase();
+    if (normalized !== "json" && normalized !== "csv" && normalized !== "ndjson") {
+      return { error: "format must be json, csv or ndjson" };
+    }
+    return { format: normalized };
+  }
+
+  return { format: preferredFromAccept(accept, MEDIA_TYPES) ?? "json" };
+}
+
+/**
+ * Supported format with the highest q-value in an Accept header
+ * Unsupported or wildcard media types are ignored.
+ */
+function preferredFromAccept<T extends string>(accept: string | undefined, mediaTypes: Record<string, T>): T | null {
+  if (!accept) return null;
+
+  let best: { format: T; q: number } | null = null;
+  for (const part of accept.split(",")) {
+    const [mediaType, ...params] = part.trim().split(";").map((p) => p.trim());
+    const candidate = mediaTypes[mediaType.toLowerCase()];
+    if (!candidate) continue;
+
+    const qParam = params.find((p) => p.startsWith("q="));
+    const q = qParam ? Number(qParam.slice(2)) : 1;
+    if (!Number.isFinite(q) || q <= 0) continue;
+    if (!best || q > best.q) {
+      best = { format: candidate, q };
+    }
+  }
+
+  return best?.format ?? null;
+}
+
+export type ReportFormat = "json" | "markdown" | "html";
+
+const REPORT_MEDIA_TYPES: Record<string, ReportFormat> = {
+  "application/json": "json",
+  "text/markdown": "markdown",
+  "text/html": "html",
+};
+
+export const REPORT_CONTENT_TYPES: Record<Exclude<ReportFormat, "json">, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+/**
+ * Pick a rendered document format from `format=` or the Accept header (JSON by default)
+ */
+export function negotiateReportFormat(
+  format: string | undefined,
+  accept: string | undefined
+): { format: ReportFormat } | { error: string } {
+  if (format !== undefined && format !== "") {
+    const normalized = format.toLowerCase();
+    if (normalized !== "json" && normalized !== "markdown" && normalized !== "html") {
+      return { error: "format must be json, markdown or html" };
+    }
+    return { format: normalized };
+  }
+
+  return { format: preferredFromAccept(accept, REPORT_MEDIA_TYPES) ?? "json" };
+}
+
+/**
+ * Mark a response as negotiated on Accept, keeping Vary values set by other plugins (e.g. CORS)
+ */
+export function varyOnAccept(reply: FastifyReply): void {
+  const existing = reply.getHeader("Vary");
+  const values = existing ? String(existing).split(",").map((v) => v.trim()) : [];
+  if (!values.some((v) => v.toLowerCase() === "accept")) {
+    reply.header("Vary", [...values, "Accept"].join(", "));
+  }
+}
+
+/**
+ * Format one CSV field (RFC 4180 quoting)
+ * Strings starting with spreadsheet formula characters are prefixed with ' to prevent formula injection.
+ */
+export function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+
+  let text: string;
+  if (typeof value === "string") {
+    text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvValue).join(",") + "\r\n";
+}
+
+function* csvLines(rows: Iterable<object>, columns: string[]): Generator<string> {
+  yield formatCsvRow(columns);
+  for (const row of rows) {
+    const record = row as Record<string, unknown>;
+    yield formatCsvRow(columns.map((column) => record[column]));
+  }
+}
+
+function* ndjsonLines(rows: Iterable<object>): Generator<string> {
+  for (const row of rows) {
+    yield JSON.stringify(row) + "\n";
+  }
+}
+
+/**
+ * Stream rows as CSV or NDJSON
+ */
+export function createExportStream(format: Exclude<ExportFormat, "json">, rows: Iterable<object>, columns: string[]): Readable {
+  return Readable.from(format === "csv" ? csvLines(rows, columns) : ndjsonLines(rows));
+}
+
+/**
+ * Send rows in a non-JSON export format as a download
+ */
+export function sendExport(
+  reply: FastifyReply,
+  format: Exclude<ExportFormat, "json">,
+  filename: string,
+  rows: Iterable<object>,
+  columns: string[]
+): FastifyReply {
+  return reply
+    .code(200)
+    .header("Content-Type", CONTENT_TYPES[format])
+    .header("Content-Disposition", `attachment; filename="${filename}.${format}"`)
+    .send(createExportStream(format, rows, columns));
+}
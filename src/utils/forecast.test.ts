@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Trend Forecasting
+ *
+ * Run: npm test -- forecast.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { fitTrends, forecastCrossings, forecastSeries, parsePercentList, preferredTrend, TimedValue } from './forecast';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function series(days: number, value: (day: number) => number): TimedValue[] {
+  return Array.from({ length: days }, (_, day) => ({ timestamp: START + day * DAY, value: value(day) }));
+}
+
+// Small deterministic noise so residuals (and therefore bands) are non-zero
+const noise = (day: number) => ((day * 7) % 5) - 2;
+
+describe('fitTrends', () => {
+  it('should need at least three points', () => {
+    expect(fitTrends(series(2, (d) => d))).toEqual([]);
+  });
+
+  it('should recover a linear trend and prefer it for linear data', () => {
+    const trends = fitTrends(series(30, (d) => 100 + 10 * d + noise(d) * 0.1));
+    const linear = trends.find((t) => t.fit.model === 'linear')!;
+
+    expect(trends.map((t) => t.fit.model)).toEqual(['linear', 'exponential']);
+    expect(linear.fit.slopePerDay).toBeCloseTo(10, 1);
+    expect(linear.fit.r2).toBeGreaterThan(0.99);
+    expect(preferredTrend(trends)!.fit.model).toBe('linear');
+  });
+
+  it('should prefer the exponential model for compounding growth', () => {
+    const trends = fitTrends(series(60, (d) => 100 * 1.05 ** d * (1 + noise(d) * 0.001)));
+    const best = preferredTrend(trends)!;
+
+    expect(best.fit.model).toBe('exponential');
+    expect(best.fit.dailyGrowthPercent).toBeCloseTo(5, 1);
+  });
+
+  it('should skip the exponential model when values are not positive', () => {
+    expect(fitTrends(series(5, (d) => d)).map((t) => t.fit.model)).toEqual(['linear']);
+  });
+
+  it('should widen prediction bands further from the data', () => {
+    const [linear] = fitTrends(series(30, (d) => 100 + 10 * d + noise(d)));
+    const near = linear.predict(START + 30 * DAY);
+    const far = linear.predict(START + 300 * DAY);
+
+    expect(near.lower).toBeLessThan(near.value);
+    expect(near.upper).toBeGreaterThan(near.value);
+    expect(far.upper - far.lower).toBeGreaterThan(near.upper - near.lower);
+  });
+});
+
+describe('forecastSeries', () => {
+  it('should report the current value and project the preferred model', () => {
+    const { forecast } = forecastSeries(series(10, (d) => 50 + d), 30 * DAY);
+
+    expect(forecast.current).toBe(59);
+    expect(forecast.preferredModel).not.toBeNull();
+    expect(forecast.projection).toHaveLength(30);
+    expect(forecast.projection[29].timestamp).toBe(START + 9 * DAY + 30 * DAY);
+  });
+
+  it('should return no fits for an empty series', () => {
+    expect(forecastSeries([], DAY).forecast).toEqual({ current: null, fits: [], preferredModel: null, projection: [] });
+  });
+});
+
+describe('forecastCrossings', () => {
+  const points = series(20, (d) => 50 + d + noise(d) * 0.2);
+  const { trend, forecast } = forecastSeries(points, 100 * DAY);
+  const last = points[points.length - 1].timestamp;
+
+  it('should predict when a rising series reaches each threshold, bracketed by the bands', () => {
+    const [crossing] = forecastCrossings(trend, forecast.current, [80], last, 100 * DAY);
+
+    // ~69 today, +1/day: expected in about 11 days
+    expect(crossing.alreadyExceeded).toBe(false);
+    expect((crossing.expectedAt! - last) / DAY).toBeGreaterThan(9);
+    expect((crossing.expectedAt! - last) / DAY).toBeLessThan(13);
+    expect(crossing.earliestAt!).toBeLessThanOrEqual(crossing.expectedAt!);
+    expect(crossing.latestAt!).toBeGreaterThanOrEqual(crossing.expectedAt!);
+  });
+
+  it('should flag exceeded thresholds and leave unreachable ones null', () => {
+    const [exceeded, unreachable] = forecastCrossings(trend, forecast.current, [60, 100], last, 10 * DAY);
+
+    expect(exceeded).toEqual({ thresholdPercent: 60, alreadyExceeded: true, expectedAt: null, earliestAt: null, latestAt: null });
+    expect(unreachable.alreadyExceeded).toBe(false);
+    expect(unreachable.expectedAt).toBeNull();
+  });
+});
+
+describe('parsePercentList', () => {
+  it('should parse, sort and deduplicate percentages', () => {
+    expect(parsePercentList('95, 80,90,80')).toEqual([80, 90, 95]);
+  });
+
+  it('should reject invalid lists', () => {
+    expect(parsePercentList('')).toBeNull();
+    expect(parsePercentList('80,abc')).toBeNull();
+    expect(parsePercentList('0,50')).toBeNull();
+    expect(parsePercentList('150')).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Trend fitting and threshold forecasting for time series
+ *
+ * Linear and exponential (log-linear) least-squares fits. Bands are approximate
+ * 95% prediction intervals; exponential bands are computed in log space, so they
+ * widen with the value and never go negative. Time is measured in days from the
+ * first point to keep the regression numerically stable.
+ */
+
+import { ForecastPoint, SeriesForecast, ThresholdCrossing, TrendFit } from "../types/pnode";
+
+export const MIN_FORECAST_POINTS = 3;
+const Z_95 = 1.96;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CROSSING_SCAN_STEPS = 500;
+const PROJECTION_STEPS = 30;
+
+export interface TimedValue {
+  timestamp: number; // Unix ms
+  value: number;
+}
+
+export interface FittedTrend {
+  fit: TrendFit;
+  predict(timestamp: number): { value: number; lower: number; upper: number };
+}
+
+interface Regression {
+  intercept: number;
+  slope: number;
+  meanX: number;
+  sxx: number;
+  residualStdError: number;
+  n: number;
+}
+
+function regress(xs: number[], ys: number[]): Regression | null {
+  const n = xs.length;
+  if (n < MIN_FORECAST_POINTS) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  let sse = 0;
+  for (let i = 0; i < n; i++) {
+    sse += (ys[i] - (intercept + slope * xs[i])) ** 2;
+  }
+
+  return { intercept, slope, meanX, sxx, residualStdError: Math.sqrt(sse / (n - 2)), n };
+}
+
+function predictionHalfWidth(reg: Regression, x: number): number {
+  return Z_95 * reg.residualStdError * Math.sqrt(1 + 1 / reg.n + (x - reg.meanX) ** 2 / reg.sxx);
+}
+
+function goodnessOfFit(points: TimedValue[], predict: (timestamp: number) => number) {
+  const mean = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  let sse = 0;
+  let sst = 0;
+  for (const point of points) {
+    sse += (point.value - predict(point.timestamp)) ** 2;
+    sst += (point.value - mean) ** 2;
+  }
+  return {
+    r2: sst > 0 ? Math.round((1 - sse / sst) * 10000) / 10000 : 1,
+    rmse: round(Math.sqrt(sse / points.length)),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Fit every model the data supports (exponential needs strictly positive values), oldest point first
+ */
+export function fitTrends(points: TimedValue[]): FittedTrend[] {
+  if (points.length < MIN_FORECAST_POINTS) return [];
+
+  const origin = points[0].timestamp;
+  const toX = (timestamp: number) => (timestamp - origin) / DAY_MS;
+  const xs = points.map((p) => toX(p.timestamp));
+  const lastX = xs[xs.length - 1];
+  const trends: FittedTrend[] = [];
+
+  const linear = regress(xs, points.map((p) => p.value));
+  if (linear) {
+    const value = (timestamp: number) => linear.intercept + linear.slope * toX(timestamp);
+    const fitted = linear.intercept + linear.slope * lastX;
+    trends.push({
+      fit: {
+        model: "linear",
+        ...goodnessOfFit(points, value),
+        slopePerDay: round(linear.slope),
+        dailyGrowthPercent: fitted !== 0 ? round((linear.slope / fitted) * 100) : 0,
+      },
+      predict: (timestamp) => {
+        const x = toX(timestamp);
+        const half = predictionHalfWidth(linear, x);
+        const v = linear.intercept + linear.slope * x;
+        return { value: v, lower: v - half, upper: v + half };
+      },
+    });
+  }
+
+  if (points.every((p) => p.value > 0)) {
+    const logLinear = regress(xs, points.map((p) => Math.log(p.value)));
+    if (logLinear) {
+      const value = (timestamp: number) => Math.exp(logLinear.intercept + logLinear.slope * toX(timestamp));
+      const fitted = Math.exp(logLinear.intercept + logLinear.slope * lastX);
+      trends.push({
+        fit: {
+          model: "exponential",
+          ...goodnessOfFit(points, value),
+          slopePerDay: round(fitted * logLinear.slope),
+          dailyGrowthPercent: round((Math.exp(logLinear.slope) - 1) * 100),
+        },
+        predict: (timestamp) => {
+          const x = toX(timestamp);
+          const half = predictionHalfWidth(logLinear, x);
+          const log = logLinear.intercept + logLinear.slope * x;
+          return { value: Math.exp(log), lower: Math.exp(log - half), upper: Math.exp(log + half) };
+        },
+      });
+    }
+  }
+
+  return trends;
+}
+
+/**
+ * The fit with the lowest RMSE on the observed data
+ */
+export function preferredTrend(trends: FittedTrend[]): FittedTrend | null {
+  return trends.reduce<FittedTrend | null>((best, trend) => (!best || trend.fit.rmse < best.fit.rmse ? trend : best), null);
+}
+
+/**
+ * Evenly spaced predictions from `start` to `start + horizonMs`, with the lower band clamped at 0
+ */
+export function projectTrend(trend: FittedTrend, start: number, horizonMs: number, steps: number): ForecastPoint[] {
+  const points: ForecastPoint[] = [];
+  for (let i = 1; i <= steps; i++) {
+    const timestamp = Math.round(start + (horizonMs * i) / steps);
+    const { value, lower, upper } = trend.predict(timestamp);
+    points.push({ timestamp, value: round(value), lower: round(Math.max(0, lower)), upper: round(upper) });
+  }
+  return points;
+}
+
+function firstCrossing(
+  predict: (timestamp: number) => number,
+  threshold: number,
+  start: number,
+  horizonMs: number
+): number | null {
+  for (let i = 1; i <= CROSSING_SCAN_STEPS; i++) {
+    const timestamp = Math.round(start + (horizonMs * i) / CROSSING_SCAN_STEPS);
+    if (predict(timestamp) >= threshold) return timestamp;
+  }
+  return null;
+}
+
+/**
+ * When a rising series is expected to reach each threshold within the horizon
+ * earliestAt follows the upper band and latestAt the lower band; null means not within the horizon.
+ */
+export function forecastCrossings(
+  trend: FittedTrend | null,
+  current: number | null,
+  thresholds: number[],
+  start: number,
+  horizonMs: number
+): ThresholdCrossing[] {
+  return thresholds.map((threshold) => {
+    const alreadyExceeded = current !== null && current >= threshold;
+    if (!trend || alreadyExceeded) {
+      return { thresholdPercent: threshold, alreadyExceeded, expectedAt: null, earliestAt: null, latestAt: null };
+    }
+
+    return {
+      thresholdPercent: threshold,
+      alreadyExceeded,
+      expectedAt: firstCrossing((t) => trend.predict(t).value, threshold, start, horizonMs),
+      earliestAt: firstCrossing((t) => trend.predict(t).upper, threshold, start, horizonMs),
+      latestAt: firstCrossing((t) => trend.predict(t).lower, threshold, start, horizonMs),
+    };
+  });
+}
+
+/**
+ * Fit a series and project the preferred model over the horizon
+ * Returns the preferred trend too so callers can forecast threshold crossings with it.
+ */
+export function forecastSeries(points: TimedValue[], horizonMs: number): { forecast: SeriesForecast; trend: FittedTrend | null } {
+  const trends = fitTrends(points);
+  const trend = preferredTrend(trends);
+  const last = points[points.length - 1];
+
+  return {
+    trend,
+    forecast: {
+      current: last ? round(last.value) : null,
+      fits: trends.map((t) => t.fit),
+      preferredModel: trend?.fit.model ?? null,
+      projection: trend && last ? projectTrend(trend, last.timestamp, horizonMs, PROJECTION_STEPS) : [],
+    },
+  };
+}
+
+/**
+ * Parse comma-separated percentages in (0, 100], sorted ascending without duplicates
+ * Returns null if any entry is invalid or the list is empty
+ */
+export function parsePercentList(value: string): number[] | null {
+  const parts = value.split(",").map((part) => part.trim()).filter(Boolean);
+  const values = parts.map(Number);
+  if (values.length === 0 || values.some((v) => !Number.isFinite(v) || v <= 0 || v > 100)) return null;
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
@@ -12,7 +12,9 @@ import {
   calculateHealthScore,
   getNodeTier,
   calculateUtilization,
+  explainHealthScore,
 } from './format';
+import { ScoringConfigSchema } from '../config/scoring';
 
 describe('calculateUptime24h', () => {
   it('should convert 12 hours (43200 seconds) to 50%', () => {
@@ -129,3 +131,54 @@ describe('calculateUtilization', () => {
   });
 });
 
+
+describe('explainHealthScore', () => {
+  const config = ScoringConfigSchema.parse({});
+
+  it('should reproduce calculateHealthScore with the default model', () => {
+    const explanation = explainHealthScore(50, 20, true, {}, config);
+    expect(explanation.score).toBe(69);
+    expect(explanation.tier).toBe('Poor');
+  });
+
+  it('should report each component contribution', () => {
+    const explanation = explainHealthScore(100, 80, true, {}, config);
+    expect(explanation.components).toEqual([
+      { factor: 'uptime', value: 100, weight: 0.5, contribution: 50 },
+      { factor: 'storage', value: 20, weight: 0.3, contribution: 6 },
+      { factor: 'online', value: 100, weight: 0.2, contribution: 20 },
+    ]);
+  });
+
+  it('should normalize weights over factors that have data', () => {
+    const custom = ScoringConfigSchema.parse({
+      weights: { uptime: 1, storage: 0, online: 0, versionCurrency: 1 },
+    });
+
+    // Version factor enabled and known: (100 * 0.5) + (0 * 0.5)
+    expect(explainHealthScore(100, 0, true, { versionCurrent: false }, custom).score).toBe(50);
+    // Version factor unknown: uptime carries the full weight
+    expect(explainHealthScore(100, 0, true, {}, custom).score).toBe(100);
+  });
+
+  it('should use configured tier thresholds', () => {
+    const custom = ScoringConfigSchema.parse({ tiers: { excellent: 95, good: 60 } });
+    expect(getNodeTier(90, custom)).toBe('Good');
+    expect(getNodeTier(59, custom)).toBe('Poor');
+  });
+});
+
+describe('ScoringConfigSchema', () => {
+  it('should reject negative weights', () => {
+    expect(ScoringConfigSchema.safeParse({ weights: { uptime: -1 } }).success).toBe(false);
+  });
+
+  it('should reject tiers where good exceeds excellent', () => {
+    expect(ScoringConfigSchema.safeParse({ tiers: { excellent: 70, good: 80 } }).success).toBe(false);
+  });
+
+  it('should reject a model with all weights at zero', () => {
+    const weights = { uptime: 0, storage: 0, online: 0, versionCurrency: 0, ram: 0, cpu: 0 };
+    expect(ScoringConfigSchema.safeParse({ weights }).success).toBe(false);
+  });
+});
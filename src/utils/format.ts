@@ -1,5 +1,7 @@
-import { PNode } from "../types/pnode";
+import { PNode, HealthScoreExplanation, HealthScoreComponent } from "../types/pnode";
+import { scoringConfig, ScoringConfig, ScoringFactor } from "../config/scoring";
 import { Pod } from "xandeum-prpc";
+import { extractIp } from "./address";
 
 const ONLINE_THRESHOLD_SECONDS = Number(process.env.ONLINE_THRESHOLD_SECONDS) || 300;
 
@@ -35,7 +37,7 @@ export function normalizePNode(pod: Pod): PNode {
     storageUsed: pod.storage_used || 0,
     storageTotal: storageTotal, 
     uptime: uptime30dNormalized,
-    ip: pod.address || "",
+    ip: extractIp(pod.address) ?? pod.address ?? "",
     lastSeen: lastSeen,
     address: pod.address,
     isPublic: pod.is_public,
@@ -87,6 +89,10 @@ export function formatUptimeHuman(uptimeSeconds: number): string {
   return parts.join(" ");
 }
 
+/**
+ * Heuristic 24h uptime from the node's uptime counter
+ * Only used as a fallback until observed availability history is available
+ */
 export function calculateUptime24h(uptimeSeconds: number): number {
   if (uptimeSeconds < 0) return 0;
   const secondsIn24h = 86400;
@@ -94,26 +100,77 @@ export function calculateUptime24h(uptimeSeconds: number): number {
   return Math.min(100, Math.max(0, percentage));
 }
 
+export interface HealthScoreExtras {
+  versionCurrent?: boolean; // Whether the node runs the current version
+  ramPercent?: number; // RAM used / total from NodeStats (0-100)
+  cpuPercent?: number; // CPU usage from NodeStats (0-100)
+}
+
+/**
+ * Break a health score down into per-factor contributions
+ * Each factor value is clamped to 0-100; weights are normalized over the factors
+ * that have data, and a factor's contribution is value * normalized weight.
+ */
+export function explainHealthScore(
+  uptime24h: number,
+  storageUtilization: number,
+  isOnline: boolean,
+  extras: HealthScoreExtras = {},
+  config: ScoringConfig = scoringConfig
+): HealthScoreExplanation {
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  const values: Record<ScoringFactor, number | undefined> = {
+    uptime: clamp(uptime24h),
+    storage: 100 - clamp(storageUtilization),
+    online: isOnline ? 100 : 0,
+    versionCurrency: extras.versionCurrent === undefined ? undefined : (extras.versionCurrent ? 100 : 0),
+    ram: extras.ramPercent === undefined ? undefined : 100 - clamp(extras.ramPercent),
+    cpu: extras.cpuPercent === undefined ? undefined : 100 - clamp(extras.cpuPercent),
+  };
+
+  const factors = (Object.keys(config.weights) as ScoringFactor[])
+    .filter((factor) => config.weights[factor] > 0 && values[factor] !== undefined);
+  const totalWeight = factors.reduce((sum, factor) => sum + config.weights[factor], 0);
+
+  const components: HealthScoreComponent[] = factors.map((factor) => {
+    const value = values[factor] as number;
+    const weight = totalWeight > 0 ? config.weights[factor] / totalWeight : 0;
+    return {
+      factor,
+      value: Math.round(value * 100) / 100,
+      weight: Math.round(weight * 10000) / 10000,
+      contribution: Math.round(value * weight * 100) / 100,
+    };
+  });
+
+  const totalScore = factors.reduce((sum, factor) => {
+    const weight = config.weights[factor] / totalWeight;
+    return sum + (values[factor] as number) * weight;
+  }, 0);
+  const score = Math.round(Math.min(100, Math.max(0, totalScore)) * 100) / 100;
+
+  return {
+    score,
+    tier: getNodeTier(score, config),
+    components,
+    thresholds: { ...config.tiers },
+  };
+}
+
 export function calculateHealthScore(
   uptime24h: number,
   storageUtilization: number,
-  isOnline: boolean
+  isOnline: boolean,
+  extras: HealthScoreExtras = {},
+  config: ScoringConfig = scoringConfig
 ): number {
-  const uptimeScore = uptime24h * 0.5;
-  const clampedUtilization = Math.min(100, Math.max(0, storageUtilization));
-  const storageScore = (100 - clampedUtilization) * 0.3;
-  const onlineScore = isOnline ? 100 : 0;
-  const onlineScoreWeighted = onlineScore * 0.2;
-  
-  const totalScore = uptimeScore + storageScore + onlineScoreWeighted;
-  return Math.round(Math.min(100, Math.max(0, totalScore)) * 100) / 100;
+  return explainHealthScore(uptime24h, storageUtilization, isOnline, extras, config).score;
 }
 
 export type NodeTier = "Excellent" | "Good" | "Poor";
 
-export function getNodeTier(healthScore: number): NodeTier {
-  if (healthScore >= 90) return "Excellent";
-  if (healthScore >= 75) return "Good";
+export function getNodeTier(healthScore: number, config: ScoringConfig = scoringConfig): NodeTier {
+  if (healthScore >= config.tiers.excellent) return "Excellent";
+  if (healthScore >= config.tiers.good) return "Good";
   return "Poor";
 }
-
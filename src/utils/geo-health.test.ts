@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Geo Health Aggregates
+ *
+ * Run: npm test -- geo-health.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildGeoHealthReport } from './geo-health';
+import { MapNode, NodeMetrics, PNode, PNodeStatus } from '../types/pnode';
+
+const GB = 1e9;
+
+function mapNode(pubkey: string, country: string, region: string, status: PNodeStatus, version: string): MapNode {
+  return { pubkey, lat: 0, lng: 0, country, region, status, healthScore: 0, uptime24h: 0, storageUtilization: 0, version, lastSeen: '' };
+}
+
+function pnode(pubkey: string, storageUsed: number, storageCommitted?: number): PNode {
+  return { pubkey, status: 'online', version: '', storageUsed, storageTotal: 100 * GB, storageCommitted, uptime: 0, ip: '', lastSeen: '' };
+}
+
+function metrics(pubkey: string, healthScore: number, uptime24h: number): NodeMetrics {
+  return { pubkey, healthScore, uptime24h, storageUtilization: 0, tier: 'Good' };
+}
+
+const mapNodes = [
+  mapNode('a', 'Germany', 'Hesse', 'online', '0.8.0'),
+  mapNode('b', 'Germany', 'Hesse', 'offline', '0.7.3'),
+  mapNode('c', 'Germany', 'Bavaria', 'online', '0.8.0'),
+  mapNode('d', 'United States', 'Georgia', 'online', '0.8.0'),
+  mapNode('e', 'Georgia', 'Georgia', 'online', '0.8.0'),
+];
+const nodes = [
+  pnode('a', 10 * GB, 200 * GB),
+  pnode('b', 5 * GB),
+  pnode('c', 1 * GB, 50 * GB),
+  pnode('d', 0, 10 * GB),
+  pnode('e', 0, 10 * GB),
+  pnode('unlocated', 0, 10 * GB),
+];
+const nodeMetrics = [metrics('a', 90, 100), metrics('b', 40, 50)];
+
+describe('buildGeoHealthReport', () => {
+  const report = buildGeoHealthReport(mapNodes, nodeMetrics, nodes, Date.UTC(2026, 0, 1));
+
+  it('should aggregate status, metrics, storage and versions per country', () => {
+    expect(report.countries[0]).toEqual({
+      country: 'Germany',
+      nodes: 3,
+      onlineNodes: 2,
+      onlinePercentage: 66.67,
+      averageHealthScore: 65,
+      averageUptime24h: 75,
+      totalStorageCommitted: 350 * GB,
+      totalStorageUsed: 16 * GB,
+      versions: [
+        { version: '0.8.0', count: 2, percentage: 66.67 },
+        { version: '0.7.3', count: 1, percentage: 33.33 },
+      ],
+    });
+  });
+
+  it('should leave averages empty for groups without metrics', () => {
+    const us = report.countries.find((c) => c.country === 'United States');
+    expect(us).toMatchObject({ onlinePercentage: 100, averageHealthScore: null, averageUptime24h: null });
+  });
+
+  it('should keep equally named regions in different countries apart', () => {
+    const georgia = report.regions.filter((r) => r.region === 'Georgia').map((r) => r.country);
+    expect(georgia).toEqual(['Georgia', 'United States']);
+    expect(report.regions.find((r) => r.region === 'Hesse')?.nodes).toBe(2);
+  });
+
+  it('should count nodes without a location', () => {
+    expect(report.locatedNodes).toBe(5);
+    expect(report.unlocatedNodes).toBe(1);
+  });
+});
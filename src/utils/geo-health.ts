@@ -0,0 +1,123 @@
+/**
+ * Per-country and per-region health aggregates
+ *
+ * Joins map nodes (geo location and status) with node metrics (health score,
+ * uptime24h) and pNode storage fields. Averages only include nodes that have
+ * metrics, so nodes not scored yet don't pull them towards zero.
+ */
+
+import { CountryHealth, GeoHealthAggregate, GeoHealthReport, MapNode, NodeMetrics, PNode, RegionHealth } from "../types/pnode";
+
+interface GroupAccumulator {
+  nodes: number;
+  onlineNodes: number;
+  scored: number;
+  healthScoreSum: number;
+  uptime24hSum: number;
+  storageCommitted: number;
+  storageUsed: number;
+  versions: Map<string, number>;
+}
+
+function createAccumulator(): GroupAccumulator {
+  return {
+    nodes: 0,
+    onlineNodes: 0,
+    scored: 0,
+    healthScoreSum: 0,
+    uptime24hSum: 0,
+    storageCommitted: 0,
+    storageUsed: 0,
+    versions: new Map(),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addNode(group: GroupAccumulator, mapNode: MapNode, metrics?: NodeMetrics, node?: PNode): void {
+  group.nodes++;
+  if (mapNode.status === "online") group.onlineNodes++;
+  if (metrics) {
+    group.scored++;
+    group.healthScoreSum += metrics.healthScore;
+    group.uptime24hSum += metrics.uptime24h;
+  }
+  if (node) {
+    group.storageCommitted += node.storageCommitted ?? node.storageTotal ?? 0;
+    group.storageUsed += node.storageUsed || 0;
+  }
+  const version = mapNode.version || "unknown";
+  group.versions.set(version, (group.versions.get(version) ?? 0) + 1);
+}
+
+function finalize(group: GroupAccumulator): GeoHealthAggregate {
+  return {
+    nodes: group.nodes,
+    onlineNodes: group.onlineNodes,
+    onlinePercentage: round((group.onlineNodes / group.nodes) * 100),
+    averageHealthScore: group.scored > 0 ? round(group.healthScoreSum / group.scored) : null,
+    averageUptime24h: group.scored > 0 ? round(group.uptime24hSum / group.scored) : null,
+    totalStorageCommitted: group.storageCommitted,
+    totalStorageUsed: group.storageUsed,
+    versions: Array.from(group.versions.entries())
+      .map(([version, count]) => ({ version, count, percentage: round((count / group.nodes) * 100) }))
+      .sort((a, b) => b.count - a.count || a.version.localeCompare(b.version)),
+  };
+}
+
+/**
+ * Aggregate located nodes per country and per (country, region)
+ *
+ * @param nodes All nodes in gossip, for storage fields and the number that could not be located
+ */
+export function buildGeoHealthReport(
+  mapNodes: MapNode[],
+  metrics: NodeMetrics[],
+  nodes: PNode[],
+  now: number = Date.now()
+): GeoHealthReport {
+  const metricsByPubkey = new Map(metrics.map((m) => [m.pubkey, m]));
+  const nodesByPubkey = new Map(nodes.map((n) => [n.pubkey, n]));
+
+  const countries = new Map<string, GroupAccumulator>();
+  const regions = new Map<string, { country: string; region: string; group: GroupAccumulator }>();
+
+  for (const mapNode of mapNodes) {
+    const nodeMetrics = metricsByPubkey.get(mapNode.pubkey);
+    const node = nodesByPubkey.get(mapNode.pubkey);
+
+    let country = countries.get(mapNode.country);
+    if (!country) {
+      country = createAccumulator();
+      countries.set(mapNode.country, country);
+    }
+    addNode(country, mapNode, nodeMetrics, node);
+
+    const regionKey = `${mapNode.country}\u0000${mapNode.region}`;
+    let region = regions.get(regionKey);
+    if (!region) {
+      region = { country: mapNode.country, region: mapNode.region, group: createAccumulator() };
+      regions.set(regionKey, region);
+    }
+    addNode(region.group, mapNode, nodeMetrics, node);
+  }
+
+  const countryHealth: CountryHealth[] = Array.from(countries.entries())
+    .map(([country, group]) => ({ country, ...finalize(group) }))
+    .sort((a, b) => b.nodes - a.nodes || a.country.localeCompare(b.country));
+
+  const regionHealth: RegionHealth[] = Array.from(regions.values())
+    .map(({ country, region, group }) => ({ region, country, ...finalize(group) }))
+    .sort((a, b) => b.nodes - a.nodes || a.region.localeCompare(b.region) || a.country.localeCompare(b.country));
+
+  const located = new Set(mapNodes.map((n) => n.pubkey));
+  return {
+    generatedAt: new Date(now).toISOString(),
+    locatedNodes: located.size,
+    unlocatedNodes: nodes.filter((n) => !located.has(n.pubkey)).length,
+    countries: countryHealth,
+    regions: regionHealth,
+  };
+}
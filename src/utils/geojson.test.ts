@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for GeoJSON Builders
+ *
+ * Run: npm test -- geojson.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { bboxPolygon, buildMapFeatureCollection, COUNTRY_PADDING_DEG } from './geojson';
+import { MapNode } from '../types/pnode';
+
+function mapNode(pubkey: string, lat: number, lng: number, overrides: Partial<MapNode> = {}): MapNode {
+  return {
+    pubkey,
+    lat,
+    lng,
+    country: 'Germany',
+    region: 'Berlin',
+    status: 'online',
+    healthScore: 80,
+    uptime24h: 100,
+    storageUtilization: 10,
+    version: '0.8.0',
+    lastSeen: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const nodes = [
+  mapNode('a', 52.5, 13.4, { healthScore: 90 }),
+  mapNode('b', 48.1, 11.6, { status: 'offline', healthScore: 40 }),
+  mapNode('c', 35.7, 139.7, { country: 'Japan', region: 'Tokyo' }),
+];
+
+describe('bboxPolygon', () => {
+  it('should build a closed counter-clockwise ring', () => {
+    expect(bboxPolygon([0, 0, 2, 1])).toEqual({
+      type: 'Polygon',
+      coordinates: [[[0, 0], [2, 0], [2, 1], [0, 1], [0, 0]]],
+    });
+  });
+
+  it('should clamp padding to valid coordinates', () => {
+    const [ring] = bboxPolygon([179.8, 89.9, 179.8, 89.9], 0.5).coordinates;
+    expect(ring[2]).toEqual([180, 90]);
+  });
+});
+
+describe('buildMapFeatureCollection', () => {
+  it('should emit one point per node with every MapNode field as properties', () => {
+    const collection = buildMapFeatureCollection(nodes);
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.bbox).toEqual([11.6, 35.7, 139.7, 52.5]);
+    expect(collection.features).toHaveLength(3);
+    expect(collection.features[0]).toEqual({
+      type: 'Feature',
+      id: 'a',
+      geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+      properties: { kind: 'node', ...nodes[0] },
+    });
+  });
+
+  it('should append country polygons from the geo summary', () => {
+    const summary = {
+      countries: [{ country: 'Germany', count: 2 }, { country: 'Japan', count: 1 }, { country: 'Nowhere', count: 0 }],
+      regions: [],
+    };
+    const countries = buildMapFeatureCollection(nodes, summary).features.slice(3);
+
+    expect(countries.map((f) => f.id)).toEqual(['country:Germany', 'country:Japan']);
+    expect(countries[0].properties).toEqual({
+      kind: 'country',
+      country: 'Germany',
+      count: 2,
+      online: 1,
+      offline: 1,
+      averageHealthScore: 65,
+    });
+    expect(countries[1].geometry).toEqual(bboxPolygon([139.7, 35.7, 139.7, 35.7], COUNTRY_PADDING_DEG));
+  });
+
+  it('should omit bbox for an empty collection', () => {
+    expect(buildMapFeatureCollection([])).toEqual({ type: 'FeatureCollection', features: [] });
+  });
+});
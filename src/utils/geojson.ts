@@ -0,0 +1,120 @@
+/**
+ * GeoJSON builders for map data
+ *
+ * Output follows RFC 7946: positions are [lng, lat] and polygon exterior rings
+ * are closed and counter-clockwise.
+ */
+
+import {
+  BoundingBox,
+  CountryFeature,
+  GeoJsonPolygon,
+  GeoSummary,
+  MapFeatureCollection,
+  MapNode,
+  MapNodeFeature,
+} from "../types/pnode";
+
+// Padding around a country's node extent so single-node countries still get an area
+export const COUNTRY_PADDING_DEG = 0.5;
+
+export function mapNodeToFeature(node: MapNode): MapNodeFeature {
+  return {
+    type: "Feature",
+    id: node.pubkey,
+    geometry: { type: "Point", coordinates: [node.lng, node.lat] },
+    properties: { kind: "node", ...node },
+  };
+}
+
+/**
+ * Extent of a set of nodes, or null when there are none
+ */
+export function nodeBounds(nodes: MapNode[]): BoundingBox | null {
+  if (nodes.length === 0) return null;
+
+  const bounds: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const node of nodes) {
+    bounds[0] = Math.min(bounds[0], node.lng);
+    bounds[1] = Math.min(bounds[1], node.lat);
+    bounds[2] = Math.max(bounds[2], node.lng);
+    bounds[3] = Math.max(bounds[3], node.lat);
+  }
+  return bounds;
+}
+
+/**
+ * Rectangle around `bounds`, padded and clamped to valid coordinates
+ */
+export function bboxPolygon(bounds: BoundingBox, padding = 0): GeoJsonPolygon {
+  const minLng = Math.max(-180, bounds[0] - padding);
+  const minLat = Math.max(-90, bounds[1] - padding);
+  const maxLng = Math.min(180, bounds[2] + padding);
+  const maxLat = Math.min(90, bounds[3] + padding);
+
+  return {
+    type: "Polygon",
+    coordinates: [[
+      [minLng, minLat],
+      [maxLng, minLat],
+      [maxLng, maxLat],
+      [minLng, maxLat],
+      [minLng, minLat],
+    ]],
+  };
+}
+
+/**
+ * One polygon feature per country in the summary
+ * Counts come from the summary; status and health are aggregated from the nodes.
+ */
+export function buildCountryFeatures(nodes: MapNode[], summary: GeoSummary): CountryFeature[] {
+  const byCountry = new Map<string, MapNode[]>();
+  for (const node of nodes) {
+    const members = byCountry.get(node.country);
+    if (members) {
+      members.push(node);
+    } else {
+      byCountry.set(node.country, [node]);
+    }
+  }
+
+  const features: CountryFeature[] = [];
+  for (const { country, count } of summary.countries) {
+    const members = byCountry.get(country) ?? [];
+    const bounds = nodeBounds(members);
+    if (!bounds) continue;
+
+    const online = members.filter((node) => node.status === "online").length;
+    const health = members.reduce((sum, node) => sum + node.healthScore, 0);
+    features.push({
+      type: "Feature",
+      id: `country:${country}`,
+      geometry: bboxPolygon(bounds, COUNTRY_PADDING_DEG),
+      properties: {
+        kind: "country",
+        country,
+        count,
+        online,
+        offline: members.length - online,
+        averageHealthScore: Math.round((health / members.length) * 100) / 100,
+      },
+    });
+  }
+  return features;
+}
+
+/**
+ * FeatureCollection of node points, followed by country polygons when a summary is given
+ */
+export function buildMapFeatureCollection(nodes: MapNode[], summary?: GeoSummary): MapFeatureCollection {
+  const features: MapFeatureCollection["features"] = nodes.map(mapNodeToFeature);
+  if (summary) {
+    features.push(...buildCountryFeatures(nodes, summary));
+  }
+
+  const bbox = nodeBounds(nodes);
+  return bbox
+    ? { type: "FeatureCollection", bbox, features }
+    : { type: "FeatureCollection", features };
+}
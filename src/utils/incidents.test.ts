@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Incident Detection
+ *
+ * Run: npm test -- incidents.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { describeIncident, detectIncident, findCommonFactors, IncidentNode, IncidentThresholds, isIncidentRecovered } from './incidents';
+
+const THRESHOLDS: IncidentThresholds = { onlineDropPoints: 10, minNodes: 5, minGroupPercent: 50, recoveredPercent: 80 };
+
+function node(pubkey: string, country: string, version: string, seeds: string[] = ['seed-a', 'seed-b']): IncidentNode {
+  return { pubkey, country, version, seeds };
+}
+
+// 40 nodes: 10 in Germany on 0.8.0, 30 in France on 0.8.1; every node reported by both seeds
+const population: IncidentNode[] = [
+  ...Array.from({ length: 10 }, (_, i) => node(`de${i}`, 'Germany', '0.8.0')),
+  ...Array.from({ length: 30 }, (_, i) => node(`fr${i}`, 'France', '0.8.1')),
+];
+
+describe('findCommonFactors', () => {
+  it('should report over-represented values and skip ones every node shares', () => {
+    const affected = [...population.slice(0, 8), population[10]];
+    const factors = findCommonFactors(affected, population, THRESHOLDS);
+
+    expect(factors).toEqual([
+      { kind: 'country', value: 'Germany', affectedNodes: 8, totalNodes: 10, affectedPercent: 88.89, groupPercent: 80 },
+      { kind: 'version', value: '0.8.0', affectedNodes: 8, totalNodes: 10, affectedPercent: 88.89, groupPercent: 80 },
+    ]);
+  });
+
+  it('should find nodes only one seed reported', () => {
+    const lonely = Array.from({ length: 6 }, (_, i) => node(`s${i}`, 'France', '0.8.1', ['seed-c']));
+    const factors = findCommonFactors(lonely, [...population, ...lonely], THRESHOLDS);
+    expect(factors[0]).toMatchObject({ kind: 'seed', value: 'seed-c', groupPercent: 100 });
+  });
+});
+
+describe('detectIncident', () => {
+  it('should open an incident when the online share drops sharply', () => {
+    const recentlyDown = population.slice(10, 16);
+    const detection = detectIncident({ baselinePercent: 100, onlinePercentage: 85, recentlyDown, population }, THRESHOLDS);
+    expect(detection?.trigger).toBe('online_drop');
+  });
+
+  it('should open an incident for a correlated outage without a large drop', () => {
+    const recentlyDown = population.slice(0, 5);
+    const detection = detectIncident({ baselinePercent: 100, onlinePercentage: 95, recentlyDown, population }, THRESHOLDS);
+    expect(detection?.trigger).toBe('correlated_outage');
+    expect(detection?.factors[0]).toMatchObject({ kind: 'country', value: 'Germany' });
+  });
+
+  it('should ignore scattered nodes going down', () => {
+    const recentlyDown = [population[0], population[10], population[20]];
+    expect(detectIncident({ baselinePercent: 100, onlinePercentage: 92.5, recentlyDown, population }, THRESHOLDS)).toBeNull();
+    expect(detectIncident({ baselinePercent: null, onlinePercentage: 50, recentlyDown: [], population }, THRESHOLDS)).toBeNull();
+  });
+});
+
+describe('isIncidentRecovered', () => {
+  const affected = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should require most affected nodes back online and the online share restored', () => {
+    expect(isIncidentRecovered(affected, new Set(['a', 'b', 'c', 'd']), 95, 100, THRESHOLDS)).toBe(true);
+    expect(isIncidentRecovered(affected, new Set(['a', 'b', 'c']), 95, 100, THRESHOLDS)).toBe(false);
+    expect(isIncidentRecovered(affected, new Set(affected), 85, 100, THRESHOLDS)).toBe(false);
+  });
+
+  it('should resolve once all affected nodes have left the network', () => {
+    expect(isIncidentRecovered([], new Set(), 100, 100, THRESHOLDS)).toBe(true);
+  });
+});
+
+describe('describeIncident', () => {
+  it('should summarize the drop and the top factor', () => {
+    const factors = findCommonFactors(population.slice(0, 9), population, THRESHOLDS);
+    expect(describeIncident('online_drop', 9, factors, 100, 77.5))
+      .toBe('Online nodes dropped from 100% to 77.5%; 9 nodes down, 9 in Germany (90% of that group)');
+    expect(describeIncident('correlated_outage', 1, [], 100, 97.5)).toBe('1 node down');
+  });
+});
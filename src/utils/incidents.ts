@@ -0,0 +1,184 @@
+/**
+ * Network-wide incident detection
+ *
+ * An incident is opened when the online share drops sharply within the
+ * detection window, or when many recently-down nodes share a country, version
+ * or seed. Common factors are values over-represented among the affected
+ * nodes compared to the whole network.
+ */
+
+import { IncidentFactor, IncidentFactorKind, IncidentTrigger } from "../types/pnode";
+
+/**
+ * Attributes of one node used to find common factors
+ */
+export interface IncidentNode {
+  pubkey: string;
+  version: string | null;
+  country: string | null;
+  seeds: string[]; // Seeds that reported the node
+}
+
+export interface IncidentThresholds {
+  onlineDropPoints: number; // Drop in online percentage points that opens an incident
+  minNodes: number; // Affected nodes a group needs to count as a correlated outage
+  minGroupPercent: number; // Share of a group that has to be down to count as a correlated outage
+  recoveredPercent: number; // Share of affected nodes that has to be back online to resolve
+}
+
+export interface IncidentDetection {
+  trigger: IncidentTrigger;
+  factors: IncidentFactor[];
+}
+
+const FACTOR_KINDS: IncidentFactorKind[] = ["country", "version", "seed"];
+
+const FACTOR_LABELS: Record<IncidentFactorKind, string> = {
+  country: "in",
+  version: "on version",
+  seed: "reported by seed",
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function factorValues(node: IncidentNode, kind: IncidentFactorKind): string[] {
+  switch (kind) {
+    case "country":
+      return node.country ? [node.country] : [];
+    case "version":
+      return node.version ? [node.version] : [];
+    case "seed":
+      return node.seeds;
+  }
+}
+
+function countValues(nodes: IncidentNode[], kind: IncidentFactorKind): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    for (const value of new Set(factorValues(node, kind))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function isCorrelated(factor: IncidentFactor, thresholds: IncidentThresholds): boolean {
+  return factor.affectedNodes >= thresholds.minNodes && factor.groupPercent >= thresholds.minGroupPercent;
+}
+
+/**
+ * Values shared by the affected nodes more often than by the network overall
+ * A value is reported if it covers at least half of the affected nodes, or if
+ * it is a correlated outage on its own (enough nodes, large enough share of its group).
+ *
+ * @param population All known nodes, including the affected ones
+ */
+export function findCommonFactors(
+  affected: IncidentNode[],
+  population: IncidentNode[],
+  thresholds: IncidentThresholds
+): IncidentFactor[] {
+  if (affected.length === 0 || population.length === 0) return [];
+
+  const overallPercent = (affected.length / population.length) * 100;
+  const factors: IncidentFactor[] = [];
+
+  for (const kind of FACTOR_KINDS) {
+    const totals = countValues(population, kind);
+    for (const [value, affectedNodes] of countValues(affected, kind)) {
+      const totalNodes = Math.max(totals.get(value) ?? 0, affectedNodes);
+      const factor: IncidentFactor = {
+        kind,
+        value,
+        affectedNodes,
+        totalNodes,
+        affectedPercent: round((affectedNodes / affected.length) * 100),
+        groupPercent: round((affectedNodes / totalNodes) * 100),
+      };
+
+      const overRepresented = (affectedNodes / totalNodes) * 100 > overallPercent;
+      if (affectedNodes >= 2 && overRepresented && (factor.affectedPercent >= 50 || isCorrelated(factor, thresholds))) {
+        factors.push(factor);
+      }
+    }
+  }
+
+  return factors.sort((a, b) =>
+    b.affectedNodes - a.affectedNodes ||
+    b.groupPercent - a.groupPercent ||
+    FACTOR_KINDS.indexOf(a.kind) - FACTOR_KINDS.indexOf(b.kind) ||
+    a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Decide whether the recently-down nodes amount to an incident
+ *
+ * @param baselinePercent Highest online percentage earlier in the window (null without history)
+ * @returns null if neither the online share dropped sharply nor a correlated group went down
+ */
+export function detectIncident(
+  input: {
+    baselinePercent: number | null;
+    onlinePercentage: number;
+    recentlyDown: IncidentNode[];
+    population: IncidentNode[];
+  },
+  thresholds: IncidentThresholds
+): IncidentDetection | null {
+  if (input.recentlyDown.length === 0) return null;
+
+  const factors = findCommonFactors(input.recentlyDown, input.population, thresholds);
+  if (input.baselinePercent !== null && input.baselinePercent - input.onlinePercentage >= thresholds.onlineDropPoints) {
+    return { trigger: "online_drop", factors };
+  }
+  if (factors.some((factor) => isCorrelated(factor, thresholds))) {
+    return { trigger: "correlated_outage", factors };
+  }
+  return null;
+}
+
+/**
+ * Whether enough affected nodes are back online and the online share recovered
+ *
+ * @param tracked Affected pubkeys still known to the network (nodes that left for good are ignored)
+ */
+export function isIncidentRecovered(
+  tracked: string[],
+  online: ReadonlySet<string>,
+  onlinePercentage: number,
+  onlinePercentageBefore: number,
+  thresholds: IncidentThresholds
+): boolean {
+  if (onlinePercentageBefore - onlinePercentage >= thresholds.onlineDropPoints) return false;
+  if (tracked.length === 0) return true;
+  const recovered = tracked.filter((pubkey) => online.has(pubkey)).length;
+  return (recovered / tracked.length) * 100 >= thresholds.recoveredPercent;
+}
+
+/**
+ * One-line description, e.g. "Online nodes dropped from 97.5% to 72.5%; 10 nodes down, 9 in Germany (90% of that group)"
+ */
+export function describeIncident(
+  trigger: IncidentTrigger,
+  affectedNodes: number,
+  factors: IncidentFactor[],
+  onlinePercentageBefore: number,
+  lowestOnlinePercentage: number
+): string {
+  const parts: string[] = [];
+  if (trigger === "online_drop") {
+    parts.push(`Online nodes dropped from ${onlinePercentageBefore}% to ${lowestOnlinePercentage}%`);
+  }
+
+  let down = `${affectedNodes} node${affectedNodes === 1 ? "" : "s"} down`;
+  const top = factors[0];
+  if (top) {
+    down += `, ${top.affectedNodes} ${FACTOR_LABELS[top.kind]} ${top.value} (${top.groupPercent}% of that group)`;
+  }
+  parts.push(down);
+
+  return parts.join("; ");
+}
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for IP Range Tables
+ *
+ * Run: npm test -- ip-ranges.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { IpRangeTable, ipToBigInt, parseCidr, parseIpRangeCsv, splitCsvLine } from './ip-ranges';
+
+const v4 = (ip: string) => ipToBigInt(ip)!.value;
+
+describe('ipToBigInt', () => {
+  it('should convert IPv4 addresses', () => {
+    expect(ipToBigInt('0.0.0.0')).toEqual({ value: 0n, family: 4 });
+    expect(ipToBigInt('1.2.3.4')).toEqual({ value: 16909060n, family: 4 });
+    expect(ipToBigInt('255.255.255.255')).toEqual({ value: 4294967295n, family: 4 });
+  });
+
+  it('should convert IPv6 addresses, including compressed and embedded IPv4 forms', () => {
+    expect(ipToBigInt('::1')).toEqual({ value: 1n, family: 6 });
+    expect(ipToBigInt('2001:db8::')).toEqual({ value: 0x20010db8n << 96n, family: 6 });
+    expect(ipToBigInt('64:ff9b::1.2.3.4')).toEqual({ value: (0x64ff9bn << 96n) + 16909060n, family: 6 });
+  });
+
+  it('should treat IPv4-mapped IPv6 as IPv4', () => {
+    expect(ipToBigInt('::ffff:1.2.3.4')).toEqual({ value: 16909060n, family: 4 });
+  });
+
+  it('should reject invalid addresses', () => {
+    expect(ipToBigInt('256.1.1.1')).toBeNull();
+    expect(ipToBigInt('1.2.3')).toBeNull();
+    expect(ipToBigInt('2001:db8::1::2')).toBeNull();
+  });
+});
+
+describe('parseCidr', () => {
+  it('should return the inclusive range and align the base address', () => {
+    expect(parseCidr('10.1.2.3/8')).toEqual({ family: 4, start: v4('10.0.0.0'), end: v4('10.255.255.255'), prefixLength: 8 });
+    expect(parseCidr('1.2.3.4/32')).toEqual({ family: 4, start: 16909060n, end: 16909060n, prefixLength: 32 });
+    expect(parseCidr('2001:db8::1/32')).toEqual({
+      family: 6,
+      start: 0x20010db8n << 96n,
+      end: (0x20010db9n << 96n) - 1n,
+      prefixLength: 32,
+    });
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(parseCidr('10.0.0.0/33')).toBeNull();
+    expect(parseCidr('::/129')).toBeNull();
+    expect(parseCidr('10.0.0.0')).toBeNull();
+    expect(parseCidr('10.0.0.0/8/1')).toBeNull();
+  });
+});
+
+describe('splitCsvLine', () => {
+  it('should handle quoted fields with commas and escaped quotes', () => {
+    expect(splitCsvLine('1.0.0.0,"Korea, Republic of","Say ""hi""",')).toEqual(['1.0.0.0', 'Korea, Republic of', 'Say "hi"', '']);
+  });
+});
+
+describe('IpRangeTable', () => {
+  const table = new IpRangeTable([
+    { family: 4, start: v4('10.0.0.0'), end: v4('10.0.0.255'), value: 'a' },
+    { family: 4, start: v4('1.0.0.0'), end: v4('1.0.0.255'), value: 'b' },
+    { ...parseCidr('2001:db8::/32')!, value: 'c' },
+  ]);
+
+  it('should find the containing range', () => {
+    expect(table.lookup('10.0.0.0')).toBe('a');
+    expect(table.lookup('10.0.0.255')).toBe('a');
+    expect(table.lookup('1.0.0.42')).toBe('b');
+    expect(table.lookup('2001:db8:ffff::1')).toBe('c');
+  });
+
+  it('should return null outside every range', () => {
+    expect(table.lookup('10.0.1.0')).toBeNull();
+    expect(table.lookup('0.255.255.255')).toBeNull();
+    expect(table.lookup('2001:db9::')).toBeNull();
+    expect(table.lookup('::10.0.0.1')).toBeNull();
+    expect(table.lookup('not-an-ip')).toBeNull();
+  });
+});
+
+describe('parseIpRangeCsv', () => {
+  it('should parse start/end and CIDR rows, skipping the header, comments and invalid rows', () => {
+    const content = [
+      'start,end,country',
+      '# comment',
+      '1.0.0.0,1.0.0.255,Australia',
+      '',
+      '10.0.0.0/8,Private',
+      '2001:db8::/32,Documentation',
+      '2.0.0.0,1.0.0.0,Backwards',
+      '3.0.0.0,3.0.0.255,',
+    ].join('\n');
+
+    const { table, skipped } = parseIpRangeCsv(content, ([country]) => country || null);
+
+    expect(table.size).toBe(3);
+    expect(skipped).toBe(2);
+    expect(table.lookup('1.0.0.1')).toBe('Australia');
+    expect(table.lookup('10.20.30.40')).toBe('Private');
+    expect(table.lookup('2001:db8::42')).toBe('Documentation');
+    expect(table.lookup('3.0.0.1')).toBeNull();
+  });
+});
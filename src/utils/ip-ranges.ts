@@ -0,0 +1,195 @@
+/**
+ * IP range tables (IPv4 and IPv6)
+ *
+ * Used by the offline geo providers: IP-range CSV databases and CIDR entries
+ * in the static overrides file.
+ */
+
+import { IpFamily, normalizeIp } from "./address";
+
+export interface IpRange<T> {
+  family: IpFamily;
+  start: bigint;
+  end: bigint;
+  value: T;
+}
+
+const FAMILY_BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+
+/**
+ * Convert an IP address to its numeric value
+ * IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+export function ipToBigInt(ip: string): { value: bigint; family: IpFamily } | null {
+  const parsed = normalizeIp(ip);
+  if (!parsed) return null;
+
+  if (parsed.family === 4) {
+    const value = parsed.ip.split(".").reduce((acc, octet) => acc * 256n + BigInt(octet), 0n);
+    return { value, family: 4 };
+  }
+
+  // Drop the zone index (fe80::1%eth0)
+  let address = parsed.ip.split("%")[0];
+
+  // Embedded IPv4 tail, e.g. 64:ff9b::1.2.3.4
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const v4 = ipToBigInt(tail);
+    if (!v4) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4.value >> 16n).toString(16)}:${(v4.value & 0xffffn).toString(16)}`;
+  }
+
+  const [head, rest] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = rest ? rest.split(":") : [];
+  const groups = rest === undefined
+    ? headGroups
+    : [...headGroups, ...Array<string>(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups];
+
+  const value = groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+  return { value, family: 6 };
+}
+
+/**
+ * Parse "a.b.c.d/nn" or "v6::/nn" into an inclusive numeric range
+ */
+export function parseCidr(cidr: string): { family: IpFamily; start: bigint; end: bigint; prefixLength: number } | null {
+  const [ip, prefix, ...rest] = cidr.trim().split("/");
+  if (rest.length > 0 || prefix === undefined || !/^\d{1,3}$/.test(prefix)) return null;
+
+  const base = ipToBigInt(ip);
+  const prefixLength = Number(prefix);
+  if (!base || prefixLength > FAMILY_BITS[base.family]) return null;
+
+  const hostMask = (1n << BigInt(FAMILY_BITS[base.family] - prefixLength)) - 1n;
+  const start = base.value & ~hostMask;
+  return { family: base.family, start, end: start | hostMask, prefixLength };
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function compareRanges<T>(a: IpRange<T>, b: IpRange<T>): number {
+  if (a.family !== b.family) return a.family - b.family;
+  if (a.start !== b.start) return a.start < b.start ? -1 : 1;
+  return a.end < b.end ? -1 : a.end > b.end ? 1 : 0;
+}
+
+/**
+ * Sorted ranges with binary search lookup
+ * Ranges are expected not to overlap, as in geo range databases.
+ */
+export class IpRangeTable<T> {
+  private ranges: IpRange<T>[];
+
+  constructor(ranges: IpRange<T>[]) {
+    this.ranges = [...ranges].sort(compareRanges);
+  }
+
+  get size(): number {
+    return this.ranges.length;
+  }
+
+  lookup(ip: string): T | null {
+    const target = ipToBigInt(ip);
+    if (!target) return null;
+
+    // Last range starting at or before the target
+    let low = 0;
+    let high = this.ranges.length - 1;
+    let candidate = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const range = this.ranges[mid];
+      if (range.family < target.family || (range.family === target.family && range.start <= target.value)) {
+        candidate = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const range = this.ranges[candidate];
+    if (!range || range.family !== target.family || range.end < target.value) return null;
+    return range.value;
+  }
+}
+
+/**
+ * Parse an IP-range CSV database
+ * Each row is `start_ip,end_ip,<fields...>` or `cidr,<fields...>`. Blank lines,
+ * `#` comments and a header row are skipped; `toValue` receives the remaining
+ * fields and may return null to drop a row.
+ */
+export function parseIpRangeCsv<T>(
+  content: string,
+  toValue: (fields: string[]) => T | null
+): { table: IpRangeTable<T>; skipped: number } {
+  const ranges: IpRange<T>[] = [];
+  let skipped = 0;
+  let firstRow = true;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+    const fields = splitCsvLine(trimmed);
+    let range: Omit<IpRange<T>, "value"> | null = null;
+    let rest: string[] = [];
+
+    if (fields[0].includes("/")) {
+      range = parseCidr(fields[0]);
+      rest = fields.slice(1);
+    } else {
+      const start = ipToBigInt(fields[0]);
+      const end = fields.length > 1 ? ipToBigInt(fields[1]) : null;
+      if (start && end && start.family === end.family && start.value <= end.value) {
+        range = { family: start.family, start: start.value, end: end.value };
+      }
+      rest = fields.slice(2);
+    }
+
+    const value = range ? toValue(rest) : null;
+    if (!range || value === null) {
+      // An unparseable first row is the header
+      if (!firstRow) skipped++;
+      firstRow = false;
+      continue;
+    }
+    firstRow = false;
+    ranges.push({ family: range.family, start: range.start, end: range.end, value });
+  }
+
+  return { table: new IpRangeTable(ranges), skipped };
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for Map Clustering
+ *
+ * Run: npm test -- map-cluster.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  clusterMapNodes,
+  parseBbox,
+  parseClusterZoom,
+  pointInBbox,
+  boundsIntersectBbox,
+  projectToPixel,
+  MAX_MAP_ZOOM,
+} from './map-cluster';
+import { MapNode } from '../types/pnode';
+
+function mapNode(pubkey: string, lat: number, lng: number, overrides: Partial<MapNode> = {}): MapNode {
+  return {
+    pubkey,
+    lat,
+    lng,
+    country: 'Germany',
+    region: 'Berlin',
+    status: 'online',
+    healthScore: 80,
+    uptime24h: 100,
+    storageUtilization: 10,
+    version: '0.8.0',
+    lastSeen: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const berlin = [
+  mapNode('a', 52.52, 13.40, { healthScore: 90 }),
+  mapNode('b', 52.50, 13.42, { status: 'offline', healthScore: 40 }),
+];
+const tokyo = mapNode('c', 35.68, 139.69);
+
+describe('projectToPixel', () => {
+  it('should map the origin to the centre of the world', () => {
+    expect(projectToPixel(0, 0, 0)).toEqual({ x: 128, y: 128 });
+    expect(projectToPixel(0, 0, 1)).toEqual({ x: 256, y: 256 });
+  });
+});
+
+describe('clusterMapNodes', () => {
+  it('should group nearby nodes and summarize them', () => {
+    const groups = clusterMapNodes([...berlin, tokyo], 3);
+    const cluster = groups.find((g) => g.nodes.length === 2)!.cluster;
+
+    expect(groups).toHaveLength(2);
+    expect(cluster.count).toBe(2);
+    expect(cluster.online).toBe(1);
+    expect(cluster.offline).toBe(1);
+    expect(cluster.averageHealthScore).toBe(65);
+    expect(cluster.lat).toBeCloseTo(52.51);
+    expect(cluster.lng).toBeCloseTo(13.41);
+    expect(cluster.bounds).toEqual([13.40, 52.50, 13.42, 52.52]);
+    expect(parseClusterZoom(cluster.id)).toBe(3);
+  });
+
+  it('should report the zoom level at which a cluster splits', () => {
+    const [group] = clusterMapNodes(berlin, 3);
+
+    expect(group.cluster.expansionZoom).toBeGreaterThan(3);
+    const atExpansion = clusterMapNodes(berlin, group.cluster.expansionZoom);
+    expect(atExpansion).toHaveLength(2);
+    const beforeExpansion = clusterMapNodes(berlin, group.cluster.expansionZoom - 1);
+    expect(beforeExpansion).toHaveLength(1);
+  });
+
+  it('should cap the expansion zoom for nodes at identical coordinates', () => {
+    const [group] = clusterMapNodes([mapNode('a', 1, 1), mapNode('b', 1, 1)], 5);
+    expect(group.cluster.expansionZoom).toBe(MAX_MAP_ZOOM);
+  });
+
+  it('should produce stable ids regardless of input order', () => {
+    const ids = (nodes: MapNode[]) => clusterMapNodes(nodes, 4).map((g) => g.cluster.id).sort();
+    expect(ids([...berlin, tokyo])).toEqual(ids([tokyo, ...berlin].reverse()));
+  });
+});
+
+describe('parseClusterZoom', () => {
+  it('should reject malformed ids and zoom levels out of range', () => {
+    expect(parseClusterZoom('3:1:2')).toBe(3);
+    expect(parseClusterZoom('21:1:2')).toBeNull();
+    expect(parseClusterZoom('abc')).toBeNull();
+  });
+});
+
+describe('parseBbox', () => {
+  it('should parse valid boxes', () => {
+    expect(parseBbox('-10,40,20,60')).toEqual([-10, 40, 20, 60]);
+    expect(parseBbox('170,-10,-170,10')).toEqual([170, -10, -170, 10]);
+  });
+
+  it('should reject invalid boxes', () => {
+    expect(parseBbox('1,2,3')).toBeNull();
+    expect(parseBbox('a,2,3,4')).toBeNull();
+    expect(parseBbox('-200,0,10,10')).toBeNull();
+    expect(parseBbox('0,50,10,40')).toBeNull();
+  });
+});
+
+describe('bbox filtering', () => {
+  it('should handle boxes crossing the antimeridian', () => {
+    const bbox = parseBbox('170,-10,-170,10')!;
+    expect(pointInBbox(0, 175, bbox)).toBe(true);
+    expect(pointInBbox(0, -175, bbox)).toBe(true);
+    expect(pointInBbox(0, 0, bbox)).toBe(false);
+  });
+
+  it('should detect overlapping bounds', () => {
+    const bbox = parseBbox('10,50,14,53')!;
+    expect(boundsIntersectBbox([13, 52, 15, 54], bbox)).toBe(true);
+    expect(boundsIntersectBbox([15, 52, 16, 54], bbox)).toBe(false);
+    expect(boundsIntersectBbox([175, 0, 179, 1], parseBbox('170,-10,-170,10')!)).toBe(true);
+  });
+});
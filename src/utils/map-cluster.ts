@@ -0,0 +1,153 @@
+/**
+ * Grid-based map clustering
+ *
+ * Nodes are projected to Web Mercator pixel coordinates for the zoom level
+ * (256px tiles) and grouped by grid cell. Cells are CLUSTER_RADIUS_PX wide,
+ * so cluster ids are deterministic and stable across requests and bboxes.
+ */
+
+import { BoundingBox, MapCluster, MapNode } from "../types/pnode";
+
+export const MAX_MAP_ZOOM = 20;
+export const CLUSTER_RADIUS_PX = 60;
+
+const TILE_SIZE = 256;
+const MAX_MERCATOR_LAT = 85.05112878;
+
+export interface ClusterGroup {
+  cluster: MapCluster;
+  nodes: MapNode[];
+}
+
+/**
+ * Project lat/lng to world pixel coordinates at a zoom level
+ */
+export function projectToPixel(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const clampedLat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+
+  const x = ((lng + 180) / 360) * worldSize;
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * worldSize;
+  return {
+    x: Math.min(Math.max(x, 0), worldSize - 1),
+    y: Math.min(Math.max(y, 0), worldSize - 1),
+  };
+}
+
+function cellOf(node: MapNode, zoom: number): string {
+  const { x, y } = projectToPixel(node.lat, node.lng, zoom);
+  return `${Math.floor(x / CLUSTER_RADIUS_PX)}:${Math.floor(y / CLUSTER_RADIUS_PX)}`;
+}
+
+/**
+ * First zoom level above `zoom` at which the nodes no longer share a cell
+ * Nodes at identical coordinates never split; MAX_MAP_ZOOM is returned for them.
+ */
+function findExpansionZoom(nodes: MapNode[], zoom: number): number {
+  for (let z = zoom + 1; z <= MAX_MAP_ZOOM; z++) {
+    const first = cellOf(nodes[0], z);
+    if (nodes.some((node) => cellOf(node, z) !== first)) return z;
+  }
+  return MAX_MAP_ZOOM;
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function summarize(id: string, nodes: MapNode[], zoom: number): MapCluster {
+  let lat = 0;
+  let lng = 0;
+  let online = 0;
+  let health = 0;
+  const bounds: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+
+  for (const node of nodes) {
+    lat += node.lat;
+    lng += node.lng;
+    health += node.healthScore;
+    if (node.status === "online") online++;
+    bounds[0] = Math.min(bounds[0], node.lng);
+    bounds[1] = Math.min(bounds[1], node.lat);
+    bounds[2] = Math.max(bounds[2], node.lng);
+    bounds[3] = Math.max(bounds[3], node.lat);
+  }
+
+  return {
+    id,
+    lat: roundCoordinate(lat / nodes.length),
+    lng: roundCoordinate(lng / nodes.length),
+    count: nodes.length,
+    online,
+    offline: nodes.length - online,
+    averageHealthScore: Math.round((health / nodes.length) * 100) / 100,
+    bounds,
+    expansionZoom: findExpansionZoom(nodes, zoom),
+  };
+}
+
+/**
+ * Group nodes into grid cells at a zoom level
+ * Every cell becomes a group; callers decide how to present single-node groups.
+ */
+export function clusterMapNodes(nodes: MapNode[], zoom: number): ClusterGroup[] {
+  const cells = new Map<string, MapNode[]>();
+  for (const node of nodes) {
+    const cell = cellOf(node, zoom);
+    const members = cells.get(cell);
+    if (members) {
+      members.push(node);
+    } else {
+      cells.set(cell, [node]);
+    }
+  }
+
+  return Array.from(cells.entries(), ([cell, members]) => {
+    const id = `${zoom}:${cell}`;
+    return { cluster: summarize(id, members, zoom), nodes: members };
+  });
+}
+
+/**
+ * Zoom level encoded in a cluster id, or null if the id is malformed
+ */
+export function parseClusterZoom(id: string): number | null {
+  const match = /^(\d{1,2}):\d+:\d+$/.exec(id);
+  if (!match) return null;
+  const zoom = Number(match[1]);
+  return zoom <= MAX_MAP_ZOOM ? zoom : null;
+}
+
+/**
+ * Parse "minLng,minLat,maxLng,maxLat"
+ */
+export function parseBbox(value: string): BoundingBox | null {
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng < -180 || maxLng > 180 || minLng > 180 || maxLng < -180) return null;
+  if (minLat < -90 || maxLat > 90 || minLat > maxLat) return null;
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+function lngInBbox(lng: number, bbox: BoundingBox): boolean {
+  const [minLng, , maxLng] = bbox;
+  return minLng <= maxLng ? lng >= minLng && lng <= maxLng : lng >= minLng || lng <= maxLng;
+}
+
+export function pointInBbox(lat: number, lng: number, bbox: BoundingBox): boolean {
+  return lat >= bbox[1] && lat <= bbox[3] && lngInBbox(lng, bbox);
+}
+
+/**
+ * Whether two boxes overlap; only `bbox` may cross the antimeridian
+ */
+export function boundsIntersectBbox(bounds: BoundingBox, bbox: BoundingBox): boolean {
+  if (bounds[3] < bbox[1] || bounds[1] > bbox[3]) return false;
+
+  const [minLng, , maxLng] = bbox;
+  const overlaps = (from: number, to: number) => bounds[0] <= to && bounds[2] >= from;
+  return minLng <= maxLng ? overlaps(minLng, maxLng) : overlaps(minLng, 180) || overlaps(-180, maxLng);
+}
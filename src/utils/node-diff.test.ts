@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Node Diffing
+ *
+ * Run: npm test -- node-diff.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffNodes } from './node-diff';
+import { PNode } from '../types/pnode';
+
+function node(pubkey: string, overrides: Partial<PNode> = {}): PNode {
+  return {
+    pubkey,
+    status: 'online',
+    version: '0.8.0',
+    storageUsed: 100,
+    storageTotal: 1000,
+    uptime: 3600,
+    ip: '1.2.3.4',
+    lastSeen: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffNodes', () => {
+  it('should report nothing when nodes are unchanged', () => {
+    expect(diffNodes([node('a'), node('b')], [node('b'), node('a')])).toEqual([]);
+  });
+
+  it('should report first seen and disappeared nodes', () => {
+    const changes = diffNodes([node('a')], [node('b')]);
+    expect(changes.map((c) => [c.type, c.pubkey])).toEqual([
+      ['node_disappeared', 'a'],
+      ['node_first_seen', 'b'],
+    ]);
+    expect(changes[1].current?.version).toBe('0.8.0');
+  });
+
+  it('should report previously known nodes as rejoined', () => {
+    const changes = diffNodes([node('a')], [node('a'), node('b'), node('c')], new Set(['a', 'b']));
+    expect(changes.map((c) => [c.type, c.pubkey])).toEqual([
+      ['node_rejoined', 'b'],
+      ['node_first_seen', 'c'],
+    ]);
+  });
+
+  it('should report status transitions in both directions', () => {
+    const changes = diffNodes(
+      [node('a'), node('b', { status: 'offline' })],
+      [node('a', { status: 'offline' }), node('b')]
+    );
+    expect(changes.map((c) => c.type)).toEqual(['node_offline', 'node_online']);
+    expect(changes[0].previous?.status).toBe('online');
+    expect(changes[0].current?.status).toBe('offline');
+  });
+
+  it('should report version and storage commitment changes', () => {
+    const changes = diffNodes(
+      [node('a', { storageCommitted: 500 })],
+      [node('a', { version: '0.8.1', storageCommitted: 800 })]
+    );
+    expect(changes).toEqual([
+      { type: 'version_upgraded', pubkey: 'a', previous: { version: '0.8.0' }, current: { version: '0.8.1' } },
+      { type: 'storage_commitment_changed', pubkey: 'a', previous: { storageCommitted: 500 }, current: { storageCommitted: 800 } },
+    ]);
+  });
+
+  it('should classify version changes by semver precedence', () => {
+    const changes = diffNodes(
+      [node('a', { version: '0.8.1' }), node('b', { version: '0.8.0+build1' })],
+      [node('a', { version: '0.8.0' }), node('b', { version: '0.8.0+build2' })]
+    );
+    expect(changes.map((c) => c.type)).toEqual(['version_downgraded', 'version_changed']);
+  });
+
+  it('should report restarts when the uptime counter goes down', () => {
+    const changes = diffNodes([node('a', { uptime: 3600 }), node('b', { uptime: 0 })], [node('a', { uptime: 60 }), node('b', { uptime: 0 })]);
+    expect(changes).toEqual([
+      { type: 'node_restarted', pubkey: 'a', previous: { uptime: 3600 }, current: { uptime: 60 } },
+    ]);
+  });
+
+  it('should report address changes', () => {
+    const changes = diffNodes([node('a', { address: '1.2.3.4:9001' })], [node('a', { address: '5.6.7.8:9001' })]);
+    expect(changes).toEqual([
+      { type: 'address_changed', pubkey: 'a', previous: { address: '1.2.3.4:9001' }, current: { address: '5.6.7.8:9001' } },
+    ]);
+  });
+
+  it('should fall back to storageTotal when storageCommitted is missing', () => {
+    const changes = diffNodes([node('a')], [node('a', { storageTotal: 2000 })]);
+    expect(changes[0].type).toBe('storage_commitment_changed');
+    expect(changes[0].current?.storageCommitted).toBe(2000);
+  });
+});
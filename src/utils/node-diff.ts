@@ -0,0 +1,116 @@
+import { PNode, NodeEventType, NodeEventState } from "../types/pnode";
+import { compareVersions } from "./semver";
+
+export interface NodeChange {
+  type: NodeEventType;
+  pubkey: string;
+  previous?: NodeEventState;
+  current?: NodeEventState;
+}
+
+function committedStorage(node: PNode): number {
+  return node.storageCommitted ?? node.storageTotal;
+}
+
+function stateOf(node: PNode): NodeEventState {
+  const state: NodeEventState = {
+    status: node.status,
+    version: node.version,
+    storageCommitted: committedStorage(node),
+  };
+  if (node.address !== undefined) state.address = node.address;
+  if (node.lastSeenTimestamp !== undefined) state.lastSeenTimestamp = node.lastSeenTimestamp;
+  return state;
+}
+
+function versionChangeType(before: string, after: string): NodeEventType {
+  const comparison = compareVersions(before, after);
+  if (comparison < 0) return "version_upgraded";
+  if (comparison > 0) return "version_downgraded";
+  return "version_changed";
+}
+
+/**
+ * Detect lifecycle changes between two consecutive gossip results
+ * Nodes new to `previous` are reported as rejoined if their pubkey is in `knownPubkeys`
+ * (every pubkey seen before), otherwise as first seen.
+ * Changes are returned in a stable order: by pubkey, then in NodeEventType order.
+ */
+export function diffNodes(
+  previous: PNode[],
+  current: PNode[],
+  knownPubkeys: ReadonlySet<string> = new Set()
+): NodeChange[] {
+  const previousByPubkey = new Map(previous.map((n) => [n.pubkey, n]));
+  const currentByPubkey = new Map(current.map((n) => [n.pubkey, n]));
+  const pubkeys = Array.from(new Set([...previousByPubkey.keys(), ...currentByPubkey.keys()])).sort();
+  const changes: NodeChange[] = [];
+
+  for (const pubkey of pubkeys) {
+    if (!pubkey) continue;
+    const before = previousByPubkey.get(pubkey);
+    const after = currentByPubkey.get(pubkey);
+
+    if (!before && after) {
+      changes.push({
+        type: knownPubkeys.has(pubkey) ? "node_rejoined" : "node_first_seen",
+        pubkey,
+        current: stateOf(after),
+      });
+      continue;
+    }
+    if (before && !after) {
+      changes.push({ type: "node_disappeared", pubkey, previous: stateOf(before) });
+      continue;
+    }
+    if (!before || !after) continue;
+
+    if (before.status !== after.status) {
+      changes.push({
+        type: after.status === "offline" ? "node_offline" : "node_online",
+        pubkey,
+        previous: { status: before.status, lastSeenTimestamp: before.lastSeenTimestamp },
+        current: { status: after.status, lastSeenTimestamp: after.lastSeenTimestamp },
+      });
+    }
+
+    // The uptime counter only goes down when the node restarts
+    if (before.uptime > 0 && after.uptime < before.uptime) {
+      changes.push({
+        type: "node_restarted",
+        pubkey,
+        previous: { uptime: before.uptime },
+        current: { uptime: after.uptime },
+      });
+    }
+
+    if (before.version !== after.version) {
+      changes.push({
+        type: versionChangeType(before.version, after.version),
+        pubkey,
+        previous: { version: before.version },
+        current: { version: after.version },
+      });
+    }
+
+    if (committedStorage(before) !== committedStorage(after)) {
+      changes.push({
+        type: "storage_commitment_changed",
+        pubkey,
+        previous: { storageCommitted: committedStorage(before) },
+        current: { storageCommitted: committedStorage(after) },
+      });
+    }
+
+    if (before.address !== after.address) {
+      changes.push({
+        type: "address_changed",
+        pubkey,
+        previous: { address: before.address },
+        current: { address: after.address },
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for OpenAPI Generation
+ *
+ * Run: npm test -- openapi.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { buildOpenApiDocument, errorResponse, zodToJsonSchema } from './openapi';
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects with required and optional properties', () => {
+    const schema = z.object({
+      pubkey: z.string().describe('Public key'),
+      uptime: z.number().int().min(0),
+      status: z.enum(['online', 'offline']),
+      isPublic: z.boolean().optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        pubkey: { type: 'string', description: 'Public key' },
+        uptime: { type: 'integer', minimum: 0 },
+        status: { type: 'string', enum: ['online', 'offline'] },
+        isPublic: { type: 'boolean' },
+      },
+      required: ['pubkey', 'uptime', 'status'],
+    });
+  });
+
+  it('should convert nullable, union, record, tuple and default schemas', () => {
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+    expect(zodToJsonSchema(z.union([z.number(), z.literal('x')]))).toEqual({ anyOf: [{ type: 'number' }, { const: 'x' }] });
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+    expect(zodToJsonSchema(z.number().default(0))).toEqual({ type: 'number', default: 0 });
+    expect(zodToJsonSchema(z.tuple([z.number(), z.string()]))).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { type: 'string' }],
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  it('should reference registered components', () => {
+    const Item = z.object({ id: z.string() });
+    const refs = new Map([[Item, 'Item']]);
+
+    expect(zodToJsonSchema(z.array(Item), refs)).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Item' },
+    });
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  const Item = z.object({ id: z.string() });
+  const document = buildOpenApiDocument(
+    { title: 'Test', version: '1.0.0' },
+    [
+      {
+        method: 'GET',
+        url: '/items/:id',
+        contract: {
+          summary: 'Get an item',
+          tags: ['Items'],
+          params: z.object({ id: z.string() }),
+          querystring: z.object({ format: z.enum(['json', 'csv']).optional() }),
+          responses: {
+            200: { description: 'The item', schema: Item, textContent: ['text/csv'] },
+            404: errorResponse('Unknown item'),
+          },
+        },
+      },
+      {
+        method: 'DELETE',
+        url: '/items/:id',
+        contract: { summary: 'Delete an item', tags: ['Items'], responses: { 204: { description: 'Deleted' } } },
+      },
+      {
+        method: 'GET',
+        url: '/items.geojson',
+        contract: {
+          summary: 'Items as GeoJSON',
+          tags: ['Items'],
+          responses: { 200: { description: 'GeoJSON', schema: Item, mediaType: 'application/geo+json' } },
+        },
+      },
+    ],
+    { Item }
+  ) as any;
+
+  it('should convert path parameters and merge methods on the same path', () => {
+    expect(Object.keys(document.paths)).toEqual(['/items.geojson', '/items/{id}']);
+    expect(Object.keys(document.paths['/items/{id}']).sort()).toEqual(['delete', 'get']);
+  });
+
+  it('should document parameters, JSON and text responses', () => {
+    const operation = document.paths['/items/{id}'].get;
+
+    expect(operation.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'format', in: 'query', required: false, schema: { type: 'string', enum: ['json', 'csv'] } },
+    ]);
+    expect(operation.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Item' });
+    expect(operation.responses['200'].content['text/csv'].schema).toEqual({ type: 'string' });
+    expect(document.paths['/items/{id}'].delete.responses['204']).toEqual({ description: 'Deleted' });
+    expect(Object.keys(document.paths['/items.geojson'].get.responses['200'].content)).toEqual(['application/geo+json']);
+  });
+
+  it('should publish components by name', () => {
+    expect(document.components.schemas.Item).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      required: ['id'],
+    });
+  });
+});
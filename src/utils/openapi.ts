@@ -0,0 +1,234 @@
+/**
+ * OpenAPI 3.1 generation from zod schemas
+ *
+ * Routes declare a RouteContract in their Fastify `config`; the contracts are
+ * collected at registration time and turned into an OpenAPI document. Only the
+ * zod features used by our schemas are converted; anything else becomes `{}`.
+ */
+
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import { ErrorResponseSchema } from "../types/schemas";
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteResponse {
+  description: string;
+  schema?: ZodTypeAny; // JSON body; omit for empty responses
+  mediaType?: string; // Media type of the JSON body (default application/json)
+  textContent?: string[]; // Additional non-JSON media types (CSV, SSE, Prometheus text, ...)
+}
+
+export interface RouteContract {
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: z.AnyZodObject;
+  querystring?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, RouteResponse>;
+}
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    contract?: RouteContract;
+  }
+}
+
+export interface ContractedRoute {
+  method: string;
+  url: string; // Fastify-style path, e.g. /pnodes/:pubkey
+  contract: RouteContract;
+}
+
+/**
+ * Response entry for the standard { error, message } body
+ */
+export function errorResponse(description: string): RouteResponse {
+  return { description, schema: ErrorResponseSchema };
+}
+
+const COMPONENT_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Convert a zod schema to JSON Schema
+ * Schemas found in `refs` are emitted as $ref to the named component.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, refs: Map<ZodTypeAny, string> = new Map()): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref) {
+    return { $ref: `${COMPONENT_REF_PREFIX}${ref}` };
+  }
+  return convertSchema(schema, refs);
+}
+
+function convertSchema(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>): JsonSchema {
+  const def = schema._def;
+  let result: JsonSchema;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      result = { type: "string" };
+      for (const check of def.checks as Array<{ kind: string; value?: number }>) {
+        if (check.kind === "min") result.minLength = check.value;
+        if (check.kind === "max") result.maxLength = check.value;
+        if (check.kind === "url") result.format = "uri";
+        if (check.kind === "uuid") result.format = "uuid";
+        if (check.kind === "datetime") result.format = "date-time";
+      }
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      result = { type: "number" };
+      for (const check of def.checks as Array<{ kind: string; value?: number; inclusive?: boolean }>) {
+        if (check.kind === "int") result.type = "integer";
+        if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      result = { type: "boolean" };
+      break;
+    case ZodFirstPartyTypeKind.ZodNull:
+      result = { type: "null" };
+      break;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      result = { const: def.value };
+      break;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      result = { type: "string", enum: def.values };
+      break;
+    case ZodFirstPartyTypeKind.ZodArray:
+      result = { type: "array", items: zodToJsonSchema(def.type, refs) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      break;
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (def.items as ZodTypeAny[]).map((item) => zodToJsonSchema(item, refs));
+      result = { type: "array", prefixItems: items, minItems: items.length, maxItems: items.length };
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value, refs);
+        if (!value.isOptional()) required.push(key);
+      }
+      result = { type: "object", properties };
+      if (required.length > 0) result.required = required;
+      break;
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      result = { type: "object", additionalProperties: zodToJsonSchema(def.valueType, refs) };
+      break;
+    case ZodFirstPartyTypeKind.ZodUnion:
+      result = { anyOf: (def.options as ZodTypeAny[]).map((option) => zodToJsonSchema(option, refs)) };
+      break;
+    case ZodFirstPartyTypeKind.ZodOptional:
+      // Optionality is expressed by the parent object's `required` list
+      result = { ...zodToJsonSchema(def.innerType, refs) };
+      break;
+    case ZodFirstPartyTypeKind.ZodNullable:
+      result = { anyOf: [zodToJsonSchema(def.innerType, refs), { type: "null" }] };
+      break;
+    case ZodFirstPartyTypeKind.ZodDefault:
+      result = { ...zodToJsonSchema(def.innerType, refs), default: def.defaultValue() };
+      break;
+    case ZodFirstPartyTypeKind.ZodEffects:
+      // Refinements can't be expressed in JSON Schema; document the underlying shape
+      result = { ...zodToJsonSchema(def.schema, refs) };
+      break;
+    default:
+      result = {};
+  }
+
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function toOpenApiPath(url: string): string {
+  return url.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function objectParameters(schema: z.AnyZodObject, location: "path" | "query", refs: Map<ZodTypeAny, string>) {
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([name, value]) => {
+    const parameter: JsonSchema = {
+      name,
+      in: location,
+      required: location === "path" || !value.isOptional(),
+      schema: zodToJsonSchema(value, refs),
+    };
+    if (value.description) parameter.description = value.description;
+    return parameter;
+  });
+}
+
+/**
+ * Build an OpenAPI 3.1 document from route contracts and named component schemas
+ */
+export function buildOpenApiDocument(
+  info: { title: string; version: string; description?: string },
+  routes: ContractedRoute[],
+  components: Record<string, ZodTypeAny>
+): JsonSchema {
+  const refs = new Map<ZodTypeAny, string>(Object.entries(components).map(([name, schema]) => [schema, name]));
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(components)) {
+    // Convert the component itself, not a reference to it
+    schemas[name] = convertSchema(schema, refs);
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const sortedRoutes = [...routes].sort((a, b) => a.url.localeCompare(b.url) || a.method.localeCompare(b.method));
+
+  for (const { method, url, contract } of sortedRoutes) {
+    const responses: Record<string, JsonSchema> = {};
+    for (const [status, response] of Object.entries(contract.responses)) {
+      const content: Record<string, JsonSchema> = {};
+      if (response.schema) {
+        content[response.mediaType ?? "application/json"] = { schema: zodToJsonSchema(response.schema, refs) };
+      }
+      for (const mediaType of response.textContent ?? []) {
+        content[mediaType] = { schema: { type: "string" } };
+      }
+      responses[status] = Object.keys(content).length > 0
+        ? { description: response.description, content }
+        : { description: response.description };
+    }
+
+    const operation: JsonSchema = {
+      summary: contract.summary,
+      tags: contract.tags,
+      responses,
+    };
+    if (contract.description) operation.description = contract.description;
+
+    const parameters = [
+      ...(contract.params ? objectParameters(contract.params, "path", refs) : []),
+      ...(contract.querystring ? objectParameters(contract.querystring, "query", refs) : []),
+    ];
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    if (contract.body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: zodToJsonSchema(contract.body, refs) } },
+      };
+    }
+
+    const path = toOpenApiPath(url);
+    paths[path] = { ...paths[path], [method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: { schemas },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for /pnodes Query Handling
+ *
+ * Run: npm test -- pnode-query.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parsePNodeQuery, applyPNodeQuery, PNodeQuery } from './pnode-query';
+import { PNode } from '../types/pnode';
+
+function makeNode(pubkey: string, overrides: Partial<PNode> = {}): PNode {
+  return {
+    pubkey,
+    status: 'online',
+    version: '0.8.0',
+    storageUsed: 10,
+    storageTotal: 100,
+    uptime: 50,
+    ip: '1.2.3.4:9001',
+    lastSeen: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function parse(raw: Record<string, string>): PNodeQuery {
+  const parsed = parsePNodeQuery(raw);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.query;
+}
+
+const nodes = [
+  makeNode('a', { storageUsed: 90, version: '0.7.3' }),
+  makeNode('b', { status: 'offline', storageUsed: 50 }),
+  makeNode('c', { storageUsed: 20, isPublic: true, version: '0.8.1-rc.1' }),
+  makeNode('d', { storageUsed: 70, isPublic: true }),
+];
+
+describe('parsePNodeQuery', () => {
+  it('should reject unknown sort fields', () => {
+    expect(parsePNodeQuery({ sort: 'pubkey' })).toHaveProperty('error');
+  });
+
+  it('should reject invalid status and limit values', () => {
+    expect(parsePNodeQuery({ status: 'maybe' })).toHaveProperty('error');
+    expect(parsePNodeQuery({ limit: '0' })).toHaveProperty('error');
+  });
+
+  it('should treat a leading - in sort as descending', () => {
+    expect(parse({ sort: '-storageUsed' })).toMatchObject({ sort: 'storageUsed', order: 'desc' });
+  });
+});
+
+describe('applyPNodeQuery', () => {
+  it('should filter by status and report totals', () => {
+    const result = applyPNodeQuery(nodes, parse({ status: 'online' }));
+    expect(result.total).toBe(4);
+    expect(result.filtered).toBe(3);
+    expect(result.items.map((n) => n.pubkey)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('should filter by semver range', () => {
+    const result = applyPNodeQuery(nodes, parse({ version: '>=0.8.0-0' }));
+    expect(result.items.map((n) => n.pubkey)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should filter by storage utilization bounds', () => {
+    const result = applyPNodeQuery(nodes, parse({ minUtilization: '50', maxUtilization: '80' }));
+    expect(result.items.map((n) => n.pubkey)).toEqual(['b', 'd']);
+  });
+
+  it('should filter by country and tier using the context', () => {
+    const result = applyPNodeQuery(nodes, parse({ country: 'germany', tier: 'Excellent' }), {
+      countryByPubkey: new Map([['a', 'Germany'], ['c', 'Germany'], ['d', 'France']]),
+      metricsByPubkey: new Map([
+        ['a', { pubkey: 'a', healthScore: 95, uptime24h: 100, storageUtilization: 90, tier: 'Excellent' }],
+        ['c', { pubkey: 'c', healthScore: 60, uptime24h: 50, storageUtilization: 20, tier: 'Poor' }],
+      ]),
+    });
+    expect(result.items.map((n) => n.pubkey)).toEqual(['a']);
+  });
+
+  it('should sort descending and paginate with cursors', () => {
+    const query = parse({ sort: '-storageUsed', limit: '2' });
+    const first = applyPNodeQuery(nodes, query);
+    expect(first.items.map((n) => n.pubkey)).toEqual(['a', 'd']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = applyPNodeQuery(nodes, { ...query, cursor: first.nextCursor as string });
+    expect(second.items.map((n) => n.pubkey)).toEqual(['b', 'c']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should project requested fields', () => {
+    const result = applyPNodeQuery(nodes, parse({ fields: 'pubkey,status', limit: '1' }));
+    expect(result.items).toEqual([{ pubkey: 'a', status: 'online' }]);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Filtering, sorting, cursor pagination and field projection for /pnodes
+ */
+
+import { PNode, PNodeStatus, NodeMetrics } from "../types/pnode";
+import { calculateUtilization } from "./format";
+import { satisfiesRange } from "./semver";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+// Numeric PNode fields plus derived metrics that /pnodes can be sorted by
+export const SORTABLE_FIELDS = [
+  "storageUsed",
+  "storageTotal",
+  "storageCommitted",
+  "storageUsagePercent",
+  "storageUtilization",
+  "uptime",
+  "lastSeenTimestamp",
+  "rpcPort",
+  "ramUsed",
+  "ramTotal",
+  "healthScore",
+  "uptime24h",
+] as const;
+
+export type SortableField = typeof SORTABLE_FIELDS[number];
+
+export const PROJECTABLE_FIELDS: Array<keyof PNode> = [
+  "pubkey",
+  "status",
+  "version",
+  "storageUsed",
+  "storageTotal",
+  "uptime",
+  "ip",
+  "lastSeen",
+  "address",
+  "isPublic",
+  "rpcPort",
+  "storageCommitted",
+  "storageUsagePercent",
+  "lastSeenTimestamp",
+  "ramUsed",
+  "ramTotal",
+];
+
+type NodeTier = NodeMetrics["tier"];
+const TIERS: NodeTier[] = ["Excellent", "Good", "Poor"];
+
+export interface PNodeQuery {
+  status?: PNodeStatus;
+  version?: string;
+  countries?: string[];
+  isPublic?: boolean;
+  minUtilization?: number;
+  maxUtilization?: number;
+  tiers?: NodeTier[];
+  sort?: SortableField;
+  order: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+  fields?: Array<keyof PNode>;
+}
+
+export interface PNodeQueryContext {
+  countryByPubkey?: Map<string, string>;
+  metricsByPubkey?: Map<string, NodeMetrics>;
+}
+
+export interface PNodeQueryResult {
+  total: number; // Nodes before filtering
+  filtered: number; // Nodes matching the filters
+  count: number; // Nodes in this page
+  nextCursor: string | null;
+  items: Array<Partial<PNode>>;
+}
+
+export type RawPNodeQuery = Record<string, string | undefined>;
+
+function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string | undefined): number | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Validate raw query string parameters
+ */
+export function parsePNodeQuery(raw: RawPNodeQuery): { query: PNodeQuery } | { error: string } {
+  const query: PNodeQuery = { order: "asc" };
+
+  if (raw.status !== undefined) {
+    if (raw.status !== "online" && raw.status !== "offline") {
+      return { error: "status must be online or offline" };
+    }
+    query.status = raw.status;
+  }
+
+  if (raw.version !== undefined && raw.version !== "") {
+    query.version = raw.version;
+  }
+
+  if (raw.country !== undefined) {
+    query.countries = splitList(raw.country).map((c) => c.toLowerCase());
+  }
+
+  if (raw.isPublic !== undefined) {
+    if (raw.isPublic !== "true" && raw.isPublic !== "false") {
+      return { error: "isPublic must be true or false" };
+    }
+    query.isPublic = raw.isPublic === "true";
+  }
+
+  const minUtilization = parseNumber(raw.minUtilization);
+  const maxUtilization = parseNumber(raw.maxUtilization);
+  if (minUtilization === null || maxUtilization === null) {
+    return { error: "minUtilization and maxUtilization must be numbers (percent)" };
+  }
+  query.minUtilization = minUtilization;
+  query.maxUtilization = maxUtilization;
+
+  if (raw.tier !== undefined) {
+    const tiers = splitList(raw.tier);
+    const invalid = tiers.find((t) => !TIERS.includes(t as NodeTier));
+    if (invalid) {
+      return { error: `tier must be one of ${TIERS.join(", ")}` };
+    }
+    query.tiers = tiers as NodeTier[];
+  }
+
+  if (raw.sort !== undefined && raw.sort !== "") {
+    const descending = raw.sort.startsWith("-");
+    const field = descending ? raw.sort.slice(1) : raw.sort;
+    if (!SORTABLE_FIELDS.includes(field as SortableField)) {
+      return { error: `sort must be one of ${SORTABLE_FIELDS.join(", ")} (prefix with - for descending)` };
+    }
+    query.sort = field as SortableField;
+    query.order = descending ? "desc" : "asc";
+  }
+
+  if (raw.order !== undefined) {
+    if (raw.order !== "asc" && raw.order !== "desc") {
+      return { error: "order must be asc or desc" };
+    }
+    query.order = raw.order;
+  }
+
+  const limit = parseNumber(raw.limit);
+  if (limit === null || (limit !== undefined && (limit < 1 || !Number.isInteger(limit)))) {
+    return { error: "limit must be a positive integer" };
+  }
+  if (limit !== undefined) {
+    query.limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  if (raw.cursor !== undefined && raw.cursor !== "") {
+    if (!decodeCursor(raw.cursor)) {
+      return { error: "cursor is invalid" };
+    }
+    query.cursor = raw.cursor;
+  }
+
+  if (raw.fields !== undefined) {
+    const fields = splitList(raw.fields);
+    const invalid = fields.find((f) => !PROJECTABLE_FIELDS.includes(f as keyof PNode));
+    if (invalid) {
+      return { error: `Unknown field "${invalid}"` };
+    }
+    query.fields = fields as Array<keyof PNode>;
+  }
+
+  return { query };
+}
+
+/**
+ * Whether the query needs geo data or metrics to be evaluated
+ */
+export function queryNeedsCountries(query: PNodeQuery): boolean {
+  return query.countries !== undefined;
+}
+
+export function queryNeedsMetrics(query: PNodeQuery): boolean {
+  return query.tiers !== undefined || query.sort === "healthScore" || query.sort === "uptime24h";
+}
+
+type SortKey = [number | null, string];
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(key) && key.length === 2 &&
+        (key[0] === null || typeof key[0] === "number") && typeof key[1] === "string") {
+      return key as SortKey;
+    }
+  } catch (error) {
+    // Fall through
+  }
+  return null;
+}
+
+function sortValue(node: PNode, field: SortableField | undefined, context: PNodeQueryContext): number | null {
+  if (!field) return null;
+
+  let value: number | undefined;
+  switch (field) {
+    case "storageUtilization":
+      value = calculateUtilization(node.storageUsed, node.storageTotal);
+      break;
+    case "healthScore":
+      value = context.metricsByPubkey?.get(node.pubkey)?.healthScore;
+      break;
+    case "uptime24h":
+      value = context.metricsByPubkey?.get(node.pubkey)?.uptime24h;
+      break;
+    default:
+      value = node[field];
+  }
+
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Order keys by value (missing values last in either direction), then by pubkey
+ */
+function compareKeys(a: SortKey, b: SortKey, order: "asc" | "desc"): number {
+  if (a[0] !== b[0]) {
+    if (a[0] === null) return 1;
+    if (b[0] === null) return -1;
+    return order === "asc" ? a[0] - b[0] : b[0] - a[0];
+  }
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+function matchesFilters(node: PNode, query: PNodeQuery, context: PNodeQueryContext): boolean {
+  if (query.status && node.status !== query.status) return false;
+
+  if (query.version !== undefined &&
+      node.version !== query.version &&
+      !satisfiesRange(node.version, query.version)) {
+    return false;
+  }
+
+  if (query.countries) {
+    const country = context.countryByPubkey?.get(node.pubkey)?.toLowerCase();
+    if (!country || !query.countries.includes(country)) return false;
+  }
+
+  if (query.isPublic !== undefined && (node.isPublic ?? false) !== query.isPublic) return false;
+
+  if (query.minUtilization !== undefined || query.maxUtilization !== undefined) {
+    const utilization = calculateUtilization(node.storageUsed, node.storageTotal);
+    if (query.minUtilization !== undefined && utilization < query.minUtilization) return false;
+    if (query.maxUtilization !== undefined && utilization > query.maxUtilization) return false;
+  }
+
+  if (query.tiers) {
+    const tier = context.metricsByPubkey?.get(node.pubkey)?.tier;
+    if (!tier || !query.tiers.includes(tier)) return false;
+  }
+
+  return true;
+}
+
+function project(node: PNode, fields: Array<keyof PNode> | undefined): Partial<PNode> {
+  if (!fields) return node;
+  const projected: Partial<PNode> = {};
+  for (const field of fields) {
+    if (node[field] !== undefined) {
+      (projected as Record<string, unknown>)[field] = node[field];
+    }
+  }
+  return projected;
+}
+
+/**
+ * Filter, sort, paginate and project nodes
+ */
+export function applyPNodeQuery(
+  nodes: PNode[],
+  query: PNodeQuery,
+  context: PNodeQueryContext = {}
+): PNodeQueryResult {
+  const filtered = nodes
+    .filter((node) => matchesFilters(node, query, context))
+    .map((node) => ({ node, key: [sortValue(node, query.sort, context), node.pubkey] as SortKey }))
+    .sort((a, b) => compareKeys(a.key, b.key, query.order));
+
+  let startIndex = 0;
+  const cursorKey = query.cursor ? decodeCursor(query.cursor) : null;
+  if (cursorKey) {
+    startIndex = filtered.findIndex((entry) => compareKeys(entry.key, cursorKey, query.order) > 0);
+    if (startIndex === -1) startIndex = filtered.length;
+  }
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const page = filtered.slice(startIndex, startIndex + limit);
+  const hasMore = startIndex + limit < filtered.length;
+
+  return {
+    total: nodes.length,
+    filtered: filtered.length,
+    count: page.length,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+    items: page.map((entry) => project(entry.node, query.fields)),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Multi-Seed Pod Merging
+ *
+ * Run: npm test -- pod-merge.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mergePodsByFreshness } from './pod-merge';
+
+describe('mergePodsByFreshness', () => {
+  it('should keep the copy with the highest last_seen_timestamp', () => {
+    const merged = mergePodsByFreshness([
+      { seed: 'a', pods: [{ pubkey: 'n1', last_seen_timestamp: 100, version: '0.7.0' }] },
+      { seed: 'b', pods: [{ pubkey: 'n1', last_seen_timestamp: 200, version: '0.8.0' }] },
+    ]);
+
+    expect(merged.pods).toHaveLength(1);
+    expect(merged.pods[0].last_seen_timestamp).toBe(200);
+    expect(merged.pods[0].version).toBe('0.8.0');
+    expect(merged.freshestSeedByPubkey.get('n1')).toBe('b');
+  });
+
+  it('should fill missing fields from staler copies', () => {
+    const merged = mergePodsByFreshness([
+      { seed: 'a', pods: [{ pubkey: 'n1', last_seen_timestamp: 100, storage_committed: 1000 }] },
+      { seed: 'b', pods: [{ pubkey: 'n1', last_seen_timestamp: 200, address: '1.2.3.4:9001' }] },
+    ]);
+
+    expect(merged.pods[0]).toEqual({
+      pubkey: 'n1',
+      last_seen_timestamp: 200,
+      address: '1.2.3.4:9001',
+      storage_committed: 1000,
+    });
+  });
+
+  it('should prefer earlier seeds when timestamps tie', () => {
+    const merged = mergePodsByFreshness([
+      { seed: 'a', pods: [{ pubkey: 'n1', last_seen_timestamp: 100, version: 'a' }] },
+      { seed: 'b', pods: [{ pubkey: 'n1', last_seen_timestamp: 100, version: 'b' }] },
+    ]);
+
+    expect(merged.pods[0].version).toBe('a');
+  });
+
+  it('should record which seeds reported each pubkey', () => {
+    const merged = mergePodsByFreshness([
+      { seed: 'a', pods: [{ pubkey: 'n1', last_seen_timestamp: 1 }, { pubkey: 'n2', last_seen_timestamp: 1 }] },
+      { seed: 'b', pods: [{ pubkey: 'n1', last_seen_timestamp: 1 }] },
+    ]);
+
+    expect(merged.seedsByPubkey.get('n1')).toEqual(['a', 'b']);
+    expect(merged.seedsByPubkey.get('n2')).toEqual(['a']);
+  });
+
+  it('should drop pods without a pubkey', () => {
+    const merged = mergePodsByFreshness([
+      { seed: 'a', pods: [{ last_seen_timestamp: 1 }] },
+    ]);
+
+    expect(merged.pods).toHaveLength(0);
+  });
+});
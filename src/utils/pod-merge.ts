@@ -0,0 +1,67 @@
+import { Pod } from "xandeum-prpc";
+
+export interface SeedPods {
+  seed: string;
+  pods: Pod[];
+}
+
+export interface MergedPods {
+  pods: Pod[];
+  // Seeds that reported each pubkey, in input order
+  seedsByPubkey: Map<string, string[]>;
+  // Seed whose copy had the highest last_seen_timestamp
+  freshestSeedByPubkey: Map<string, string>;
+}
+
+/**
+ * Merge pods reported by several seeds into one pod per pubkey.
+ *
+ * For each pubkey the copies are ordered by last_seen_timestamp (freshest first,
+ * ties keep seed order) and every field takes the value from the freshest copy
+ * that defines it, so a stale seed can fill gaps but never overwrite fresher data.
+ * Pods without a pubkey are dropped.
+ */
+export function mergePodsByFreshness(sources: SeedPods[]): MergedPods {
+  const copiesByPubkey = new Map<string, Array<{ seed: string; pod: Pod; order: number }>>();
+  let order = 0;
+
+  for (const { seed, pods } of sources) {
+    for (const pod of pods) {
+      if (!pod.pubkey) continue;
+      const copies = copiesByPubkey.get(pod.pubkey);
+      const copy = { seed, pod, order: order++ };
+      if (copies) {
+        copies.push(copy);
+      } else {
+        copiesByPubkey.set(pod.pubkey, [copy]);
+      }
+    }
+  }
+
+  const pods: Pod[] = [];
+  const seedsByPubkey = new Map<string, string[]>();
+  const freshestSeedByPubkey = new Map<string, string>();
+
+  for (const [pubkey, copies] of copiesByPubkey.entries()) {
+    copies.sort((a, b) =>
+      (b.pod.last_seen_timestamp || 0) - (a.pod.last_seen_timestamp || 0) || a.order - b.order
+    );
+
+    const merged: Record<string, unknown> = {};
+    for (const { pod } of copies) {
+      for (const [field, value] of Object.entries(pod)) {
+        if (merged[field] === undefined && value !== undefined && value !== null) {
+          merged[field] = value;
+        }
+      }
+    }
+
+    pods.push(merged as unknown as Pod);
+    seedsByPubkey.set(pubkey, Array.from(new Set(copies.map((c) => c.seed))).sort(
+      (a, b) => sources.findIndex((s) => s.seed === a) - sources.findIndex((s) => s.seed === b)
+    ));
+    freshestSeedByPubkey.set(pubkey, copies[0].seed);
+  }
+
+  return { pods, seedsByPubkey, freshestSeedByPubkey };
+}
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Prometheus Exposition Format
+ *
+ * Run: npm test -- prometheus.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Counter, Histogram, renderMetricFamilies } from './prometheus';
+
+describe('renderMetricFamilies', () => {
+  it('should render HELP, TYPE and labelled samples', () => {
+    const text = renderMetricFamilies([{
+      name: 'xandeum_test',
+      help: 'A test gauge',
+      type: 'gauge',
+      samples: [{ value: 1 }, { labels: { version: '0.8.0', country: 'Germany' }, value: 2.5 }],
+    }]);
+    expect(text).toBe(
+      '# HELP xandeum_test A test gauge\n' +
+      '# TYPE xandeum_test gauge\n' +
+      'xandeum_test 1\n' +
+      'xandeum_test{version="0.8.0",country="Germany"} 2.5\n'
+    );
+  });
+
+  it('should escape label values', () => {
+    const text = renderMetricFamilies([{
+      name: 'm', help: 'h', type: 'gauge', samples: [{ labels: { v: 'a"b\\c\nd' }, value: 0 }],
+    }]);
+    expect(text).toContain('m{v="a\\"b\\\\c\\nd"} 0');
+  });
+});
+
+describe('Counter', () => {
+  it('should accumulate per label set regardless of key order', () => {
+    const counter = new Counter('c_total', 'help');
+    counter.inc({ a: '1', b: '2' });
+    counter.inc({ b: '2', a: '1' }, 2);
+    counter.inc({ a: '3', b: '2' });
+    expect(counter.get({ a: '1', b: '2' })).toBe(3);
+    expect(counter.family().samples).toHaveLength(2);
+  });
+});
+
+describe('Histogram', () => {
+  it('should render cumulative buckets, sum and count', () => {
+    const histogram = new Histogram('h_seconds', 'help', [0.1, 1]);
+    histogram.observe({ method: 'getPods' }, 0.05);
+    histogram.observe({ method: 'getPods' }, 0.5);
+    histogram.observe({ method: 'getPods' }, 5);
+
+    const values = histogram.family().samples.map((s) => [s.name, s.labels?.le, s.value]);
+    expect(values).toEqual([
+      ['h_seconds_bucket', '0.1', 1],
+      ['h_seconds_bucket', '1', 2],
+      ['h_seconds_bucket', '+Inf', 3],
+      ['h_seconds_sum', undefined, 5.55],
+      ['h_seconds_count', undefined, 3],
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Minimal Prometheus text exposition format (version 0.0.4) support
+ *
+ * Counters and histograms keep their state in-process; gauges are built
+ * on demand as plain metric families when /metrics is scraped.
+ */
+
+export type MetricType = "gauge" | "counter" | "histogram";
+export type Labels = Record<string, string>;
+
+export interface MetricSample {
+  name?: string; // Defaults to the family name (histograms use _bucket/_sum/_count)
+  labels?: Labels;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function formatLabels(labels: Labels | undefined): string {
+  if (!labels) return "";
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+/**
+ * Render metric families in the text exposition format
+ */
+export function renderMetricFamilies(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(`${sample.name ?? family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Stable key for a label set, independent of property order
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  entries(): Array<{ labels: Labels; value: number }> {
+    return Array.from(this.values.values());
+  }
+
+  family(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: "counter",
+      samples: this.entries().map(({ labels, value }) => ({ labels, value })),
+    };
+  }
+}
+
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((upperBound, index) => {
+      if (value <= upperBound) entry!.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  family(): MetricFamily {
+    const samples: MetricSample[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((upperBound, index) => {
+        samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: String(upperBound) }, value: counts[index] });
+      });
+      samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: "+Inf" }, value: count });
+      samples.push({ name: `${this.name}_sum`, labels, value: sum });
+      samples.push({ name: `${this.name}_count`, labels, value: count });
+    }
+    return { name: this.name, help: this.help, type: "histogram", samples };
+  }
+}
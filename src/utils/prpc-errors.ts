@@ -0,0 +1,40 @@
+export type PrpcErrorCategory =
+  | "timeout"
+  | "connection_refused"
+  | "connection_reset"
+  | "dns"
+  | "unreachable"
+  | "http"
+  | "rpc"
+  | "unknown";
+
+/**
+ * Classify a pRPC failure from its error message / code
+ */
+export function categorizePrpcError(error: unknown): PrpcErrorCategory {
+  if (!(error instanceof Error)) return "unknown";
+
+  const code = (error as Error & { code?: string }).code || "";
+  const text = `${code} ${error.message}`;
+
+  if (/timeout|timed out|ETIMEDOUT|AbortError/i.test(text) || error.name === "AbortError") return "timeout";
+  if (/ECONNREFUSED/.test(text)) return "connection_refused";
+  if (/ECONNRESET|socket hang up/i.test(text)) return "connection_reset";
+  if (/ENOTFOUND|EAI_AGAIN/.test(text)) return "dns";
+  if (/EHOSTUNREACH|ENETUNREACH/.test(text)) return "unreachable";
+  if (/HTTP error/i.test(text)) return "http";
+  if (error.name === "PrpcError") return "rpc";
+  return "unknown";
+}
+
+/**
+ * Network-level failures that are expected when a node is offline or firewalled
+ */
+export function isExpectedPrpcError(error: unknown): boolean {
+  const category = categorizePrpcError(error);
+  return category === "timeout" ||
+    category === "connection_refused" ||
+    category === "connection_reset" ||
+    category === "dns" ||
+    category === "unreachable";
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for Semantic Version Helpers
+ *
+ * Run: npm test -- semver.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseVersion, compareVersions, satisfiesRange } from './semver';
+
+describe('parseVersion', () => {
+  it('should parse full versions with prerelease and build metadata', () => {
+    const version = parseVersion('v0.8.1-rc.2+abc123');
+    expect(version).toMatchObject({
+      major: 0,
+      minor: 8,
+      patch: 1,
+      prerelease: ['rc', 2],
+      build: ['abc123'],
+    });
+  });
+
+  it('should default missing minor and patch parts to 0', () => {
+    expect(parseVersion('1.2')).toMatchObject({ major: 1, minor: 2, patch: 0 });
+  });
+
+  it('should return null for non-versions', () => {
+    expect(parseVersion('unknown')).toBeNull();
+    expect(parseVersion(undefined)).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should order by major, minor and patch numerically', () => {
+    expect(compareVersions('0.10.0', '0.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0', '0.99.99')).toBeGreaterThan(0);
+  });
+
+  it('should order prereleases before their release', () => {
+    expect(compareVersions('0.8.0-rc.1', '0.8.0')).toBeLessThan(0);
+    expect(compareVersions('0.8.0-rc.2', '0.8.0-rc.10')).toBeLessThan(0);
+    expect(compareVersions('0.8.0-alpha', '0.8.0-beta')).toBeLessThan(0);
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compareVersions('0.8.0+a', '0.8.0+b')).toBe(0);
+  });
+
+  it('should sort unparseable versions first', () => {
+    expect(compareVersions('unknown', '0.1.0')).toBeLessThan(0);
+  });
+});
+
+describe('satisfiesRange', () => {
+  it('should match exact versions', () => {
+    expect(satisfiesRange('0.8.0', '0.8.0')).toBe(true);
+    expect(satisfiesRange('0.8.1', '=0.8.0')).toBe(false);
+  });
+
+  it('should handle comparator sets', () => {
+    expect(satisfiesRange('0.8.5', '>=0.8.0 <0.9.0')).toBe(true);
+    expect(satisfiesRange('0.9.0', '>=0.8.0 <0.9.0')).toBe(false);
+  });
+
+  it('should handle caret ranges on 0.x versions', () => {
+    expect(satisfiesRange('0.8.9', '^0.8.1')).toBe(true);
+    expect(satisfiesRange('0.9.0', '^0.8.1')).toBe(false);
+    expect(satisfiesRange('1.9.0', '^1.2.0')).toBe(true);
+  });
+
+  it('should handle tilde and x-ranges', () => {
+    expect(satisfiesRange('0.8.3', '~0.8.1')).toBe(true);
+    expect(satisfiesRange('0.8.3', '0.8.x')).toBe(true);
+    expect(satisfiesRange('0.8.3', '0.8')).toBe(true);
+    expect(satisfiesRange('0.9.0', '0.8.x')).toBe(false);
+    expect(satisfiesRange('5.0.0', '*')).toBe(true);
+  });
+
+  it('should handle OR groups', () => {
+    expect(satisfiesRange('0.9.1', '0.7.x || 0.9.x')).toBe(true);
+    expect(satisfiesRange('0.8.1', '0.7.x || 0.9.x')).toBe(false);
+  });
+
+  it('should not match malformed ranges or versions', () => {
+    expect(satisfiesRange('0.8.0', '>>0.8')).toBe(false);
+    expect(satisfiesRange('unknown', '*')).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Minimal semantic version parsing and range matching for pNode version strings
+ *
+ * Parsing is lenient: a leading "v" is ignored and missing minor/patch parts
+ * default to 0 ("0.8" -> 0.8.0). Build metadata is kept but ignored for ordering.
+ * Ranges support comparators (=, >, >=, <, <=), caret (^), tilde (~), x-ranges
+ * (0.8.x, 0.8, *), space-separated AND and "||" OR. Unlike npm, prereleases are
+ * not excluded from ranges; they are simply ordered before their release.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+  raw: string;
+}
+
+const VERSION_REGEX = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a version string, returning null if it isn't a recognizable version
+ */
+export function parseVersion(version: string | undefined): SemVer | null {
+  if (!version) return null;
+  const match = VERSION_REGEX.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: match[2] !== undefined ? Number(match[2]) : 0,
+    patch: match[3] !== undefined ? Number(match[3]) : 0,
+    prerelease: match[4]
+      ? match[4].split(".").map((part) => (/^\d+$/.test(part) ? Number(part) : part))
+      : [],
+    build: match[5] ? match[5].split(".") : [],
+    raw: version,
+  };
+}
+
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  // A release ranks above any of its prereleases
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNum = typeof a[i] === "number";
+    const bNum = typeof b[i] === "number";
+    if (aNum && bNum) return (a[i] as number) - (b[i] as number);
+    if (aNum) return -1;
+    if (bNum) return 1;
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Compare two parsed versions by semver precedence (negative if a < b)
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  return (a.major - b.major) ||
+    (a.minor - b.minor) ||
+    (a.patch - b.patch) ||
+    comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Compare two version strings; unparseable versions sort before parseable ones
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA && !parsedB) return a < b ? -1 : a > b ? 1 : 0;
+  if (!parsedA) return -1;
+  if (!parsedB) return 1;
+  return compareSemVer(parsedA, parsedB);
+}
+
+type Comparator = { op: "<" | "<=" | ">" | ">=" | "="; version: SemVer };
+
+function makeVersion(major: number, minor: number, patch: number, prerelease: Array<string | number> = []): SemVer {
+  return { major, minor, patch, prerelease, build: [], raw: `${major}.${minor}.${patch}` };
+}
+
+/**
+ * Expand one range token (e.g. "^0.8.1", ">=0.7", "0.8.x") into comparators
+ */
+function parseRangeToken(token: string): Comparator[] | null {
+  const match = /^(\^|~|>=|<=|>|<|=)?v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(token);
+  if (!match) return null;
+
+  const op = match[1] || "";
+  const isWild = (part: string | undefined) => part === undefined || part === "*" || part === "x" || part === "X";
+  const prerelease = match[5]
+    ? match[5].split(".").map((part) => (/^\d+$/.test(part) ? Number(part) : part))
+    : [];
+
+  if (isWild(match[2])) {
+    // "*" matches everything
+    return [];
+  }
+
+  const major = Number(match[2]);
+  const minorWild = isWild(match[3]);
+  const patchWild = isWild(match[4]);
+  const minor = minorWild ? 0 : Number(match[3]);
+  const patch = patchWild ? 0 : Number(match[4]);
+  const base = makeVersion(major, minor, patch, prerelease);
+
+  switch (op) {
+    case "^": {
+      // Allow changes that do not modify the left-most non-zero part
+      const upper = major > 0 || minorWild
+        ? makeVersion(major + 1, 0, 0)
+        : minor > 0 || patchWild
+          ? makeVersion(0, minor + 1, 0)
+          : makeVersion(0, 0, patch + 1);
+      return [{ op: ">=", version: base }, { op: "<", version: upper }];
+    }
+    case "~": {
+      const upper = minorWild ? makeVersion(major + 1, 0, 0) : makeVersion(major, minor + 1, 0);
+      return [{ op: ">=", version: base }, { op: "<", version: upper }];
+    }
+    case ">":
+      if (minorWild) return [{ op: ">=", version: makeVersion(major + 1, 0, 0) }];
+      if (patchWild) return [{ op: ">=", version: makeVersion(major, minor + 1, 0) }];
+      return [{ op: ">", version: base }];
+    case "<=":
+      if (minorWild) return [{ op: "<", version: makeVersion(major + 1, 0, 0) }];
+      if (patchWild) return [{ op: "<", version: makeVersion(major, minor + 1, 0) }];
+      return [{ op: "<=", version: base }];
+    case ">=":
+    case "<":
+      return [{ op, version: base }];
+    default:
+      // Plain or "=" version; partial versions behave as x-ranges
+      if (minorWild) return [{ op: ">=", version: base }, { op: "<", version: makeVersion(major + 1, 0, 0) }];
+      if (patchWild) return [{ op: ">=", version: base }, { op: "<", version: makeVersion(major, minor + 1, 0) }];
+      return [{ op: "=", version: base }];
+  }
+}
+
+/**
+ * Parse a range expression into OR-groups of AND-ed comparators
+ * Returns null if any part of the range is malformed.
+ */
+export function parseRange(range: string): Comparator[][] | null {
+  const groups: Comparator[][] = [];
+
+  for (const group of range.split("||")) {
+    // Allow "> = 0.8" style spacing between operator and version
+    const tokens = group.trim().replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1").split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      groups.push([]);
+      continue;
+    }
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const parsed = parseRangeToken(token);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    groups.push(comparators);
+  }
+
+  return groups;
+}
+
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareSemVer(version, comparator.version);
+  switch (comparator.op) {
+    case "<": return cmp < 0;
+    case "<=": return cmp <= 0;
+    case ">": return cmp > 0;
+    case ">=": return cmp >= 0;
+    case "=": return cmp === 0;
+  }
+}
+
+/**
+ * Whether a version satisfies a range expression
+ * Unparseable versions or ranges never match.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  const parsedVersion = parseVersion(version);
+  const groups = parseRange(range);
+  if (!parsedVersion || !groups) return false;
+
+  return groups.some((comparators) => comparators.every((c) => testComparator(parsedVersion, c)));
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Monthly SLA Reports
+ *
+ * Run: npm test -- sla-report.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildSlaReport, formatDuration, parseMonth, renderSlaHtml, renderSlaMarkdown, SlaReportInput } from './sla-report';
+import { NodeEvent, NodeEventState, NodeEventType } from '../types/pnode';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const JAN = Date.UTC(2026, 0, 1);
+const FEB = Date.UTC(2026, 1, 1);
+
+function at(day: number, hours = 0, minutes = 0): number {
+  return JAN + (day - 1) * DAY + hours * 60 * MINUTE + minutes * MINUTE;
+}
+
+function seen(ms: number): NodeEventState {
+  return { lastSeenTimestamp: ms / 1000 };
+}
+
+function event(type: NodeEventType, detectedAt: number, previous?: NodeEventState, current?: NodeEventState): NodeEvent {
+  return { id: String(detectedAt * 1000), type, pubkey: 'a', timestamp: new Date(detectedAt).toISOString(), previous, current };
+}
+
+const events: NodeEvent[] = [
+  event('node_first_seen', at(1), undefined, { status: 'online', version: '0.8.0', ...seen(at(1)) }),
+  // Heartbeats stop at 12:00; stale from 12:05 until the next heartbeat at 12:59
+  event('node_offline', at(10, 12, 10), { status: 'online' }, { status: 'offline', ...seen(at(10, 12)) }),
+  event('node_online', at(10, 13), { status: 'offline' }, { status: 'online', ...seen(at(10, 12, 59)) }),
+  event('node_restarted', at(15), { uptime: 50 }, { uptime: 0.01 }),
+  event('version_upgraded', at(15), { version: '0.8.0' }, { version: '0.8.1' }),
+  // Missing from gossip from 00:05 (last heartbeat 00:00 + threshold) until 00:58
+  event('node_disappeared', at(20, 0, 10), { status: 'online', ...seen(at(20)) }),
+  event('node_rejoined', at(20, 1), undefined, { status: 'online', ...seen(at(20, 0, 58)) }),
+];
+
+function input(overrides: Partial<SlaReportInput> = {}): SlaReportInput {
+  return {
+    pubkey: 'a',
+    month: '2026-01',
+    events,
+    observedSince: JAN - DAY,
+    currentStatus: 'online',
+    onlineThresholdSeconds: 300,
+    now: FEB + DAY,
+    ...overrides,
+  };
+}
+
+describe('parseMonth', () => {
+  it('should default to the current UTC month and return its bounds', () => {
+    expect(parseMonth(undefined, at(15))).toEqual({ month: '2026-01', from: JAN, to: FEB });
+  });
+
+  it('should reject malformed and future months', () => {
+    expect(parseMonth('2026-13', at(15))).toEqual({ error: 'month must be in YYYY-MM format' });
+    expect(parseMonth('2026-02', at(15))).toEqual({ error: 'month must not be in the future' });
+  });
+});
+
+describe('buildSlaReport', () => {
+  it('should compute availability from outage intervals', () => {
+    const report = buildSlaReport(input());
+
+    expect(report.outages).toEqual([
+      { start: at(10, 12, 5), end: at(10, 12, 59), durationMs: 54 * MINUTE, cause: 'offline', ongoing: false },
+      { start: at(20, 0, 5), end: at(20, 0, 58), durationMs: 53 * MINUTE, cause: 'missing', ongoing: false },
+    ]);
+    expect(report.trackedFrom).toBe(JAN);
+    expect(report.trackedMs).toBe(31 * DAY);
+    expect(report.totalOutageMs).toBe(107 * MINUTE);
+    expect(report.longestOutageMs).toBe(54 * MINUTE);
+    expect(report.availabilityPercent).toBe(99.76);
+  });
+
+  it('should count restarts and version changes in the month', () => {
+    const report = buildSlaReport(input());
+    expect(report.restarts).toBe(1);
+    expect(report.versionChanges).toEqual([{ at: at(15), type: 'version_upgraded', from: '0.8.0', to: '0.8.1' }]);
+  });
+
+  it('should end the current month at now and flag ongoing outages', () => {
+    const report = buildSlaReport(input({ events: events.slice(0, 2), now: at(10, 12, 35) }));
+    expect(report.to).toBe(at(10, 12, 35));
+    expect(report.outages).toEqual([
+      { start: at(10, 12, 5), end: at(10, 12, 35), durationMs: 30 * MINUTE, cause: 'offline', ongoing: true },
+    ]);
+  });
+
+  it('should infer earlier state from later events and not track before the event log', () => {
+    // The first event (in January) says the node was online before it
+    const december = buildSlaReport(input({ month: '2025-12', events: events.slice(1), observedSince: JAN - 10 * DAY }));
+    expect(december.trackedFrom).toBe(JAN - 10 * DAY);
+    expect(december.availabilityPercent).toBe(100);
+
+    const untracked = buildSlaReport(input({ month: '2025-12', observedSince: JAN }));
+    expect(untracked.trackedMs).toBe(0);
+    expect(untracked.availabilityPercent).toBeNull();
+  });
+});
+
+describe('rendering', () => {
+  const report = buildSlaReport(input());
+
+  it('should render Markdown tables', () => {
+    const markdown = renderSlaMarkdown(report);
+    expect(markdown).toContain('# Availability report 2026-01');
+    expect(markdown).toContain('| Availability | 99.76% |');
+    expect(markdown).toContain('| 2026-01-10 12:05:00 UTC | 2026-01-10 12:59:00 UTC | 54m | Stale last\\_seen\\_timestamp |');
+  });
+
+  it('should render escaped HTML', () => {
+    const html = renderSlaHtml({ ...report, pubkey: '<script>' });
+    expect(html).toContain('<td>Missing from gossip</td>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('should show seconds for short durations', () => {
+    expect(formatDuration(45 * 1000)).toBe('45s');
+    expect(formatDuration(90 * MINUTE)).toBe('1h 30m');
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Monthly availability (SLA) reports
+ *
+ * A node's state over time is replayed from its lifecycle events. A node is
+ * online while its last_seen_timestamp is within the online threshold, so an
+ * outage starts at last_seen + threshold and ends at the next fresh last_seen;
+ * both are clamped to the time the change was detected. Time before the node
+ * was first seen, or before the event log starts, is not tracked.
+ */
+
+import { NodeEvent, NodeEventState, NodeSlaReport, PNodeStatus, SlaOutage, SlaVersionChange } from "../types/pnode";
+import { formatUptimeHuman } from "./format";
+
+type NodeState = PNodeStatus | "missing" | "untracked";
+
+interface Transition {
+  at: number; // Unix ms
+  state: NodeState;
+}
+
+export interface SlaReportInput {
+  pubkey: string;
+  month: string; // YYYY-MM, validated with parseMonth()
+  events: NodeEvent[]; // The node's events, oldest first, through at least the end of the month
+  observedSince: number | null; // Start of the event log
+  currentStatus: PNodeStatus | null; // Status in the latest gossip result, null if absent
+  onlineThresholdSeconds: number;
+  now: number;
+}
+
+/**
+ * Validate a YYYY-MM month (UTC); defaults to the current month
+ */
+export function parseMonth(
+  value: string | undefined,
+  now: number = Date.now()
+): { month: string; from: number; to: number } | { error: string } {
+  let month = value;
+  if (month === undefined || month === "") {
+    month = new Date(now).toISOString().slice(0, 7);
+  }
+
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    return { error: "month must be in YYYY-MM format" };
+  }
+
+  const from = Date.UTC(Number(match[1]), Number(match[2]) - 1, 1);
+  if (from > now) {
+    return { error: "month must not be in the future" };
+  }
+  return { month, from, to: Date.UTC(Number(match[1]), Number(match[2]), 1) };
+}
+
+function lastSeenMs(state: NodeEventState | undefined): number | null {
+  return state?.lastSeenTimestamp !== undefined ? state.lastSeenTimestamp * 1000 : null;
+}
+
+/**
+ * State before the first event, inferred from what that event says about the past
+ */
+function initialState(events: NodeEvent[], currentStatus: PNodeStatus | null): NodeState {
+  for (const event of events) {
+    switch (event.type) {
+      case "node_first_seen":
+        return "untracked";
+      case "node_rejoined":
+        return "missing";
+      case "node_disappeared":
+      case "node_offline":
+      case "node_online":
+        return event.previous?.status ?? "offline";
+    }
+  }
+  return currentStatus ?? "missing";
+}
+
+function buildTransitions(events: NodeEvent[], initial: NodeState, thresholdMs: number): Transition[] {
+  const transitions: Transition[] = [];
+  let state = initial;
+  let lastAt = -Infinity;
+
+  const moveTo = (next: NodeState, at: number) => {
+    if (next === state) return;
+    lastAt = Math.max(at, lastAt);
+    transitions.push({ at: lastAt, state: next });
+    state = next;
+  };
+
+  for (const event of events) {
+    const detectedAt = Date.parse(event.timestamp);
+    const staleAt = (s?: NodeEventState) => Math.min(detectedAt, (lastSeenMs(s) ?? Infinity) + thresholdMs);
+    const freshAt = (s?: NodeEventState) => Math.min(detectedAt, lastSeenMs(s) ?? Infinity);
+
+    switch (event.type) {
+      case "node_first_seen":
+      case "node_rejoined": {
+        const next = event.current?.status ?? "offline";
+        moveTo(next, next === "online" ? freshAt(event.current) : detectedAt);
+        break;
+      }
+      case "node_offline":
+        moveTo("offline", staleAt(event.current));
+        break;
+      case "node_online":
+        moveTo("online", freshAt(event.current));
+        break;
+      case "node_disappeared":
+        moveTo("missing", state === "online" ? staleAt(event.previous) : detectedAt);
+        break;
+    }
+  }
+
+  return transitions;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Replay a node's events into its availability report for one month
+ */
+export function buildSlaReport(input: SlaReportInput): NodeSlaReport {
+  const period = parseMonth(input.month, input.now);
+  if ("error" in period) {
+    throw new Error(period.error);
+  }
+
+  const from = period.from;
+  const to = Math.min(period.to, input.now);
+  const windowStart = Math.max(from, input.observedSince ?? Infinity);
+  const thresholdMs = input.onlineThresholdSeconds * 1000;
+
+  const initial = initialState(input.events, input.currentStatus);
+  const transitions = buildTransitions(input.events, initial, thresholdMs);
+
+  let trackedFrom: number | null = null;
+  let trackedMs = 0;
+  let onlineMs = 0;
+  const outages: SlaOutage[] = [];
+
+  // Walk the state segments [start, end) clipped to the tracked window
+  let state = initial;
+  let segmentStart = -Infinity;
+  for (let i = 0; i <= transitions.length; i++) {
+    const segmentEnd = i < transitions.length ? transitions[i].at : Infinity;
+    const start = Math.max(segmentStart, windowStart);
+    const end = Math.min(segmentEnd, to);
+
+    if (end > start && state !== "untracked") {
+      trackedFrom ??= start;
+      trackedMs += end - start;
+      if (state === "online") {
+        onlineMs += end - start;
+      } else {
+        const last = outages[outages.length - 1];
+        if (last && last.end === start) {
+          last.end = end;
+        } else {
+          outages.push({ start, end, durationMs: 0, cause: state, ongoing: false });
+        }
+      }
+    }
+
+    if (i < transitions.length) {
+      state = transitions[i].state;
+      segmentStart = segmentEnd;
+    }
+  }
+
+  for (const outage of outages) {
+    outage.durationMs = outage.end - outage.start;
+    outage.ongoing = outage.end === input.now && state !== "online";
+  }
+
+  const inPeriod = (event: NodeEvent) => {
+    const at = Date.parse(event.timestamp);
+    return at >= from && at <= to;
+  };
+  const versionChanges: SlaVersionChange[] = [];
+  for (const event of input.events) {
+    if (!inPeriod(event)) continue;
+    if (event.type === "version_upgraded" || event.type === "version_downgraded" || event.type === "version_changed") {
+      versionChanges.push({
+        at: Date.parse(event.timestamp),
+        type: event.type,
+        from: event.previous?.version ?? null,
+        to: event.current?.version ?? null,
+      });
+    }
+  }
+
+  return {
+    pubkey: input.pubkey,
+    month: period.month,
+    from,
+    to,
+    generatedAt: new Date(input.now).toISOString(),
+    onlineThresholdSeconds: input.onlineThresholdSeconds,
+    trackedFrom,
+    trackedMs,
+    onlineMs,
+    availabilityPercent: trackedMs > 0 ? round((onlineMs / trackedMs) * 100) : null,
+    outageCount: outages.length,
+    totalOutageMs: outages.reduce((sum, o) => sum + o.durationMs, 0),
+    longestOutageMs: outages.reduce((max, o) => Math.max(max, o.durationMs), 0),
+    outages,
+    restarts: input.events.filter((event) => event.type === "node_restarted" && inPeriod(event)).length,
+    versionChanges,
+  };
+}
+
+// Rendering: one neutral document, written out as Markdown or HTML
+
+interface SlaTable {
+  heading: string;
+  columns: string[];
+  rows: string[][];
+}
+
+interface SlaDocument {
+  title: string;
+  intro: string[];
+  tables: SlaTable[];
+  footer: string;
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 60 * 1000 ? `${Math.round(ms / 1000)}s` : formatUptimeHuman(Math.floor(ms / 1000));
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString().replace("T", " ").slice(0, 19) + " UTC";
+}
+
+const CAUSE_LABELS: Record<SlaOutage["cause"], string> = {
+  offline: "Stale last_seen_timestamp",
+  missing: "Missing from gossip",
+};
+
+function buildDocument(report: NodeSlaReport): SlaDocument {
+  const availability = report.availabilityPercent !== null ? `${report.availabilityPercent}%` : "n/a (not tracked)";
+  const tracked = report.trackedFrom !== null
+    ? `${formatDuration(report.trackedMs)} (since ${formatTime(report.trackedFrom)})`
+    : "none";
+
+  return {
+    title: `Availability report ${report.month}`,
+    intro: [
+      `pNode ${report.pubkey}`,
+      `Period: ${formatTime(report.from)} to ${formatTime(report.to)}. A node counts as online while its last_seen_timestamp is at most ${report.onlineThresholdSeconds}s old.`,
+    ],
+    tables: [
+      {
+        heading: "Summary",
+        columns: ["Metric", "Value"],
+        rows: [
+          ["Availability", availability],
+          ["Observed", tracked],
+          ["Online", formatDuration(report.onlineMs)],
+          ["Outages", `${report.outageCount} (total ${formatDuration(report.totalOutageMs)}, longest ${formatDuration(report.longestOutageMs)})`],
+          ["Restarts", String(report.restarts)],
+          ["Version changes", String(report.versionChanges.length)],
+        ],
+      },
+      {
+        heading: "Outages",
+        columns: ["Start", "End", "Duration", "Cause"],
+        rows: report.outages.map((o) => [
+          formatTime(o.start),
+          o.ongoing ? "ongoing" : formatTime(o.end),
+          formatDuration(o.durationMs),
+          CAUSE_LABELS[o.cause],
+        ]),
+      },
+      {
+        heading: "Version changes",
+        columns: ["Detected", "From", "To", "Change"],
+        rows: report.versionChanges.map((c) => [
+          formatTime(c.at),
+          c.from ?? "unknown",
+          c.to ?? "unknown",
+          c.type.replace("version_", ""),
+        ]),
+      },
+    ],
+    footer: `Generated ${formatTime(Date.parse(report.generatedAt))}`,
+  };
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[|\\`*_[\]<>]/g, (c) => `\\${c}`);
+}
+
+export function renderSlaMarkdown(report: NodeSlaReport): string {
+  const doc = buildDocument(report);
+  const lines = [`# ${doc.title}`, ""];
+  for (const paragraph of doc.intro) {
+    lines.push(escapeMarkdown(paragraph), "");
+  }
+
+  for (const table of doc.tables) {
+    lines.push(`## ${table.heading}`, "");
+    if (table.rows.length === 0) {
+      lines.push("None", "");
+      continue;
+    }
+    lines.push(`| ${table.columns.join(" | ")} |`, `|${table.columns.map(() => " --- |").join("")}`);
+    for (const row of table.rows) {
+      lines.push(`| ${row.map(escapeMarkdown).join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`_${doc.footer}_`, "");
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderSlaHtml(report: NodeSlaReport): string {
+  const doc = buildDocument(report);
+  const parts = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(doc.title)}</title>`,
+    "<style>body{font-family:system-ui,sans-serif;max-width:900px;margin:2em auto;padding:0 1em}table{border-collapse:collapse;margin-bottom:1.5em}th,td{border:1px solid #ccc;padding:4px 10px;text-align:left}</style>",
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(doc.title)}</h1>`,
+    ...doc.intro.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+  ];
+
+  for (const table of doc.tables) {
+    parts.push(`<h2>${escapeHtml(table.heading)}</h2>`);
+    if (table.rows.length === 0) {
+      parts.push("<p>None</p>");
+      continue;
+    }
+    parts.push(
+      "<table>",
+      `<tr>${table.columns.map((c) => `<th>${escapeHtml(c)}</th>`).join("")}</tr>`,
+      ...table.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`),
+      "</table>"
+    );
+  }
+
+  parts.push(`<p><em>${escapeHtml(doc.footer)}</em></p>`, "</body>", "</html>", "");
+  return parts.join("\n");
+}
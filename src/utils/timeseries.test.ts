@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Time-Series Helpers
+ *
+ * Run: npm test -- timeseries.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseDuration,
+  parseTimestamp,
+  bucketByStep,
+  averageOf,
+} from './timeseries';
+
+describe('parseDuration', () => {
+  it('should treat plain numbers as seconds', () => {
+    expect(parseDuration('300')).toBe(300 * 1000);
+  });
+
+  it('should parse unit suffixes', () => {
+    expect(parseDuration('30s')).toBe(30 * 1000);
+    expect(parseDuration('5m')).toBe(5 * 60 * 1000);
+    expect(parseDuration('1h')).toBe(60 * 60 * 1000);
+    expect(parseDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should reject malformed or non-positive durations', () => {
+    expect(parseDuration('abc')).toBeNull();
+    expect(parseDuration('0')).toBeNull();
+    expect(parseDuration('-5m')).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('should convert Unix seconds to milliseconds', () => {
+    expect(parseTimestamp('1700000000')).toBe(1700000000 * 1000);
+  });
+
+  it('should keep Unix milliseconds as-is', () => {
+    expect(parseTimestamp('1700000000000')).toBe(1700000000000);
+  });
+
+  it('should parse ISO dates', () => {
+    expect(parseTimestamp('2024-01-01T00:00:00Z')).toBe(Date.UTC(2024, 0, 1));
+  });
+
+  it('should return null for invalid input', () => {
+    expect(parseTimestamp('yesterday')).toBeNull();
+  });
+});
+
+describe('bucketByStep', () => {
+  it('should group samples into fixed-width buckets from the start time', () => {
+    const samples = [
+      { timestamp: 1000 },
+      { timestamp: 1500 },
+      { timestamp: 2100 },
+      { timestamp: 4000 },
+    ];
+
+    const buckets = bucketByStep(samples, 1000, 1000);
+
+    expect(buckets.map((b) => b.bucketStart)).toEqual([1000, 2000, 4000]);
+    expect(buckets[0].samples).toHaveLength(2);
+  });
+
+  it('should drop samples before the start time', () => {
+    const buckets = bucketByStep([{ timestamp: 500 }, { timestamp: 1200 }], 1000, 1000);
+    expect(buckets).toHaveLength(1);
+  });
+});
+
+describe('averageOf', () => {
+  it('should ignore undefined values', () => {
+    expect(averageOf([10, undefined, 20])).toBe(15);
+  });
+
+  it('should return undefined when no values are defined', () => {
+    expect(averageOf([undefined])).toBeUndefined();
+  });
+});
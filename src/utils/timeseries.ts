@@ -0,0 +1,82 @@
+/**
+ * Time-series helpers shared by the history and trend endpoints
+ */
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "30s", "5m", "1h", "7d" or a plain number of seconds into milliseconds
+ * Returns null for malformed or non-positive values
+ */
+export function parseDuration(value: string | undefined): number | null {
+  if (value === undefined || value === "") return null;
+
+  const match = /^(\d+(?:\.\d+)?)([smhd]?)$/.exec(value.trim());
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2] || "s";
+  const ms = Math.round(amount * DURATION_UNITS_MS[unit]);
+  return ms > 0 ? ms : null;
+}
+
+/**
+ * Parse a timestamp given as Unix seconds, Unix milliseconds or an ISO date string into Unix ms
+ * Returns null if the value cannot be parsed
+ */
+export function parseTimestamp(value: string | undefined): number | null {
+  if (value === undefined || value === "") return null;
+
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value);
+    // Values below 1e12 are Unix seconds (1e12 ms is in 2001)
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Group timestamped samples into fixed-width buckets starting at `from`
+ * Buckets without samples are omitted; buckets are returned oldest first.
+ */
+export function bucketByStep<T extends { timestamp: number }>(
+  samples: T[],
+  from: number,
+  step: number
+): Array<{ bucketStart: number; samples: T[] }> {
+  const buckets = new Map<number, T[]>();
+
+  for (const sample of samples) {
+    if (sample.timestamp < from) continue;
+    const bucketStart = from + Math.floor((sample.timestamp - from) / step) * step;
+    const bucket = buckets.get(bucketStart);
+    if (bucket) {
+      bucket.push(sample);
+    } else {
+      buckets.set(bucketStart, [sample]);
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([bucketStart, bucketSamples]) => ({
+      bucketStart,
+      samples: bucketSamples.sort((a, b) => a.timestamp - b.timestamp),
+    }));
+}
+
+/**
+ * Average of the defined values, or undefined if there are none
+ */
+export function averageOf(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  if (defined.length === 0) return undefined;
+  return defined.reduce((sum, v) => sum + v, 0) / defined.length;
+}
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Version Compliance
+ *
+ * Run: npm test -- version-compliance.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildSeriesAdoption, buildVersionCompliance, findLatestObservedVersion } from './version-compliance';
+import { PNode } from '../types/pnode';
+
+function node(pubkey: string, version: string): PNode {
+  return {
+    pubkey,
+    status: 'online',
+    version,
+    storageUsed: 0,
+    storageTotal: 0,
+    uptime: 0,
+    ip: '10.0.0.1',
+    address: '10.0.0.1:9001',
+    lastSeen: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const nodes = [
+  node('a', '0.8.1'),
+  node('b', '0.8.1+build.7'),
+  node('c', '0.8.0'),
+  node('d', '0.7.3'),
+  node('e', '0.9.0-rc.1'),
+  node('f', 'unknown'),
+];
+
+describe('findLatestObservedVersion', () => {
+  it('should prefer the highest stable version over newer prereleases', () => {
+    expect(findLatestObservedVersion(['0.8.0', '0.9.0-rc.1', '0.8.1'])).toBe('0.8.1');
+  });
+
+  it('should fall back to the highest prerelease, or null without parseable versions', () => {
+    expect(findLatestObservedVersion(['0.9.0-rc.1', '0.9.0-rc.2'])).toBe('0.9.0-rc.2');
+    expect(findLatestObservedVersion(['unknown', ''])).toBeNull();
+  });
+});
+
+describe('buildSeriesAdoption', () => {
+  it('should group versions by major.minor, newest first', () => {
+    const adoption = buildSeriesAdoption(nodes);
+
+    expect(adoption.map((s) => s.series)).toEqual(['0.9', '0.8', '0.7']);
+    expect(adoption[1]).toEqual({
+      series: '0.8',
+      major: 0,
+      minor: 8,
+      count: 3,
+      percent: 50,
+      versions: [{ version: '0.8.1', count: 1 }, { version: '0.8.1+build.7', count: 1 }, { version: '0.8.0', count: 1 }],
+    });
+  });
+});
+
+describe('buildVersionCompliance', () => {
+  it('should classify nodes against the observed latest version, ignoring build metadata', () => {
+    const report = buildVersionCompliance(nodes, {}, new Date('2026-01-02T00:00:00Z'));
+
+    expect(report.policy).toEqual({ latest: '0.8.1', latestSource: 'observed', minimumSupported: null });
+    expect(report.onLatest).toBe(2);
+    expect(report.aheadOfLatest).toBe(1);
+    expect(report.behindLatest).toBe(2);
+    expect(report.unparseable).toBe(1);
+    expect(report.latestAdoptionPercent).toBe(50);
+    expect(report.nodesBehindLatest.map((n) => n.pubkey)).toEqual(['d', 'c']);
+    expect(report.nodesBelowMinimum).toEqual([]);
+    expect(report.nodesWithUnparseableVersion[0]).toEqual({
+      pubkey: 'f',
+      version: 'unknown',
+      status: 'online',
+      address: '10.0.0.1:9001',
+      lastSeen: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should apply a configured policy', () => {
+    const report = buildVersionCompliance(nodes, { latest: '0.9.0', minimumSupported: '0.8.0' });
+
+    expect(report.policy.latestSource).toBe('configured');
+    expect(report.onLatest).toBe(0);
+    expect(report.behindLatest).toBe(5);
+    expect(report.belowMinimum).toBe(1);
+    expect(report.nodesBehindLatest[report.nodesBehindLatest.length - 1].pubkey).toBe('e');
+    expect(report.nodesBelowMinimum.map((n) => n.pubkey)).toEqual(['d']);
+  });
+});
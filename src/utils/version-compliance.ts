@@ -0,0 +1,140 @@
+/**
+ * Version compliance against a latest / minimum supported policy
+ *
+ * Versions are compared by semver precedence, so build metadata is ignored and
+ * prereleases rank below their release (0.8.0-rc.1 is behind 0.8.0).
+ */
+
+import { compareSemVer, compareVersions, parseVersion, SemVer } from "./semver";
+import { VersionPolicyConfig } from "../config/versions";
+import {
+  ComplianceNode,
+  PNode,
+  VersionCompliance,
+  VersionPolicy,
+  VersionSeriesAdoption,
+} from "../types/pnode";
+
+function toPercent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100 * 100) / 100 : 0;
+}
+
+function toComplianceNode(node: PNode): ComplianceNode {
+  return {
+    pubkey: node.pubkey,
+    version: node.version,
+    status: node.status,
+    ...(node.address ? { address: node.address } : {}),
+    lastSeen: node.lastSeen,
+  };
+}
+
+/**
+ * Highest stable version reported by any node, or the highest prerelease if none is stable
+ */
+export function findLatestObservedVersion(versions: string[]): string | null {
+  let latest: SemVer | null = null;
+  let latestStable: SemVer | null = null;
+
+  for (const version of versions) {
+    const parsed = parseVersion(version);
+    if (!parsed) continue;
+    if (!latest || compareSemVer(parsed, latest) > 0) latest = parsed;
+    if (parsed.prerelease.length === 0 && (!latestStable || compareSemVer(parsed, latestStable) > 0)) {
+      latestStable = parsed;
+    }
+  }
+  return (latestStable ?? latest)?.raw ?? null;
+}
+
+/**
+ * Resolve the policy for a set of nodes, filling in the observed latest version when not configured
+ */
+export function resolveVersionPolicy(config: VersionPolicyConfig, nodes: PNode[]): VersionPolicy {
+  return {
+    latest: config.latest ?? findLatestObservedVersion(nodes.map((node) => node.version)),
+    latestSource: config.latest ? "configured" : "observed",
+    minimumSupported: config.minimumSupported ?? null,
+  };
+}
+
+/**
+ * Adoption per major.minor series, newest first
+ */
+export function buildSeriesAdoption(nodes: PNode[]): VersionSeriesAdoption[] {
+  const series = new Map<string, { major: number; minor: number; versions: Map<string, number> }>();
+
+  for (const node of nodes) {
+    const parsed = parseVersion(node.version);
+    if (!parsed) continue;
+
+    const key = `${parsed.major}.${parsed.minor}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { major: parsed.major, minor: parsed.minor, versions: new Map() };
+      series.set(key, entry);
+    }
+    entry.versions.set(node.version, (entry.versions.get(node.version) || 0) + 1);
+  }
+
+  return Array.from(series.entries(), ([key, entry]) => {
+    const versions = Array.from(entry.versions.entries())
+      .map(([version, count]) => ({ version, count }))
+      .sort((a, b) => compareVersions(b.version, a.version) || a.version.localeCompare(b.version));
+    const count = versions.reduce((sum, v) => sum + v.count, 0);
+
+    return {
+      series: key,
+      major: entry.major,
+      minor: entry.minor,
+      count,
+      percent: toPercent(count, nodes.length),
+      versions,
+    };
+  }).sort((a, b) => b.major - a.major || b.minor - a.minor);
+}
+
+/**
+ * Classify every node against the policy
+ */
+export function buildVersionCompliance(nodes: PNode[], config: VersionPolicyConfig, now: Date = new Date()): VersionCompliance {
+  const policy = resolveVersionPolicy(config, nodes);
+  const latest = parseVersion(policy.latest ?? undefined);
+  const minimum = parseVersion(policy.minimumSupported ?? undefined);
+
+  const parsed: Array<{ node: PNode; version: SemVer }> = [];
+  const unparseable: PNode[] = [];
+  for (const node of nodes) {
+    const version = parseVersion(node.version);
+    if (version) {
+      parsed.push({ node, version });
+    } else {
+      unparseable.push(node);
+    }
+  }
+  parsed.sort((a, b) => compareSemVer(a.version, b.version) || a.node.pubkey.localeCompare(b.node.pubkey));
+
+  const compareToLatest = (version: SemVer) => (latest ? compareSemVer(version, latest) : 0);
+  const behind = parsed.filter(({ version }) => compareToLatest(version) < 0);
+  const onLatest = parsed.filter(({ version }) => compareToLatest(version) === 0).length;
+  const aheadOfLatest = parsed.length - behind.length - onLatest;
+  const belowMinimum = minimum ? parsed.filter(({ version }) => compareSemVer(version, minimum) < 0) : [];
+
+  return {
+    generatedAt: now.toISOString(),
+    policy,
+    totalNodes: nodes.length,
+    onLatest,
+    aheadOfLatest,
+    behindLatest: behind.length,
+    belowMinimum: belowMinimum.length,
+    unparseable: unparseable.length,
+    latestAdoptionPercent: toPercent(onLatest + aheadOfLatest, nodes.length),
+    adoption: buildSeriesAdoption(nodes),
+    nodesBehindLatest: behind.map(({ node }) => toComplianceNode(node)),
+    nodesBelowMinimum: belowMinimum.map(({ node }) => toComplianceNode(node)),
+    nodesWithUnparseableVersion: unparseable
+      .sort((a, b) => a.pubkey.localeCompare(b.pubkey))
+      .map(toComplianceNode),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Version Rollout Timeline
+ *
+ * Run: npm test -- version-timeline.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { alignToInterval, buildVersionAdoption, buildVersionTimeline, VersionSample } from './version-timeline';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function sample(hours: number, counts: Record<string, number>): VersionSample {
+  const map = new Map(Object.entries(counts));
+  const totalNodes = Array.from(map.values()).reduce((sum, count) => sum + count, 0);
+  return { timestamp: START + hours * HOUR, totalNodes, counts: map };
+}
+
+// 0.8.0 ships at hour 2 and reaches 50% at hour 3 and 90% at hour 5; 0.8.1 follows at hour 4
+const samples = [
+  sample(0, { '0.7.3': 10 }),
+  sample(1, { '0.7.3': 10 }),
+  sample(2, { '0.7.3': 8, '0.8.0': 2 }),
+  sample(3, { '0.7.3': 5, '0.8.0': 5 }),
+  sample(4, { '0.7.3': 2, '0.8.0': 6, '0.8.1': 2 }),
+  sample(5, { '0.7.3': 1, '0.8.0': 4, '0.8.1': 5 }),
+];
+
+describe('alignToInterval', () => {
+  it('should align to the start of the UTC hour or day', () => {
+    expect(alignToInterval(START + 90 * 60 * 1000, 'hourly')).toBe(START + HOUR);
+    expect(alignToInterval(START + 25 * HOUR, 'daily')).toBe(START + 24 * HOUR);
+  });
+});
+
+describe('buildVersionAdoption', () => {
+  it('should report time to 50% and 90%, counting newer versions as adopted', () => {
+    const adoption = buildVersionAdoption(samples);
+    const v080 = adoption.find((a) => a.version === '0.8.0')!;
+
+    expect(adoption.map((a) => a.version)).toEqual(['0.8.1', '0.8.0', '0.7.3']);
+    expect(v080).toEqual({
+      version: '0.8.0',
+      firstSeenAt: START + 2 * HOUR,
+      presentAtStart: false,
+      currentPercent: 90,
+      reached50At: START + 3 * HOUR,
+      timeTo50PercentMs: HOUR,
+      reached90At: START + 5 * HOUR,
+      timeTo90PercentMs: 3 * HOUR,
+    });
+  });
+
+  it('should leave milestones null until they are reached', () => {
+    const v081 = buildVersionAdoption(samples).find((a) => a.version === '0.8.1')!;
+
+    expect(v081.timeTo50PercentMs).toBe(HOUR);
+    expect(v081.reached90At).toBeNull();
+    expect(v081.timeTo90PercentMs).toBeNull();
+  });
+
+  it('should flag versions already running in the first snapshot', () => {
+    const v073 = buildVersionAdoption(samples).find((a) => a.version === '0.7.3')!;
+    expect(v073.presentAtStart).toBe(true);
+    expect(v073.timeTo90PercentMs).toBe(0);
+  });
+});
+
+describe('buildVersionTimeline', () => {
+  it('should align buckets and use the last snapshot in each', () => {
+    const halfHourly = [...samples, sample(5.5, { '0.8.1': 10 })];
+    const timeline = buildVersionTimeline(halfHourly, START + 30 * 60 * 1000, START + 6 * HOUR, 'hourly');
+
+    expect(timeline.step).toBe(HOUR);
+    expect(timeline.buckets).toHaveLength(6);
+    expect(timeline.buckets[0].timestamp).toBe(START);
+    expect(timeline.buckets[5]).toEqual({
+      timestamp: START + 5 * HOUR,
+      snapshotTimestamp: START + 5.5 * HOUR,
+      totalNodes: 10,
+      versions: [{ version: '0.8.1', count: 10 }],
+    });
+  });
+
+  it('should return empty buckets and adoption without snapshots', () => {
+    const timeline = buildVersionTimeline([], START, START + HOUR, 'daily');
+    expect(timeline.buckets).toEqual([]);
+    expect(timeline.adoption).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Version rollout timeline from gossip snapshots
+ *
+ * Buckets show the distribution of the last snapshot in each bucket. Adoption
+ * milestones use every snapshot: a version is adopted by a node once the node
+ * runs it or any newer version, so later upgrades don't undo earlier progress.
+ * Unparseable versions only count exact matches.
+ */
+
+import { bucketByStep } from "./timeseries";
+import { compareVersions, parseVersion } from "./semver";
+import {
+  PNode,
+  VersionAdoption,
+  VersionDistribution,
+  VersionTimeline,
+  VersionTimelineBucket,
+  VersionTimelineInterval,
+} from "../types/pnode";
+
+export const VERSION_TIMELINE_STEPS_MS: Record<VersionTimelineInterval, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Node count per version in one snapshot
+ */
+export interface VersionSample {
+  timestamp: number;
+  totalNodes: number;
+  counts: Map<string, number>;
+}
+
+export function sampleVersions(timestamp: number, nodes: PNode[]): VersionSample {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    const version = node.version || "unknown";
+    counts.set(version, (counts.get(version) || 0) + 1);
+  }
+  return { timestamp, totalNodes: nodes.length, counts };
+}
+
+function toDistribution(counts: Map<string, number>): VersionDistribution[] {
+  return Array.from(counts.entries())
+    .map(([version, count]) => ({ version, count }))
+    .sort((a, b) => b.count - a.count || compareVersions(b.version, a.version));
+}
+
+function toPercent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100 * 100) / 100 : 0;
+}
+
+/**
+ * Share of nodes in a sample running `version` or newer
+ */
+function adoptionPercent(sample: VersionSample, version: string): number {
+  const parseable = parseVersion(version) !== null;
+  let adopted = 0;
+  for (const [candidate, count] of sample.counts) {
+    if (candidate === version || (parseable && parseVersion(candidate) && compareVersions(candidate, version) >= 0)) {
+      adopted += count;
+    }
+  }
+  return toPercent(adopted, sample.totalNodes);
+}
+
+/**
+ * First-seen time and 50% / 90% adoption milestones per version, newest version first
+ * `samples` must be sorted oldest first.
+ */
+export function buildVersionAdoption(samples: VersionSample[]): VersionAdoption[] {
+  if (samples.length === 0) return [];
+
+  const firstSeen = new Map<string, number>();
+  for (const sample of samples) {
+    for (const version of sample.counts.keys()) {
+      if (!firstSeen.has(version)) firstSeen.set(version, sample.timestamp);
+    }
+  }
+
+  const startedAt = samples[0].timestamp;
+  const last = samples[samples.length - 1];
+
+  return Array.from(firstSeen.entries(), ([version, firstSeenAt]) => {
+    let reached50At: number | null = null;
+    let reached90At: number | null = null;
+
+    for (const sample of samples) {
+      if (sample.timestamp < firstSeenAt) continue;
+      const percent = adoptionPercent(sample, version);
+      if (reached50At === null && percent >= 50) reached50At = sample.timestamp;
+      if (percent >= 90) {
+        reached90At = sample.timestamp;
+        break;
+      }
+    }
+
+    return {
+      version,
+      firstSeenAt,
+      presentAtStart: firstSeenAt === startedAt,
+      currentPercent: adoptionPercent(last, version),
+      reached50At,
+      timeTo50PercentMs: reached50At !== null ? reached50At - firstSeenAt : null,
+      reached90At,
+      timeTo90PercentMs: reached90At !== null ? reached90At - firstSeenAt : null,
+    };
+  }).sort((a, b) => compareVersions(b.version, a.version) || a.version.localeCompare(b.version));
+}
+
+/**
+ * Start of the UTC hour or day containing `timestamp`
+ */
+export function alignToInterval(timestamp: number, interval: VersionTimelineInterval): number {
+  const step = VERSION_TIMELINE_STEPS_MS[interval];
+  return Math.floor(timestamp / step) * step;
+}
+
+/**
+ * Bucketed distribution and adoption milestones
+ * `samples` must be sorted oldest first.
+ */
+export function buildVersionTimeline(
+  samples: VersionSample[],
+  from: number,
+  to: number,
+  interval: VersionTimelineInterval
+): VersionTimeline {
+  const step = VERSION_TIMELINE_STEPS_MS[interval];
+
+  const buckets: VersionTimelineBucket[] = bucketByStep(samples, alignToInterval(from, interval), step)
+    .map(({ bucketStart, samples: bucketSamples }) => {
+      const last = bucketSamples[bucketSamples.length - 1];
+      return {
+        timestamp: bucketStart,
+        snapshotTimestamp: last.timestamp,
+        totalNodes: last.totalNodes,
+        versions: toDistribution(last.counts),
+      };
+    });
+
+  return {
+    from,
+    to,
+    interval,
+    step,
+    buckets,
+    adoption: buildVersionAdoption(samples),
+  };
+}